@@ -1,11 +1,45 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import BowTieGraph from './components/BowTieGraph';
 import ChatInterface from './components/ChatInterface';
-import { INITIAL_REACTFLOW_NODES, INITIAL_REACTFLOW_EDGES } from './constants';
-import { ChatMessage, ContentType, MessageRole, NodeType, ProcessNodeData, Cause, Evidence } from './types';
-import { generateProcessResponse } from './services/geminiService';
+import { INITIAL_REACTFLOW_NODES, INITIAL_REACTFLOW_EDGES, WELCOME_MESSAGE, DIAGRAM_TEMPLATES, RCA_METHOD_LABELS, BUILT_IN_CATEGORY_TEMPLATES, EDIT_SHORTCUTS, EVIDENCE_EXTRACTION_PROMPT } from './constants';
+import { ChatMessage, ContentType, MessageRole, NodeType, ProcessNodeData, Cause, CauseStatus, Evidence, ProposalStatus, AnalysisRecord, ToolCall, ToolActivity, ToolActivityStatus, DiagramView, RcaMethod, BlankAnalysisOptions, CorrectiveAction, ExtractedDocument } from './types';
+import { generateProcessResponse } from './services/assistantService';
+import { buildAttachmentContext } from './services/attachmentContext';
+import { storeSourceText } from './services/evidenceFiles';
+import { getActiveProvider, listProviders, setActiveProvider, ChatTurn, ProviderId } from './services/llm';
+import { isLookupTool } from './services/llm/tools';
+import { countCauses, removeCauseFromTree } from './services/causeTree';
+import { applyToolCalls, describeToolCall } from './services/toolExecutor';
+import { buildProposedChanges } from './services/graphDiff';
+import { parseAnalysisFile, serializeAnalysisFile, formatSchemaIssues, toStoredNodes, toStoredEdges } from './services/analysisSchema';
+import { useGraphHistory, GraphSnapshot } from './hooks/useGraphHistory';
+import { useWorkspace } from './hooks/useWorkspace';
+import { useCategoryTemplates } from './hooks/useCategoryTemplates';
+import { useFindingsIndex } from './hooks/useFindingsIndex';
+import { buildFishboneFromTemplate } from './services/categoryTemplates';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import ExportMenu from './components/ExportMenu';
+import { downloadBlob, downloadText, dateStamp } from './services/download';
+import { buildAnalysisBundle, needsBundle, readAnalysisBundle } from './services/analysisBundle';
+import { putArtifact } from './services/storage';
+import { exportDiagram, DiagramFormat, DiagramExportOptions, DIAGRAM_FILE_EXTENSIONS } from './services/diagramExport';
+import DiagramExportDialog from './components/DiagramExportDialog';
+import { buildReport, renderReport, ReportFormat, REPORT_FILE_TYPES } from './services/reportGenerator';
+import { rankCandidateRootCauses, updateCauseInGraph } from './services/causeAssessment';
+import CandidateRootCausePanel from './components/CandidateRootCausePanel';
+import { buildGapReport, renderGapReportMarkdown } from './services/evidenceSufficiency';
+import { layoutDiagram } from './services/diagramLayout';
+import { findTopEvent, getRcaMethod } from './services/rcaMethods';
+import { addSpineSegment, removeSpineSegment } from './services/fishboneLayout';
+import EvidenceGapPanel from './components/EvidenceGapPanel';
+import ActionPlanPanel, { ActionPlanContext } from './components/ActionPlanPanel';
+import { getActions, setActions, summarizeActionPlan } from './services/correctiveActions';
+import WhyLadderPanel from './components/WhyLadderPanel';
+import SourcePassagePanel, { OpenPassage } from './components/SourcePassagePanel';
+import PastFindingsPanel from './components/PastFindingsPanel';
+import PortfolioDashboard from './components/PortfolioDashboard';
 import { 
   Node, 
   Edge, 
@@ -13,31 +47,64 @@ import {
   useEdgesState, 
   addEdge, 
   Connection, 
-  MarkerType 
+  MarkerType,
+  NodeChange,
+  EdgeChange,
+  NodeDragHandler
 } from 'reactflow';
-import { GripVertical } from 'lucide-react';
+import { GripVertical, Undo2, Redo2, Target, ClipboardCheck, ClipboardList, LayoutDashboard, Wrench, History, BarChart3 } from 'lucide-react';
+
+const createWelcomeMessages = (): ChatMessage[] => [
+  {
+    id: 'init-1',
+    role: MessageRole.MODEL,
+    content: WELCOME_MESSAGE,
+    type: ContentType.TEXT,
+    timestamp: Date.now()
+  }
+];
 
 const App: React.FC = () => {
   // State for React Flow
   const [nodes, setNodes, onNodesChange] = useNodesState(INITIAL_REACTFLOW_NODES);
   const [edges, setEdges, onEdgesChange] = useEdgesState(INITIAL_REACTFLOW_EDGES);
+  const gapReport = useMemo(() => buildGapReport(nodes, edges), [nodes, edges]);
+  const actions = useMemo(() => getActions(nodes), [nodes]);
+  const actionPlan = useMemo(() => summarizeActionPlan(actions), [actions]);
+  const rcaMethod = useMemo(() => getRcaMethod(nodes), [nodes]);
+
+  // Undo/Redo history for all diagram edits
+  const history = useGraphHistory(nodes, edges, setNodes, setEdges);
+  const { record: recordHistory, undo, redo, reset: resetHistory } = history;
 
   // State for Chat
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'init-1',
-      role: MessageRole.MODEL,
-      content: "Welcome to Root Cause Analysis.\n\nI can help you build a Fishbone Diagram using the 5 Whys method. \n\nLet's start by defining the **Problem Statement**.",
-      type: ContentType.TEXT,
-      timestamp: Date.now()
-    }
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>(createWelcomeMessages);
   const [isTyping, setIsTyping] = useState(false);
+  // When on, assistant tool calls are held as proposals until the user accepts them
+  const [reviewMode, setReviewMode] = useState(false);
+  const [providerId, setProviderId] = useState<ProviderId>(() => getActiveProvider().id);
 
   // State for Sidebar Resizing
   const [sidebarWidth, setSidebarWidth] = useState(450);
   const [isResizing, setIsResizing] = useState(false);
 
+  const [isDiagramExportOpen, setIsDiagramExportOpen] = useState(false);
+  const [isPortfolioOpen, setIsPortfolioOpen] = useState(false);
+  const [isCandidatePanelOpen, setIsCandidatePanelOpen] = useState(false);
+  const [isGapPanelOpen, setIsGapPanelOpen] = useState(false);
+  const [isActionPanelOpen, setIsActionPanelOpen] = useState(false);
+  const [diagramView, setDiagramView] = useState<DiagramView>(DiagramView.CARDS);
+  const [ladderCauseId, setLadderCauseId] = useState<string | null>(null);
+  const [openPassage, setOpenPassage] = useState<OpenPassage | null>(null);
+  const [isFindingsPanelOpen, setIsFindingsPanelOpen] = useState(false);
+
+  // Cancels the in-flight assistant response
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set synchronously, so a second send in the same render cannot start a concurrent turn
+  const turnInFlightRef = useRef(false);
+  // Documents attached during this session, which extracted evidence can cite
+  const sourceDocumentsRef = useRef<ExtractedDocument[]>([]);
+
   // File Input Ref for Import (Project Level)
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -79,10 +146,63 @@ const App: React.FC = () => {
     };
   }, [isResizing]);
 
+  // --- Undo/Redo Shortcuts ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave native text undo alone while typing
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // --- 5 Whys Ladder ---
+  // Cause editors on the canvas ask for the ladder through a window event, like node deletion
+  useEffect(() => {
+    const handleOpenLadder = (e: Event) => {
+      setLadderCauseId((e as CustomEvent).detail.causeId);
+      setIsCandidatePanelOpen(false);
+      setIsGapPanelOpen(false);
+      setIsActionPanelOpen(false);
+      setIsFindingsPanelOpen(false);
+      setOpenPassage(null);
+    };
+    window.addEventListener('open-why-ladder', handleOpenLadder);
+    return () => window.removeEventListener('open-why-ladder', handleOpenLadder);
+  }, []);
+
+  // --- Source Passages ---
+  // Evidence citations open the passage they quote the same way
+  useEffect(() => {
+    const handleOpenPassage = (e: Event) => {
+      setOpenPassage((e as CustomEvent<OpenPassage>).detail);
+      setIsCandidatePanelOpen(false);
+      setIsGapPanelOpen(false);
+      setIsActionPanelOpen(false);
+      setIsFindingsPanelOpen(false);
+      setLadderCauseId(null);
+    };
+    window.addEventListener('open-source-passage', handleOpenPassage);
+    return () => window.removeEventListener('open-source-passage', handleOpenPassage);
+  }, []);
+
   // --- Graph Manipulation Handlers ---
 
   // Defined first so it can be passed to nodes
   const handleUpdateNode = useCallback((id: string, data: Partial<ProcessNodeData>) => {
+    recordHistory('Edit node');
     setNodes((nds) => nds.map(node => {
       if (node.id === id) {
         return { 
@@ -95,7 +215,7 @@ const App: React.FC = () => {
       }
       return node;
     }));
-  }, [setNodes]);
+  }, [setNodes, recordHistory]);
 
   // Inject handleUpdateNode into nodes that don't have it (e.g. initial nodes)
   useEffect(() => {
@@ -107,16 +227,36 @@ const App: React.FC = () => {
     }));
   }, [handleUpdateNode, setNodes]);
 
-  const handleAddNode = (type: NodeType, title?: string, description?: string, desiredId?: string) => {
-    const xPos = 100 + (nodes.length * 50); 
-    const yPos = 100 + (nodes.length * 50);
+  // --- Workspace (autosaved analyses) ---
+
+  const handleOpenAnalysis = useCallback((record: AnalysisRecord) => {
+    setNodes(record.nodes.map(n => ({ ...n, data: { ...n.data, onEdit: handleUpdateNode } })));
+    setEdges(record.edges);
+    // A reload mid-response leaves a message flagged as streaming
+    setMessages(record.messages.map(m => m.isStreaming ? { ...m, isStreaming: false } : m));
+    resetHistory();
+  }, [setNodes, setEdges, handleUpdateNode, resetHistory]);
+
+  // Fishbones are seeded from a category template; the other methods from their diagram template
+  const createBlankAnalysis = useCallback(({ method = RcaMethod.FISHBONE, template = BUILT_IN_CATEGORY_TEMPLATES[0] }: BlankAnalysisOptions = {}) => {
+    const isFishbone = method === RcaMethod.FISHBONE;
+    const diagram = isFishbone
+      ? buildFishboneFromTemplate(template, diagramView)
+      : layoutDiagram(DIAGRAM_TEMPLATES[method].nodes, DIAGRAM_TEMPLATES[method].edges);
+    return { ...diagram, messages: createWelcomeMessages(), template: isFishbone ? template.name : RCA_METHOD_LABELS[method].label };
+  }, [diagramView]);
 
+  const workspace = useWorkspace({ nodes, edges, messages, onOpen: handleOpenAnalysis, createBlank: createBlankAnalysis });
+  const categoryTemplates = useCategoryTemplates();
+  const pastFindings = useFindingsIndex(workspace.analyses, workspace.currentId);
+
+  const handleAddNode = (type: NodeType, title?: string, description?: string, desiredId?: string) => {
     const newNodeId = desiredId || `n-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
     
     const newNode: Node = {
       id: newNodeId,
       type: 'processNode',
-      position: { x: xPos, y: yPos },
+      position: { x: 100 + (nodes.length * 50), y: 100 + (nodes.length * 50) },
       data: {
         id: newNodeId,
         type: type,
@@ -126,15 +266,85 @@ const App: React.FC = () => {
         onEdit: handleUpdateNode
       },
     };
-    setNodes((nds) => [...nds, newNode]);
+    recordHistory('Add node');
+    // Categories take the next rib slot on the spine
+    const laidOut = type === NodeType.CATEGORY ? layoutDiagram([...nodes, newNode], edges, diagramView) : { nodes: [...nodes, newNode], edges };
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
     return newNodeId;
   };
 
+  const handleRelayout = () => {
+    recordHistory('Re-layout');
+    const laidOut = layoutDiagram(nodes, edges, diagramView);
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
+  };
+
+  // Bones need longer ribs than cards, so switching views lays the diagram out again
+  const handleChangeView = (view: DiagramView) => {
+    recordHistory('Switch view');
+    setDiagramView(view);
+    const laidOut = layoutDiagram(nodes, edges, view);
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
+  };
+
+  const handleAddSpineSegment = () => {
+    recordHistory('Add spine segment');
+    const laidOut = addSpineSegment(nodes, edges, diagramView);
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
+  };
+
+  const handleRemoveSpineSegment = () => {
+    const laidOut = removeSpineSegment(nodes, edges, diagramView);
+    if (!laidOut) return;
+    recordHistory('Remove spine segment');
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
+  };
+
+  // Opens the problem (top event) card's editor, like double-clicking it
+  const handleEditProblem = () => {
+    const problem = findTopEvent(nodes);
+    if (problem) window.dispatchEvent(new CustomEvent('node-edit', { detail: { id: problem.id } }));
+  };
+
   const handleDeleteNode = (id: string) => {
+    recordHistory('Delete node');
     setNodes((nds) => nds.filter((n) => n.id !== id));
     setEdges((eds) => eds.filter((edge) => edge.source !== id && edge.target !== id));
   };
 
+  // --- Editing Shortcuts ---
+  // Single keys, so they work on the canvas without a model; skipped while typing, with modifiers or
+  // held keys, and while a dialog or dropdown menu is open. The handler reads the latest state
+  // through a ref, so the listener is registered once rather than on every render
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+    if (isPortfolioOpen || isDiagramExportOpen || document.querySelector('[role="dialog"]')) return;
+    const target = e.target as HTMLElement;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+
+    const key = e.key.toLowerCase();
+    const isFishbone = rcaMethod === RcaMethod.FISHBONE;
+    if (key === EDIT_SHORTCUTS.editProblem) handleEditProblem();
+    else if (key === EDIT_SHORTCUTS.relayout) handleRelayout();
+    else if (isFishbone && key === EDIT_SHORTCUTS.addCategory) handleAddNode(NodeType.CATEGORY);
+    else if (isFishbone && key === EDIT_SHORTCUTS.addSegment) handleAddSpineSegment();
+    else if (isFishbone && key === EDIT_SHORTCUTS.removeSegment) handleRemoveSpineSegment();
+    else return;
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleConnect = useCallback((params: Connection) => {
      const newEdge = { 
       ...params, 
@@ -142,10 +352,12 @@ const App: React.FC = () => {
       style: { strokeWidth: 2, stroke: '#64748b' },
       data: { causes: [] }
     };
+    recordHistory('Connect nodes');
     setEdges((eds) => addEdge(newEdge, eds));
-  }, [setEdges]);
+  }, [setEdges, recordHistory]);
 
   const handleUpdateEdge = (id: string, data: { label?: string, causes?: Cause[] }) => {
+    recordHistory('Edit connection');
     setEdges((eds) => eds.map(e => {
       if (e.id === id) {
         const updatedEdge = { 
@@ -163,9 +375,40 @@ const App: React.FC = () => {
   };
 
   const handleDeleteEdge = (id: string) => {
+    recordHistory('Delete connection');
     setEdges((eds) => eds.filter(e => e.id !== id));
   };
 
+  // Keyboard deletions from React Flow arrive as 'remove' changes
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) recordHistory('Delete node');
+    onNodesChange(changes);
+  }, [onNodesChange, recordHistory]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    if (changes.some(c => c.type === 'remove')) recordHistory('Delete connection');
+    onEdgesChange(changes);
+  }, [onEdgesChange, recordHistory]);
+
+  // A drag is one step: the graph is kept at drag start and recorded at drag stop, so a click
+  // that moves nothing leaves no empty undo entry
+  const dragStartRef = useRef<GraphSnapshot | null>(null);
+  const handleNodeDragStart = useCallback(() => {
+    dragStartRef.current = { nodes, edges };
+  }, [nodes, edges]);
+
+  const handleNodeDragStop: NodeDragHandler = useCallback((_event: unknown, _node: Node, dragged: Node[]) => {
+    const start: GraphSnapshot | null = dragStartRef.current;
+    dragStartRef.current = null;
+    if (!start) return;
+    const before = new Map(start.nodes.map(n => [n.id, n.position]));
+    const moved = dragged.some(n => {
+      const position = before.get(n.id);
+      return position && (position.x !== n.position.x || position.y !== n.position.y);
+    });
+    if (moved) recordHistory('Move node', undefined, start);
+  }, [recordHistory]);
+
   // --- Chat Operations ---
 
   const addMessage = (role: MessageRole, content: string, type: ContentType = ContentType.TEXT, extra?: Partial<ChatMessage>) => {
@@ -178,6 +421,7 @@ const App: React.FC = () => {
       ...extra
     };
     setMessages(prev => [...prev, newMsg]);
+    return newMsg.id;
   };
 
   const handleClearChat = () => {
@@ -192,344 +436,340 @@ const App: React.FC = () => {
     ]);
   };
 
-  const handleSendMessage = async (text: string, fileContent?: string) => {
-    const userDisplayMessage = text || (fileContent ? "Attached document for analysis." : "...");
-    addMessage(MessageRole.USER, userDisplayMessage, ContentType.TEXT, { attachedFileName: fileContent ? "Attached Document" : undefined });
+  const handleSendMessage = async (text: string, attachments: ExtractedDocument[] = [], options: { extractEvidence?: boolean } = {}) => {
+    if (turnInFlightRef.current) return;
+    turnInFlightRef.current = true;
+    const extractEvidence = !!options.extractEvidence && attachments.length > 0;
+    if (extractEvidence && !text.trim()) text = EVIDENCE_EXTRACTION_PROMPT;
+    // Extracted findings always come back as proposals, so a reviewer checks each citation
+    const propose = reviewMode || extractEvidence;
+    const fileNames = attachments.map(a => a.fileName);
+    const userDisplayMessage = text || (attachments.length ? `Attached ${attachments.length > 1 ? 'documents' : 'document'} for analysis.` : "...");
+    addMessage(MessageRole.USER, userDisplayMessage, ContentType.TEXT, { attachedFileNames: fileNames.length ? fileNames : undefined });
     setIsTyping(true);
 
-    // API Call Context
-    const history = messages.map(m => ({
-      role: m.role,
-      parts: [{ text: m.content + (m.attachedFileName ? "\n[User attached a file in this turn]" : "") }]
-    }));
-    
-    // Serialize full graph state with Causes and Evidence
-    const graphContext = JSON.stringify({
-      nodes: nodes.map(n => ({ 
-        id: n.id, 
-        label: n.data.title, 
-        description: n.data.description,
-        causes: n.data.causes 
-      })),
-      edges: edges.map(e => ({ 
-        id: e.id,
-        source: e.source, 
-        target: e.target, 
-        label: e.label,
-        causes: e.data?.causes 
-      }))
-    });
+    try {
+      // API Call Context; earlier attachments are named but not resent
+      const chatHistory: ChatTurn[] = messages.map(m => {
+        const attached = m.attachedFileNames || (m.attachedFileName ? [m.attachedFileName] : []);
+        return {
+          role: m.role,
+          text: m.content + (attached.length ? `\n[User attached in this turn: ${attached.join(', ')}]` : "")
+        };
+      });
 
-    const response = await generateProcessResponse(history, text, graphContext, fileContent);
-    
-    // Execute Tools
-    if (response.toolCalls && response.toolCalls.length > 0) {
-      let changeLog = "";
-      
-      let localNodes = [...nodes];
-      let localEdges = [...edges];
-
-      // Smart Fishbone Node Adder
-      const addNodeFishbone = (title?: string, description?: string, desiredId?: string) => {
-         // Prevent duplicates
-         if (desiredId && localNodes.find(n => n.id === desiredId)) {
-            return desiredId;
-         }
-
-         const newNodeId = desiredId || `n-${Date.now()}`;
-         const type = title?.toLowerCase().includes('problem') ? NodeType.PROBLEM : NodeType.CATEGORY;
-
-         // Logic for placement
-         // 1. Find all spine nodes (exclude tail)
-         // 2. Count connections to each spine node
-         // 3. Fill Top (y: 50) then Bottom (y: 550) for each spine node
-         // 4. If all full, create new spine node
-         
-         const spineNodes = localNodes.filter(n => n.data.type === NodeType.SPINE && n.id !== 'spine_tail').sort((a,b) => a.position.x - b.position.x);
-         const problemNode = localNodes.find(n => n.data.type === NodeType.PROBLEM);
-
-         let targetSpineId = '';
-         let newPosition = { x: 0, y: 0 };
-         let handleType = 'top'; // top or bottom relative to spine
-
-         // Check slots
-         for (const spine of spineNodes) {
-           const connectedNodes = localEdges.filter(e => e.target === spine.id); // Incoming edges from ribs
-           // We expect ribs to be connected TO the spine
-           
-           const topRib = connectedNodes.find(e => {
-             const sourceNode = localNodes.find(n => n.id === e.source);
-             return sourceNode && sourceNode.position.y < 300;
-           });
-           
-           const bottomRib = connectedNodes.find(e => {
-             const sourceNode = localNodes.find(n => n.id === e.source);
-             return sourceNode && sourceNode.position.y > 300;
-           });
-
-           if (!topRib) {
-             targetSpineId = spine.id;
-             newPosition = { x: spine.position.x - 150, y: 50 };
-             handleType = 'top'; // This will be a top node connecting to spine
-             break;
-           } else if (!bottomRib) {
-             targetSpineId = spine.id;
-             newPosition = { x: spine.position.x - 150, y: 550 };
-             handleType = 'bottom';
-             break;
-           }
-         }
-
-         // If no slots, create new spine segment
-         if (!targetSpineId && problemNode) {
-            // Shift problem node right
-            const oldProblemX = problemNode.position.x;
-            const newSpineX = oldProblemX - 250; // Place where problem was roughly, push problem further
-            
-            // Update Problem Node Position locally
-            const probIdx = localNodes.findIndex(n => n.id === problemNode.id);
-            if (probIdx !== -1) {
-              localNodes[probIdx] = { ...problemNode, position: { x: oldProblemX + 350, y: problemNode.position.y } };
-            }
+      // Attachments stay citable for the rest of the session; a newer file with the same name replaces the older one
+      let stored = attachments;
+      try {
+        stored = await Promise.all(attachments.map(storeSourceText));
+      } catch (error) {
+        // Hashing needs crypto.subtle (secure contexts only); the documents are still sent, unhashed
+        console.error('Could not store attached documents:', error);
+      }
+      sourceDocumentsRef.current = [...sourceDocumentsRef.current.filter(d => !fileNames.includes(d.fileName)), ...stored];
 
-            // Create new Spine Node
-            const newSpineId = `spine_${spineNodes.length + 1}_auto`;
-            const newSpineNode: Node = {
-              id: newSpineId,
-              type: 'processNode',
-              position: { x: newSpineX + 350, y: 300 }, // Align with existing spine Y
-              data: { id: newSpineId, type: NodeType.SPINE, title: '', causes: [] }
-            };
-            localNodes.push(newSpineNode);
-
-            // Connect last spine to new spine
-            const lastSpine = spineNodes[spineNodes.length - 1];
-            if (lastSpine) {
-               localEdges.push({
-                 id: `s-auto-${Date.now()}`,
-                 source: lastSpine.id,
-                 target: newSpineId,
-                 style: { strokeWidth: 4, stroke: '#475569' },
-                 type: 'straight'
-               });
-            }
-            // Reconnect problem to new spine (remove old connection)
-            const oldProbEdgeIdx = localEdges.findIndex(e => e.target === problemNode.id);
-            if (oldProbEdgeIdx !== -1) localEdges.splice(oldProbEdgeIdx, 1);
-            
-            localEdges.push({
-               id: `s-end-${Date.now()}`,
-               source: newSpineId,
-               target: problemNode.id,
-               style: { strokeWidth: 4, stroke: '#475569' },
-               type: 'straight'
-            });
+      // Large attachments are cut down to the excerpts that best match the question and the problem
+      const fileContent = stored.length
+        ? buildAttachmentContext(stored, `${text} ${findTopEvent(nodes)?.data.title || ''}`, { numberLines: extractEvidence })
+        : undefined;
 
-            // Set target for new rib
-            targetSpineId = newSpineId;
-            newPosition = { x: newSpineNode.position.x - 150, y: 50 };
-            handleType = 'top';
-         }
-
-         // Create the Rib Node
-         const newNode: Node = {
-          id: newNodeId,
-          type: 'processNode',
-          position: newPosition,
-          data: {
-            id: newNodeId,
-            type: type,
-            title: title || `Category`,
-            description: description || '',
-            causes: [],
-            onEdit: handleUpdateNode 
-          },
-        };
-        localNodes.push(newNode);
-
-        // Auto-connect to Spine if we found a spot
-        if (targetSpineId) {
-          const ribStyle = { strokeWidth: 2, stroke: '#64748b' };
-          localEdges.push({
-             id: `e-auto-${Date.now()}`,
-             source: newNodeId,
-             target: targetSpineId,
-             style: ribStyle,
-             type: 'straight',
-             // Logic: If node is at Top (y=50), source is Bottom, target is Spine Top
-             sourceHandle: handleType === 'top' ? 'bottom' : 'top',
-             targetHandle: handleType === 'top' ? 'rib-top' : 'rib-bottom'
-          });
-        }
+      // Serialize full graph state with Causes (incl. nested subCauses) and Evidence
+      const graphContext = JSON.stringify({
+        nodes: nodes.map(n => ({ 
+          id: n.id, 
+          type: n.data.type,
+          label: n.data.title, 
+          description: n.data.description,
+          gate: n.data.gate,
+          barrier: n.data.barrier,
+          causes: n.data.causes 
+        })),
+        edges: edges.map(e => ({ 
+          id: e.id,
+          source: e.source, 
+          target: e.target, 
+          label: e.label,
+          causes: e.data?.causes 
+        })),
+        actions,
+        evidenceReadiness: { supported: gapReport.supported, total: gapReport.total, readyForQa: gapReport.readyForQa }
+      });
 
-        return newNodeId;
-      };
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
-      response.toolCalls.forEach(tool => {
-        if (tool.name === 'clear_graph') {
-          localNodes = [];
-          localEdges = [];
-          changeLog += "• Cleared canvas\n";
-        }
-        else if (tool.name === 'add_node') {
-          const { title, description, id } = tool.args;
-          addNodeFishbone(title, description, id);
-          changeLog += `• Added Category: ${title}\n`;
-        } 
-        else if (tool.name === 'connect_nodes') {
-          const { sourceId, targetId, label } = tool.args;
-          const newEdge = {
-            id: `e-ai-${Date.now()}-${Math.random()}`,
-            source: sourceId,
-            target: targetId,
-            label: label || '',
-            style: { strokeWidth: 2, stroke: '#64748b' },
-            data: { causes: [] }
-          };
-          localEdges = addEdge(newEdge, localEdges);
-          changeLog += `• Connected ${sourceId} -> ${targetId}\n`;
-        }
-        else if (tool.name === 'update_node') {
-           const { id, title, description } = tool.args;
-           const nodeIndex = localNodes.findIndex(n => n.id === id);
-           if (nodeIndex !== -1) {
-              const n = localNodes[nodeIndex];
-              localNodes[nodeIndex] = {
-                 ...n,
-                 data: { 
-                   ...n.data, 
-                   title: title || n.data.title, 
-                   description: description !== undefined ? description : n.data.description 
-                 }
-              };
-              changeLog += `• Updated: ${title || n.data.title}\n`;
-           }
-        }
-        else if (tool.name === 'add_cause') {
-          const { targetId, targetType, name, description } = tool.args;
-          const newCause: Cause = { id: uuidv4(), name, description, evidence: [] };
-          
-          if (targetType === 'NODE' || !targetType) {
-             const nIndex = localNodes.findIndex(n => n.id === targetId);
-             if (nIndex !== -1) {
-               const n = localNodes[nIndex];
-               const currentCauses = n.data.causes || [];
-               localNodes[nIndex] = { ...n, data: { ...n.data, causes: [...currentCauses, newCause] } };
-               changeLog += `• Added Factor to ${n.data.title}: ${name}\n`;
-             }
-          } else if (targetType === 'EDGE') {
-             const eIndex = localEdges.findIndex(e => e.id === targetId);
-             if (eIndex !== -1) {
-               const e = localEdges[eIndex];
-               const currentCauses = (e.data?.causes as Cause[]) || [];
-               localEdges[eIndex] = { ...e, data: { ...e.data, causes: [...currentCauses, newCause] } };
-               changeLog += `• Added Factor to Link: ${name}\n`;
-             }
+      // Placeholder message that fills in as the response streams
+      const modelMessageId = uuidv4();
+      addMessage(MessageRole.MODEL, "", ContentType.TEXT, { id: modelMessageId, isStreaming: true, toolActivity: [] });
+      const updateModelMessage = (patch: (m: ChatMessage) => Partial<ChatMessage>) =>
+        setMessages(prev => prev.map(m => m.id === modelMessageId ? { ...m, ...patch(m) } : m));
+      const pushActivity = (activity: ToolActivity) =>
+        updateModelMessage(m => ({ toolActivity: [...(m.toolActivity || []), activity] }));
+
+      let streamedText = "";
+      let changeLog = "";
+      let working = { nodes, edges };
+      let historyRecorded = false;
+      const receivedCalls: ToolCall[] = [];
+      const toolContext = { sources: sourceDocumentsRef.current, history: pastFindings };
+
+      const response = await generateProcessResponse(chatHistory, text, graphContext, fileContent, {
+        signal: controller.signal,
+        method: rcaMethod,
+        categories: nodes.filter(n => n.data.type === NodeType.CATEGORY).map(n => ({ id: n.id, title: n.data.title })),
+        // Proposals are previewed against the current graph, so the model gets a single round
+        maxRounds: propose ? 1 : undefined,
+        extractEvidence,
+        onTextDelta: (delta) => {
+          streamedText += delta;
+          updateModelMessage(() => ({ content: streamedText }));
+        },
+        onToolCall: (call, step) => {
+          // Lookups change nothing, so they run straight away even in review mode
+          if (isLookupTool(call.name)) {
+            const outcome = applyToolCalls(working.nodes, working.edges, [call], handleUpdateNode, toolContext).results[0];
+            pushActivity({
+              id: uuidv4(),
+              name: call.name,
+              summary: outcome.ok ? `${describeToolCall(call)} — ${outcome.message}` : describeToolCall(call),
+              status: outcome.ok ? ToolActivityStatus.LOOKED_UP : ToolActivityStatus.FAILED,
+              step,
+              detail: outcome.ok ? undefined : outcome.message
+            });
+            return outcome;
           }
-        }
-        else if (tool.name === 'add_evidence') {
-          const { targetId, targetType, causeName, name, description } = tool.args;
-          const newEvidence: Evidence = { id: uuidv4(), name, description };
-          
-          if (targetType === 'NODE' || !targetType) {
-            const nIndex = localNodes.findIndex(n => n.id === targetId);
-            if (nIndex !== -1) {
-              const n = localNodes[nIndex];
-              const updatedCauses = (n.data.causes || []).map(r => {
-                if (r.name.toLowerCase() === causeName.toLowerCase()) {
-                  return { ...r, evidence: [...r.evidence, newEvidence] };
-                }
-                return r;
-              });
-              localNodes[nIndex] = { ...n, data: { ...n.data, causes: updatedCauses } };
-              changeLog += `• Added Evidence to Factor '${causeName}': ${name}\n`;
+          receivedCalls.push(call);
+
+          // Review mode: show the call, apply nothing until the user approves
+          if (propose) {
+            pushActivity({ id: uuidv4(), name: call.name, summary: describeToolCall(call), status: ToolActivityStatus.PROPOSED, step });
+            return { ok: true, message: 'Queued for user review' };
+          }
+
+          // Apply incrementally; the whole assistant turn is still one atomic undo step
+          const result = applyToolCalls(working.nodes, working.edges, [call], handleUpdateNode, toolContext);
+          const outcome = result.results[0];
+          if (outcome.ok) {
+            if (!historyRecorded) {
+              recordHistory('AI changes', modelMessageId);
+              historyRecorded = true;
             }
-          } else if (targetType === 'EDGE') {
-             const eIndex = localEdges.findIndex(e => e.id === targetId);
-             if (eIndex !== -1) {
-               const e = localEdges[eIndex];
-               const updatedCauses = ((e.data?.causes as Cause[]) || []).map(r => {
-                 if (r.name.toLowerCase() === causeName.toLowerCase()) {
-                   return { ...r, evidence: [...r.evidence, newEvidence] };
-                 }
-                 return r;
-               });
-               localEdges[eIndex] = { ...e, data: { ...e.data, causes: updatedCauses } };
-               changeLog += `• Added Evidence to Link Factor '${causeName}': ${name}\n`;
-             }
+            working = { nodes: result.nodes, edges: result.edges };
+            setNodes(working.nodes);
+            setEdges(working.edges);
+            changeLog += result.changeLog;
           }
+          pushActivity({
+            id: uuidv4(),
+            name: call.name,
+            summary: result.changeLog.replace(/^•\s*/, '').trim() || describeToolCall(call),
+            status: outcome.ok ? ToolActivityStatus.APPLIED : ToolActivityStatus.FAILED,
+            step,
+            detail: outcome.ok ? undefined : outcome.message
+          });
+          return outcome;
         }
       });
 
-      setNodes(localNodes);
-      setEdges(localEdges);
+      abortControllerRef.current = null;
+      const responseText = response.text || streamedText;
+
+      // Tidy the diagram once the batch is in; part of the same undo step
+      if (historyRecorded) {
+        const laidOut = layoutDiagram(working.nodes, working.edges, diagramView);
+        setNodes(laidOut.nodes);
+        setEdges(laidOut.edges);
+      }
 
-      if (changeLog) {
-        response.text = (response.text || "") + "\n\n**Diagram Updates:**\n" + changeLog;
+      if (response.aborted) {
+        // Anything not yet applied is thrown away
+        updateModelMessage(m => ({
+          isStreaming: false,
+          content: `${responseText}${responseText ? "\n\n" : ""}_Response stopped._${changeLog ? "\n\n**Diagram Updates:**\n" + changeLog : ""}`,
+          toolActivity: (m.toolActivity || []).map(a => a.status === ToolActivityStatus.PROPOSED ? { ...a, status: ToolActivityStatus.DISCARDED } : a)
+        }));
+      } else if (propose && receivedCalls.length > 0) {
+        // Hold Tools for Review
+        const changes = buildProposedChanges(nodes, edges, receivedCalls, sourceDocumentsRef.current);
+        updateModelMessage(() => ({
+          isStreaming: false,
+          content: responseText || "I've proposed diagram changes for your review.",
+          toolActivity: undefined,
+          proposal: { status: ProposalStatus.PENDING, changes }
+        }));
+      } else {
+        updateModelMessage(() => ({
+          isStreaming: false,
+          content: (responseText || "Diagram updated.")
+            + (response.stepLimitReached ? `\n\n_Stopped after ${response.steps} tool rounds._` : "")
+            + (changeLog ? "\n\n**Diagram Updates:**\n" + changeLog : "")
+        }));
       }
+    } finally {
+      abortControllerRef.current = null;
+      setIsTyping(false);
+      turnInFlightRef.current = false;
     }
+  };
+
+  const handleStopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSelectProvider = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(getActiveProvider().id);
+  };
+
+  // --- Proposal Review ---
+
+  const handleApplyProposal = (messageId: string, acceptedIds: string[]) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.proposal || message.proposal.status !== ProposalStatus.PENDING) return;
+
+    // Accepted calls are re-applied against the current graph, in their original order
+    const accepted = message.proposal.changes.filter(c => acceptedIds.includes(c.id));
+    const applied = applyToolCalls(nodes, edges, accepted.map(c => c.toolCall), handleUpdateNode, { sources: sourceDocumentsRef.current });
+    const laidOut = layoutDiagram(applied.nodes, applied.edges, diagramView);
+
+    recordHistory('AI changes', messageId);
+    setNodes(laidOut.nodes);
+    setEdges(laidOut.edges);
+
+    setMessages(prev => prev.map(m => m.id !== messageId || !m.proposal ? m : {
+      ...m,
+      content: applied.changeLog ? `${m.content}\n\n**Diagram Updates:**\n${applied.changeLog}` : m.content,
+      proposal: { ...m.proposal, status: ProposalStatus.APPLIED, acceptedIds }
+    }));
+  };
+
+  const handleRejectProposal = (messageId: string) => {
+    setMessages(prev => prev.map(m => m.id !== messageId || !m.proposal ? m : {
+      ...m,
+      proposal: { ...m.proposal, status: ProposalStatus.REJECTED, acceptedIds: [] }
+    }));
+  };
+
+  // --- Root Cause Assessment ---
 
-    addMessage(MessageRole.MODEL, response.text || "Diagram updated.");
-    setIsTyping(false);
+  const handleUpdateCause = (causeId: string, cause: Cause) => {
+    recordHistory('Edit factor');
+    const updated = updateCauseInGraph(nodes, edges, causeId, () => cause);
+    setNodes(updated.nodes);
+    setEdges(updated.edges);
+  };
+
+  const handleAddCause = (nodeId: string, cause: Cause) => {
+    recordHistory('Add factor');
+    setNodes(nodes.map(n => n.id !== nodeId ? n : { ...n, data: { ...n.data, causes: [...(n.data.causes || []), cause] } }));
+  };
+
+  const handleDeleteCause = (causeId: string) => {
+    recordHistory('Delete factor');
+    setNodes(nodes.map(n => !n.data.causes?.length ? n : { ...n, data: { ...n.data, causes: removeCauseFromTree(n.data.causes, causeId) } }));
+    setEdges(edges.map(e => !e.data?.causes?.length ? e : { ...e, data: { ...e.data, causes: removeCauseFromTree(e.data.causes, causeId) } }));
+  };
+
+  const handleUpdateActions = (next: CorrectiveAction[], label: string) => {
+    recordHistory(label);
+    setNodes(setActions(nodes, next));
+  };
+
+  const handleSetCauseStatus = (causeId: string, status: CauseStatus) => {
+    recordHistory('Assess factor');
+    const updated = updateCauseInGraph(nodes, edges, causeId, c => ({ ...c, status }));
+    setNodes(updated.nodes);
+    setEdges(updated.edges);
   };
 
   // --- Import / Export Handlers ---
 
-  const handleSaveModel = () => {
-    const modelData = {
-      metadata: {
-        version: '3.0',
-        timestamp: new Date().toISOString(),
-        appName: 'Root Cause Fishbone'
-      },
-      nodes,
-      edges
-    };
-    
-    const blob = new Blob([JSON.stringify(modelData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `rca-fishbone-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const handleSaveModel = async (includeTranscript = true) => {
+    const current = workspace.analyses.find(a => a.id === workspace.currentId);
+    const modelData = serializeAnalysisFile(nodes, edges, {
+      messages: includeTranscript ? messages : undefined,
+      businessUnit: current?.businessUnit,
+      template: current?.template
+    });
+    const baseName = `rca-fishbone-${includeTranscript ? '' : 'shared-'}${dateStamp()}`;
+
+    if (!needsBundle(modelData)) {
+      downloadText(JSON.stringify(modelData, null, 2), `${baseName}.json`, 'application/json');
+      return;
+    }
+
+    // Stored evidence files travel with the analysis in a ZIP bundle
+    try {
+      const bundle = await buildAnalysisBundle(modelData);
+      downloadBlob(bundle.blob, `${baseName}.zip`);
+      if (bundle.missing.length > 0) {
+        addMessage(MessageRole.MODEL, `Saved the analysis bundle, but ${bundle.missing.length} attached file(s) are no longer stored in this browser and were left out: ${bundle.missing.join(', ')}`);
+      }
+    } catch (error) {
+      console.error("Bundle error:", error);
+      addMessage(MessageRole.MODEL, "Error building the analysis bundle.");
+    }
+  };
+
+  const handleDownloadGapReport = () => {
+    downloadText(renderGapReportMarkdown(gapReport, workspace.currentName), `rca-evidence-gaps-${dateStamp()}.md`, 'text/markdown');
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    const report = buildReport(nodes, edges);
+    const { extension, mimeType } = REPORT_FILE_TYPES[format];
+    downloadText(renderReport(report, format), `rca-report-${dateStamp()}.${extension}`, mimeType);
+  };
+
+  const handleExportDiagram = async (format: DiagramFormat, options: DiagramExportOptions) => {
+    const blob = await exportDiagram(nodes, edges, format, options);
+    downloadBlob(blob, `rca-fishbone-${dateStamp()}.${DIAGRAM_FILE_EXTENSIONS[format]}`);
   };
 
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const data = JSON.parse(content);
-        
-        if (Array.isArray(data.nodes) && Array.isArray(data.edges)) {
-          // Inject handler into imported nodes
-          const importedNodes = data.nodes.map((n: Node) => ({
-            ...n,
-            data: { ...n.data, onEdit: handleUpdateNode }
-          }));
-          setNodes(importedNodes);
-          setEdges(data.edges);
-          addMessage(MessageRole.MODEL, `Imported fishbone diagram with ${data.nodes.length} nodes.`);
-        } else {
-          addMessage(MessageRole.MODEL, "Invalid file format.");
+    try {
+      const isBundle = /\.zip$/i.test(file.name);
+      const bundle = isBundle ? await readAnalysisBundle(await file.arrayBuffer()) : undefined;
+      const result = parseAnalysisFile(bundle ? bundle.raw : JSON.parse(await file.text()));
+      
+      if (result.file) {
+        // Artifacts are stored only once the analysis itself has validated
+        await Promise.all((bundle?.artifacts || []).map(putArtifact));
+
+        // Opens as a new analysis, with its portfolio details; the open one is saved and left as it was
+        const importedNodes = toStoredNodes(result.file.nodes);
+        const laidOut = layoutDiagram(importedNodes, toStoredEdges(result.file.edges), diagramView);
+        // The saved transcript comes with it, so the assistant's history continues from that conversation
+        const { businessUnit, template } = result.file.metadata;
+        const transcript = result.file.messages;
+        await workspace.importAnalysis(file.name.replace(/\.(json|zip)$/i, ''), {
+          ...laidOut,
+          messages: transcript && transcript.length > 0 ? transcript : createWelcomeMessages(),
+          businessUnit,
+          template
+        });
+        const migrationNote = result.migratedFrom ? ` (migrated from format v${result.migratedFrom})` : '';
+        const transcriptNote = transcript && transcript.length > 0 ? ` and ${transcript.length} chat messages` : '';
+        const artifactNote = bundle ? `, ${bundle.artifacts.length} evidence file(s)` : '';
+        addMessage(MessageRole.MODEL, `Imported ${RCA_METHOD_LABELS[getRcaMethod(importedNodes)].label.toLowerCase()} diagram with ${importedNodes.length} nodes${artifactNote}${transcriptNote}${migrationNote}.`);
+        if (bundle && bundle.issues.length > 0) {
+          addMessage(MessageRole.MODEL, `Some evidence files were rejected:\n${formatSchemaIssues(bundle.issues)}`);
         }
-      } catch (error) {
-        console.error("Import error:", error);
-        addMessage(MessageRole.MODEL, "Error parsing file.");
+      } else {
+        addMessage(MessageRole.MODEL, `Invalid file format:\n${formatSchemaIssues(result.issues)}`);
       }
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsText(file);
+    } catch (error) {
+      console.error("Import error:", error);
+      addMessage(MessageRole.MODEL, "Error parsing file.");
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   return (
@@ -550,24 +790,113 @@ const App: React.FC = () => {
                 <h1 className="text-xl font-bold text-slate-800 tracking-tight leading-none">Root Cause Fishbone</h1>
                 <span className="text-[10px] font-medium text-slate-400 tracking-wider">by Auditor in the Loop</span>
              </div>
+             <div className="h-8 w-px bg-slate-100 ml-3"></div>
+             <WorkspaceMenu 
+               analyses={workspace.analyses}
+               currentId={workspace.currentId}
+               currentName={workspace.currentName}
+               lastSavedAt={workspace.lastSavedAt}
+               onOpen={workspace.openAnalysis}
+               onCreate={(options) => workspace.createAnalysis(options)}
+               templates={categoryTemplates.templates}
+               canSaveTemplate={rcaMethod === RcaMethod.FISHBONE && nodes.some(n => n.data.type === NodeType.CATEGORY)}
+               onSaveTemplate={(name) => categoryTemplates.saveTemplate(name, nodes, edges)}
+               onDeleteTemplate={categoryTemplates.deleteTemplate}
+               onRename={workspace.renameAnalysis}
+               onSetBusinessUnit={workspace.setBusinessUnit}
+               onDuplicate={workspace.duplicateAnalysis}
+               onDelete={workspace.deleteAnalysis}
+             />
            </div>
            <div className="flex items-center gap-6">
               <div className="flex flex-col items-end">
                 <span className="text-[10px] font-bold text-slate-400 uppercase">Factors</span>
                 <span className="text-sm font-semibold text-slate-700">
-                  {nodes.reduce((acc, node) => acc + (node.data.causes?.length || 0), 0)}
+                  {nodes.reduce((acc, node) => acc + countCauses(node.data.causes), 0)}
                 </span>
               </div>
+
+              <button
+                onClick={() => { setIsGapPanelOpen(!isGapPanelOpen); setIsCandidatePanelOpen(false); setIsActionPanelOpen(false); setIsFindingsPanelOpen(false); setLadderCauseId(null); setOpenPassage(null); }}
+                title={gapReport.readyForQa ? 'Every factor has adequate evidence: ready for QA review' : 'Some factors lack adequate evidence. Show the gap report'}
+                className="flex flex-col items-end"
+              >
+                <span className="text-[10px] font-bold text-slate-400 uppercase">Evidence</span>
+                <span className={`text-sm font-semibold flex items-center gap-1 ${gapReport.readyForQa ? 'text-emerald-600' : gapReport.total === 0 ? 'text-slate-400' : 'text-amber-600'}`}>
+                  {gapReport.readyForQa ? <ClipboardCheck className="w-3.5 h-3.5" /> : <ClipboardList className="w-3.5 h-3.5" />}
+                  {gapReport.supported}/{gapReport.total}
+                </span>
+              </button>
               
+              <button 
+                onClick={() => { setIsCandidatePanelOpen(!isCandidatePanelOpen); setIsGapPanelOpen(false); setIsActionPanelOpen(false); setIsFindingsPanelOpen(false); setLadderCauseId(null); setOpenPassage(null); }}
+                className={`px-3 py-2 text-xs font-semibold rounded-lg border flex items-center gap-1.5 transition-all ${isCandidatePanelOpen ? 'bg-red-50 border-red-200 text-red-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+              >
+                <Target className="w-3.5 h-3.5" /> Candidates
+              </button>
+
+              <button
+                onClick={() => { setIsActionPanelOpen(!isActionPanelOpen); setIsCandidatePanelOpen(false); setIsGapPanelOpen(false); setIsFindingsPanelOpen(false); setLadderCauseId(null); setOpenPassage(null); }}
+                title={actionPlan.overdue > 0 ? `${actionPlan.overdue} overdue action${actionPlan.overdue === 1 ? '' : 's'}` : 'Corrective and preventive action plan'}
+                className={`px-3 py-2 text-xs font-semibold rounded-lg border flex items-center gap-1.5 transition-all ${isActionPanelOpen ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+              >
+                <Wrench className="w-3.5 h-3.5" /> Actions
+                {actionPlan.total > 0 && (
+                  <span className={`text-[10px] px-1 rounded ${actionPlan.overdue > 0 ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-500'}`}>{actionPlan.total}</span>
+                )}
+              </button>
+
+              <button
+                onClick={() => { setIsFindingsPanelOpen(!isFindingsPanelOpen); setIsCandidatePanelOpen(false); setIsGapPanelOpen(false); setIsActionPanelOpen(false); setLadderCauseId(null); setOpenPassage(null); }}
+                title="Search past analyses and find recurring root causes"
+                className={`px-3 py-2 text-xs font-semibold rounded-lg border flex items-center gap-1.5 transition-all ${isFindingsPanelOpen ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+              >
+                <History className="w-3.5 h-3.5" /> Past Findings
+              </button>
+
+              <button
+                onClick={() => setIsPortfolioOpen(true)}
+                title="Trends across all saved analyses"
+                className="px-3 py-2 text-xs font-semibold rounded-lg border flex items-center gap-1.5 transition-all bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-slate-900"
+              >
+                <BarChart3 className="w-3.5 h-3.5" /> Portfolio
+              </button>
+
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 onChange={handleFileChange} 
                 className="hidden" 
-                accept=".json"
+                accept=".json,.zip"
               />
 
               <div className="h-8 w-px bg-slate-100"></div>
+
+              <div className="flex items-center gap-1">
+                <button 
+                  onClick={undo}
+                  disabled={!history.canUndo}
+                  title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                  className="p-2 text-slate-500 rounded-lg hover:bg-slate-100 hover:text-slate-900 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button 
+                  onClick={redo}
+                  disabled={!history.canRedo}
+                  title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                  className="p-2 text-slate-500 rounded-lg hover:bg-slate-100 hover:text-slate-900 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+                <button 
+                  onClick={handleRelayout}
+                  title={`Re-layout diagram (${EDIT_SHORTCUTS.relayout.toUpperCase()})`}
+                  className="p-2 text-slate-500 rounded-lg hover:bg-slate-100 hover:text-slate-900 transition-all"
+                >
+                  <LayoutDashboard className="w-4 h-4" />
+                </button>
+              </div>
               
               <button 
                 onClick={handleImportClick}
@@ -576,12 +905,18 @@ const App: React.FC = () => {
                 Import
               </button>
               
-              <button 
-                onClick={handleSaveModel}
-                className="px-4 py-2 bg-blue-600 text-white text-xs font-semibold rounded-lg shadow-md shadow-blue-600/20 hover:bg-blue-700 transition-all"
-              >
-                Save Analysis
-              </button>
+              <ExportMenu 
+                label="Save Analysis"
+                onPrimaryClick={() => handleSaveModel(true)}
+                actions={[
+                  { label: 'Save with chat transcript', description: 'Diagram plus the full conversation; a .zip bundle when evidence files are attached', onClick: () => handleSaveModel(true) },
+                  { label: 'Save without transcript', description: 'Diagram only, for sharing outside the team', onClick: () => handleSaveModel(false) },
+                  { label: 'Report: Markdown', description: 'Problem, domains, evidence index, root cause, validation note, action plan', onClick: () => handleExportReport('markdown') },
+                  { label: 'Report: Printable HTML', description: 'Open in a browser and print to PDF', onClick: () => handleExportReport('html') },
+                  { label: 'Report: Word document', description: 'Word-compatible .doc for audit workpapers', onClick: () => handleExportReport('word') },
+                  { label: 'Diagram image…', description: 'Whole diagram as SVG, PNG or PDF', onClick: () => setIsDiagramExportOpen(true) },
+                ]}
+              />
            </div>
         </div>
       </header>
@@ -591,18 +926,82 @@ const App: React.FC = () => {
         
         {/* MAIN CONTENT: Graph */}
         <main className="flex-1 relative bg-slate-100 min-w-0">
-          <BowTieGraph 
-            nodes={nodes}
-            edges={edges}
-            onNodesChange={onNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={handleConnect}
-            onAddNode={(type) => handleAddNode(type)} 
-            onUpdateNode={(id, title, description) => handleUpdateNode(id, { title, description })}
-            onDeleteNode={handleDeleteNode}
-            onUpdateEdge={handleUpdateEdge}
-            onDeleteEdge={handleDeleteEdge}
-          />
+          {/* Cards mark each cause with the status of the actions addressing it */}
+          <ActionPlanContext.Provider value={actions}>
+            <BowTieGraph 
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={handleNodesChange}
+              onEdgesChange={handleEdgesChange}
+              onNodeDragStart={handleNodeDragStart}
+              onNodeDragStop={handleNodeDragStop}
+              onConnect={handleConnect}
+              onAddNode={(type) => handleAddNode(type)} 
+              onAddSpineSegment={handleAddSpineSegment}
+              onRemoveSpineSegment={handleRemoveSpineSegment}
+              onEditProblem={handleEditProblem}
+              onUpdateNode={(id, title, description) => handleUpdateNode(id, { title, description })}
+              onDeleteNode={handleDeleteNode}
+              onUpdateEdge={handleUpdateEdge}
+              onDeleteEdge={handleDeleteEdge}
+              method={rcaMethod}
+              view={diagramView}
+              onChangeView={handleChangeView}
+              onUpdateCause={handleUpdateCause}
+              onDeleteCause={handleDeleteCause}
+            />
+          </ActionPlanContext.Provider>
+          {isCandidatePanelOpen && (
+            <CandidateRootCausePanel 
+              candidates={rankCandidateRootCauses(nodes, edges)}
+              onSetStatus={handleSetCauseStatus}
+              onShowLadder={(causeId) => { setLadderCauseId(causeId); setIsCandidatePanelOpen(false); }}
+              onClose={() => setIsCandidatePanelOpen(false)}
+            />
+          )}
+          {isActionPanelOpen && (
+            <ActionPlanPanel
+              nodes={nodes}
+              edges={edges}
+              actions={actions}
+              onChange={handleUpdateActions}
+              onClose={() => setIsActionPanelOpen(false)}
+            />
+          )}
+          {isGapPanelOpen && (
+            <EvidenceGapPanel
+              report={gapReport}
+              onDownload={handleDownloadGapReport}
+              onClose={() => setIsGapPanelOpen(false)}
+            />
+          )}
+          {isFindingsPanelOpen && (
+            <PastFindingsPanel
+              index={pastFindings}
+              nodes={nodes}
+              edges={edges}
+              onAddCause={handleAddCause}
+              onOpenAnalysis={(id) => { setIsFindingsPanelOpen(false); workspace.openAnalysis(id); }}
+              onClose={() => setIsFindingsPanelOpen(false)}
+            />
+          )}
+          {ladderCauseId && (
+            <WhyLadderPanel
+              nodes={nodes}
+              edges={edges}
+              causeId={ladderCauseId}
+              onFocus={setLadderCauseId}
+              onUpdateCause={handleUpdateCause}
+              onClose={() => setLadderCauseId(null)}
+            />
+          )}
+          {openPassage && (
+            <SourcePassagePanel
+              citation={openPassage.citation}
+              evidenceName={openPassage.evidenceName}
+              onClose={() => setOpenPassage(null)}
+            />
+          )}
         </main>
 
         {/* DRAG HANDLE */}
@@ -628,11 +1027,29 @@ const App: React.FC = () => {
             onSendMessage={handleSendMessage}
             onSuggestionClick={(text) => handleSendMessage(text)}
             onClearChat={handleClearChat}
+            onStop={handleStopResponse}
+            undoableMessageId={history.undoableMessageId}
+            providers={listProviders().map(p => ({ id: p.id, label: p.label }))}
+            activeProviderId={providerId}
+            onSelectProvider={handleSelectProvider}
+            reviewMode={reviewMode}
+            onToggleReviewMode={() => setReviewMode(!reviewMode)}
+            onApplyProposal={handleApplyProposal}
+            onRejectProposal={handleRejectProposal}
+            onUndoMessageChanges={undo}
           />
         </section>
 
       </div>
 
+      {isPortfolioOpen && <PortfolioDashboard onClose={() => setIsPortfolioOpen(false)} />}
+      {isDiagramExportOpen && (
+        <DiagramExportDialog 
+          onExport={handleExportDiagram}
+          onClose={() => setIsDiagramExportOpen(false)}
+        />
+      )}
+
     </div>
   );
 };
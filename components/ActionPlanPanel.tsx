@@ -0,0 +1,250 @@
+import React, { createContext, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { X, ClipboardCheck, Plus, Trash2, ChevronDown, ChevronRight, Wrench, CalendarClock } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { ActionStatus, ActionType, CauseStatus, CorrectiveAction, Effectiveness } from '../types';
+import { ACTION_STATUS_LABELS, ACTION_TYPE_LABELS, EFFECTIVENESS_LABELS } from '../constants';
+import { getCauseStatus, walkGraphCauses } from '../services/causeAssessment';
+import { CauseActionSummary, getActionStatus, getActionType, isOverdue, summarizeActionPlan } from '../services/correctiveActions';
+
+export const ACTION_STATUS_STYLES: Record<ActionStatus, string> = {
+  [ActionStatus.OPEN]: 'bg-slate-100 text-slate-600',
+  [ActionStatus.IN_PROGRESS]: 'bg-blue-100 text-blue-700',
+  [ActionStatus.IMPLEMENTED]: 'bg-amber-100 text-amber-700',
+  [ActionStatus.VERIFIED]: 'bg-emerald-100 text-emerald-700',
+  [ActionStatus.CANCELLED]: 'bg-slate-100 text-slate-400 line-through'
+};
+
+// The action plan, for cause markers on the canvas cards
+export const ActionPlanContext = createContext<CorrectiveAction[]>([]);
+
+// Action status of a cause on a card; overdue actions turn it red
+export const CauseActionMarker: React.FC<{ summary: CauseActionSummary }> = ({ summary }) => (
+  <span
+    className={`text-[9px] font-semibold px-1 rounded shrink-0 flex items-center gap-0.5 ${summary.overdue ? 'bg-red-100 text-red-700' : ACTION_STATUS_STYLES[summary.status]}`}
+    title={`${summary.count} action${summary.count === 1 ? '' : 's'}: ${ACTION_STATUS_LABELS[summary.status]}${summary.overdue ? ', overdue' : ''}`}
+  >
+    <Wrench className="w-2.5 h-2.5" /> {summary.overdue ? 'Overdue' : ACTION_STATUS_LABELS[summary.status]}
+  </span>
+);
+
+interface CauseOption {
+  id: string;
+  label: string;
+  isRootCause: boolean;
+  isRejected: boolean;
+}
+
+interface ActionItemProps {
+  action: CorrectiveAction;
+  causes: CauseOption[];
+  onSave: (action: CorrectiveAction) => void;
+  onDelete: () => void;
+}
+
+const inputClass = 'w-full text-[11px] border border-slate-200 rounded px-2 py-1 focus:outline-none focus:border-blue-300';
+
+// One action: a summary line that expands into an editor; edits apply on Save
+const ActionItem: React.FC<ActionItemProps> = ({ action, causes, onSave, onDelete }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState(action);
+  const status = getActionStatus(action);
+  const overdue = isOverdue(action);
+  const causeLabel = (id: string) => causes.find(c => c.id === id)?.label || 'Removed factor';
+  const verification = draft.verification || {};
+
+  const edit = (patch: Partial<CorrectiveAction>) => setDraft({ ...draft, ...patch });
+  const open = () => {
+    setDraft(action);
+    setIsExpanded(!isExpanded);
+  };
+
+  return (
+    <div className={`border rounded-lg text-xs ${overdue ? 'border-red-200' : 'border-slate-200'}`}>
+      <button onClick={open} className="w-full text-left p-2 flex items-start gap-1.5">
+        {isExpanded ? <ChevronDown className="w-3 h-3 mt-0.5 text-slate-400 shrink-0" /> : <ChevronRight className="w-3 h-3 mt-0.5 text-slate-400 shrink-0" />}
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-slate-800 leading-snug">{action.title}</div>
+          <div className="flex flex-wrap items-center gap-1 mt-1">
+            <span className={`text-[9px] font-semibold px-1 rounded ${ACTION_STATUS_STYLES[status]}`}>{ACTION_STATUS_LABELS[status]}</span>
+            <span className="text-[9px] text-slate-400">{ACTION_TYPE_LABELS[getActionType(action)]}</span>
+            {action.owner && <span className="text-[9px] text-slate-500">· {action.owner}</span>}
+            {action.dueDate && (
+              <span className={`text-[9px] flex items-center gap-0.5 ${overdue ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                <CalendarClock className="w-2.5 h-2.5" /> {action.dueDate}
+              </span>
+            )}
+            {action.verification?.result && (
+              <span className={`text-[9px] font-semibold ${action.verification.result === Effectiveness.EFFECTIVE ? 'text-emerald-600' : 'text-red-600'}`}>
+                · {EFFECTIVENESS_LABELS[action.verification.result]}
+              </span>
+            )}
+          </div>
+          <div className="text-[10px] text-slate-400 mt-1 truncate">{action.causeIds.map(causeLabel).join(' · ')}</div>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t border-slate-100 p-2 space-y-2 bg-slate-50/50">
+          <input className={inputClass} value={draft.title} onChange={(e) => edit({ title: e.target.value })} placeholder="Action" />
+          <textarea className={`${inputClass} resize-none`} rows={2} value={draft.description || ''} onChange={(e) => edit({ description: e.target.value || undefined })} placeholder="What will be done" />
+          <div className="grid grid-cols-2 gap-1">
+            <select className={inputClass} value={getActionType(draft)} onChange={(e) => edit({ type: e.target.value as ActionType })}>
+              {Object.values(ActionType).map(t => <option key={t} value={t}>{ACTION_TYPE_LABELS[t]}</option>)}
+            </select>
+            <select className={inputClass} value={getActionStatus(draft)} onChange={(e) => edit({ status: e.target.value as ActionStatus })}>
+              {Object.values(ActionStatus).map(s => <option key={s} value={s}>{ACTION_STATUS_LABELS[s]}</option>)}
+            </select>
+            <input className={inputClass} value={draft.owner || ''} onChange={(e) => edit({ owner: e.target.value || undefined })} placeholder="Owner" />
+            <input type="date" className={inputClass} value={draft.dueDate || ''} onChange={(e) => edit({ dueDate: e.target.value || undefined })} />
+          </div>
+
+          <div>
+            <div className="text-[9px] font-bold text-slate-400 uppercase mb-1">Addresses</div>
+            <div className="space-y-0.5">
+              {draft.causeIds.map(id => (
+                <div key={id} className="flex items-center gap-1 text-[11px] text-slate-700">
+                  <span className="flex-1 truncate">{causeLabel(id)}</span>
+                  {draft.causeIds.length > 1 && (
+                    <button onClick={() => edit({ causeIds: draft.causeIds.filter(c => c !== id) })} className="text-slate-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <select className={`${inputClass} mt-1`} value="" onChange={(e) => e.target.value && edit({ causeIds: [...draft.causeIds, e.target.value] })}>
+              <option value="">Link another factor…</option>
+              {causes.filter(c => !c.isRejected && !draft.causeIds.includes(c.id)).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+            </select>
+          </div>
+
+          {/* Effectiveness is checked once the action is in place */}
+          {[ActionStatus.IMPLEMENTED, ActionStatus.VERIFIED].includes(getActionStatus(draft)) && (
+            <div>
+              <div className="text-[9px] font-bold text-slate-400 uppercase mb-1">Verification of effectiveness</div>
+              <div className="grid grid-cols-2 gap-1">
+                <select
+                  className={inputClass}
+                  value={verification.result || ''}
+                  onChange={(e) => edit({ verification: { ...verification, result: (e.target.value || undefined) as Effectiveness | undefined } })}
+                >
+                  <option value="">Not yet checked</option>
+                  {Object.values(Effectiveness).map(r => <option key={r} value={r}>{EFFECTIVENESS_LABELS[r]}</option>)}
+                </select>
+                <input type="date" className={inputClass} value={verification.verifiedAt || ''} onChange={(e) => edit({ verification: { ...verification, verifiedAt: e.target.value || undefined } })} />
+                <input className={`${inputClass} col-span-2`} value={verification.verifiedBy || ''} onChange={(e) => edit({ verification: { ...verification, verifiedBy: e.target.value || undefined } })} placeholder="Verified by" />
+                <input className={`${inputClass} col-span-2`} value={verification.method || ''} onChange={(e) => edit({ verification: { ...verification, method: e.target.value || undefined } })} placeholder="How effectiveness was checked" />
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-1 pt-1">
+            <button onClick={onDelete} className="flex-1 text-[11px] py-1 bg-red-50 text-red-600 border border-red-100 rounded hover:bg-red-100 flex items-center justify-center gap-1">
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+            <button
+              onClick={() => { onSave({ ...draft, title: draft.title.trim() || action.title }); setIsExpanded(false); }}
+              className="flex-[2] text-[11px] py-1 bg-slate-900 text-white rounded hover:bg-slate-800"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ActionPlanPanelProps {
+  nodes: Node[];
+  edges: Edge[];
+  actions: CorrectiveAction[];
+  onChange: (actions: CorrectiveAction[], label: string) => void;
+  onClose: () => void;
+}
+
+// The management action plan: corrective and preventive actions, each linked to the factors it addresses
+const ActionPlanPanel: React.FC<ActionPlanPanelProps> = ({ nodes, edges, actions, onChange, onClose }) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [newCauseId, setNewCauseId] = useState('');
+
+  // Root causes first, since the plan should address every one of them; rejected ones only label old links
+  const causes: CauseOption[] = [];
+  walkGraphCauses(nodes, edges, (cause, domain) => {
+    const status = getCauseStatus(cause);
+    causes.push({ id: cause.id, label: `${cause.name} (${domain})`, isRootCause: status === CauseStatus.ROOT_CAUSE, isRejected: status === CauseStatus.REJECTED });
+  });
+  causes.sort((a, b) => Number(b.isRootCause) - Number(a.isRootCause));
+  const linkable = causes.filter(c => !c.isRejected);
+  const unaddressed = causes.filter(c => c.isRootCause && !actions.some(a => a.causeIds.includes(c.id)));
+  const summary = summarizeActionPlan(actions);
+
+  const addAction = () => {
+    const causeId = newCauseId || linkable[0]?.id;
+    if (!newTitle.trim() || !causeId) return;
+    onChange([...actions, { id: uuidv4(), title: newTitle.trim(), causeIds: [causeId], status: ActionStatus.OPEN }], 'Add action');
+    setNewTitle('');
+    setNewCauseId('');
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div>
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <ClipboardCheck className="w-3.5 h-3.5 text-emerald-500" /> Action Plan
+          </h3>
+          <p className="text-[10px] text-slate-400">
+            {summary.total} action{summary.total === 1 ? '' : 's'} · {summary.byStatus[ActionStatus.VERIFIED]} verified
+            {summary.overdue > 0 && <span className="text-red-600 font-semibold"> · {summary.overdue} overdue</span>}
+          </p>
+        </div>
+        <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      {unaddressed.length > 0 && (
+        <div className="px-3 py-2 border-b border-slate-100 text-[10px] text-amber-700 bg-amber-50 shrink-0">
+          No action yet for root cause{unaddressed.length === 1 ? '' : 's'}: {unaddressed.map(c => c.label).join('; ')}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1.5 scrollbar-thin">
+        {actions.length === 0 && (
+          <div className="text-xs text-slate-400 italic p-4 text-center">No actions yet. Add one for each root cause below, or ask the assistant to propose them.</div>
+        )}
+        {actions.map(action => (
+          <ActionItem
+            key={action.id}
+            action={action}
+            causes={causes}
+            onSave={(updated) => onChange(actions.map(a => a.id === updated.id ? updated : a), 'Edit action')}
+            onDelete={() => onChange(actions.filter(a => a.id !== action.id), 'Delete action')}
+          />
+        ))}
+      </div>
+
+      <div className="border-t border-slate-100 p-2 space-y-1 shrink-0">
+        {linkable.length === 0 ? (
+          <div className="text-[10px] text-slate-400 italic text-center">Add factors to the diagram before planning actions.</div>
+        ) : (
+          <>
+            <select className={inputClass} value={newCauseId || linkable[0].id} onChange={(e) => setNewCauseId(e.target.value)}>
+              {linkable.map(c => <option key={c.id} value={c.id}>{c.isRootCause ? '★ ' : ''}{c.label}</option>)}
+            </select>
+            <div className="flex gap-1">
+              <input
+                className={inputClass}
+                placeholder="New action…"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addAction()}
+              />
+              <button onClick={addAction} className="bg-slate-800 text-white rounded px-2 hover:bg-slate-700"><Plus className="w-3 h-3" /></button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActionPlanPanel;
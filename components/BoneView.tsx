@@ -0,0 +1,68 @@
+import React, { memo } from 'react';
+import { BaseEdge, EdgeProps, Handle, NodeProps, Position, getStraightPath } from 'reactflow';
+import { Target } from 'lucide-react';
+import { Cause, CauseStatus } from '../types';
+import { getCauseStatus, riskScore } from '../services/causeAssessment';
+import { BONE_LABEL_HEIGHT, SUB_BONE_INDENT } from '../services/fishboneLayout';
+
+// Line colours follow the cause status, so the conclusions read straight off the diagram
+const BONE_LINE_STYLES: Record<CauseStatus, string> = {
+  [CauseStatus.HYPOTHESIS]: 'border-slate-500',
+  [CauseStatus.VALIDATED]: 'border-emerald-500',
+  [CauseStatus.REJECTED]: 'border-slate-300 border-dashed',
+  [CauseStatus.ROOT_CAUSE]: 'border-red-500'
+};
+
+const BONE_STROKES: Record<CauseStatus, string> = {
+  [CauseStatus.HYPOTHESIS]: '#64748b',
+  [CauseStatus.VALIDATED]: '#10b981',
+  [CauseStatus.REJECTED]: '#cbd5e1',
+  [CauseStatus.ROOT_CAUSE]: '#ef4444'
+};
+
+interface BoneNodeData {
+  cause: Cause;
+  depth: number;
+  width: number;
+}
+
+const hiddenHandle = '!w-1 !h-1 !min-w-0 !min-h-0 !border-0 !bg-transparent';
+
+// One cause drawn as a labelled horizontal bone; click it to edit
+export const BoneNode = memo(({ data }: NodeProps<BoneNodeData>) => {
+  const { cause, depth, width } = data;
+  const status = getCauseStatus(cause);
+  const score = riskScore(cause);
+
+  return (
+    <div
+      style={{ width, height: BONE_LABEL_HEIGHT }}
+      className={`relative flex items-end justify-end gap-1 px-1 cursor-pointer group border-b-2 ${BONE_LINE_STYLES[status]}`}
+      title={[cause.name, cause.description].filter(Boolean).join('\n')}
+    >
+      <Handle type="target" position={Position.Right} id="end" style={{ top: '100%' }} className={hiddenHandle} />
+      <Handle type="source" position={Position.Bottom} id="branch" style={{ left: width - SUB_BONE_INDENT / 2 }} className={hiddenHandle} />
+
+      {status === CauseStatus.ROOT_CAUSE && <Target className="w-3 h-3 text-red-500 shrink-0 mb-0.5" />}
+      <span
+        className={`truncate leading-tight pb-0.5 group-hover:text-blue-600 ${depth === 0 ? 'text-[11px] font-semibold' : 'text-[10px]'} ${status === CauseStatus.REJECTED ? 'text-slate-400 line-through' : 'text-slate-700'}`}
+      >
+        {cause.name}
+      </span>
+      {score !== undefined && <span className="text-[9px] font-mono text-amber-700 shrink-0 pb-0.5">{score}</span>}
+    </div>
+  );
+});
+
+// Connector from a bone to the "why" that hangs off it
+export const BoneEdge: React.FC<EdgeProps<{ status: CauseStatus }>> = ({ id, sourceX, sourceY, targetX, targetY, data }) => {
+  const [path] = getStraightPath({ sourceX, sourceY, targetX, targetY });
+  const status = data?.status || CauseStatus.HYPOTHESIS;
+  return (
+    <BaseEdge
+      id={id}
+      path={path}
+      style={{ stroke: BONE_STROKES[status], strokeWidth: 1.5, strokeDasharray: status === CauseStatus.REJECTED ? '4 3' : undefined }}
+    />
+  );
+};
@@ -1,17 +1,27 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import ReactFlow, { 
   Background, 
   Controls, 
   Edge, 
   Node, 
+  NodeChange,
+  EdgeChange,
   OnNodesChange,
   OnEdgesChange,
   OnConnect,
+  NodeDragHandler,
+  Panel,
 } from 'reactflow';
-import { NodeType, Cause, Evidence } from '../types';
-import ProcessNode from './RiskNode';
-import { X, Plus, FileText, GitCommit } from 'lucide-react';
+import { NodeType, Cause, Evidence, DiagramView, RcaMethod } from '../types';
+import ProcessNode, { CauseEditItem } from './RiskNode';
+import { BoneEdge, BoneNode } from './BoneView';
+import { BONE_EDGE_TYPE, BONE_NODE_TYPE, buildBoneView, causeIdOfBone, isBoneId, spineSlots } from '../services/fishboneLayout';
+import { findCauseById } from '../services/causeTree';
+import { CauseAssessmentFields, CauseStatusBadge, SufficiencyBadge } from './CauseAssessment';
+import EvidenceItem from './EvidenceItem';
+import { X, Plus, Minus, GitCommit, LayoutList, GitBranch, Pencil } from 'lucide-react';
+import { EDIT_SHORTCUTS } from '../constants';
 import { v4 as uuidv4 } from 'uuid';
 
 interface ProcessGraphProps {
@@ -20,17 +30,37 @@ interface ProcessGraphProps {
   onNodesChange: OnNodesChange;
   onEdgesChange: OnEdgesChange;
   onConnect: OnConnect;
+  onNodeDragStart?: NodeDragHandler;
+  onNodeDragStop?: NodeDragHandler;
   onAddNode: (type: NodeType) => void;
+  onAddSpineSegment: () => void;
+  onRemoveSpineSegment: () => void;
+  onEditProblem: () => void;
   onUpdateNode: (id: string, title: string, description: string) => void;
   onDeleteNode: (id: string) => void;
   onUpdateEdge: (id: string, data: { label?: string, causes?: Cause[] }) => void;
   onDeleteEdge: (id: string) => void;
+  method: RcaMethod;
+  view: DiagramView;
+  onChangeView: (view: DiagramView) => void;
+  onUpdateCause: (causeId: string, cause: Cause) => void;
+  onDeleteCause: (causeId: string) => void;
 }
 
 const nodeTypes = {
   processNode: ProcessNode,
+  [BONE_NODE_TYPE]: BoneNode,
 };
 
+const edgeTypes = {
+  [BONE_EDGE_TYPE]: BoneEdge,
+};
+
+const TOOLBAR_BUTTON = 'px-2 py-1 text-[11px] font-semibold rounded-md flex items-center gap-1 text-slate-600 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+// Bones are derived from the causes, so React Flow must not write changes to them back
+const isBoneChange = (change: NodeChange | EdgeChange) => 'id' in change && isBoneId(change.id);
+
 interface EdgeCauseItemProps {
   cause: Cause;
   onUpdate: (r: Cause) => void;
@@ -52,15 +82,19 @@ const EdgeCauseItem: React.FC<EdgeCauseItemProps> = ({ cause, onUpdate, onRemove
             <div className="flex items-center gap-2 mb-1">
                 <GitCommit className={`w-3 h-3 ${cause.evidence.length > 0 ? 'text-blue-500' : 'text-orange-500'}`} />
                 <span className="font-medium flex-1">{cause.name}</span>
+                <CauseStatusBadge cause={cause} hideHypothesis />
+                <SufficiencyBadge cause={cause} />
                 <button onClick={onRemove} className="text-slate-400 hover:text-red-500"><X className="w-3 h-3"/></button>
             </div>
             <div className="pl-5 space-y-1">
+                <CauseAssessmentFields cause={cause} onChange={onUpdate} />
                 {cause.evidence.map(c => (
-                    <div key={c.id} className="flex items-center gap-1 text-[10px] text-slate-500">
-                        <FileText className="w-3 h-3 text-blue-500"/>
-                        <span>{c.name}</span>
-                        <button onClick={() => onUpdate({...cause, evidence: cause.evidence.filter(x => x.id !== c.id)})} className="ml-auto text-slate-300 hover:text-red-400"><X className="w-2 h-2"/></button>
-                    </div>
+                    <EvidenceItem 
+                        key={c.id}
+                        evidence={c}
+                        onChange={(updated) => onUpdate({...cause, evidence: cause.evidence.map(x => x.id === updated.id ? updated : x)})}
+                        onDelete={() => onUpdate({...cause, evidence: cause.evidence.filter(x => x.id !== c.id)})}
+                    />
                 ))}
                 <div className="flex gap-1 mt-1">
                     <input value={newEvidence} onChange={e => setNewEvidence(e.target.value)} placeholder="Add evidence..." className="w-full border rounded px-1 py-0.5 text-[10px]" />
@@ -72,11 +106,13 @@ const EdgeCauseItem: React.FC<EdgeCauseItemProps> = ({ cause, onUpdate, onRemove
 }
 
 const ProcessGraphContent: React.FC<ProcessGraphProps> = ({ 
-  nodes, edges, onNodesChange, onEdgesChange, onConnect,
-  onAddNode, onDeleteNode, onUpdateEdge, onDeleteEdge
+  nodes, edges, onNodesChange, onEdgesChange, onConnect, onNodeDragStart, onNodeDragStop,
+  onAddNode, onAddSpineSegment, onRemoveSpineSegment, onEditProblem, onDeleteNode, onUpdateEdge, onDeleteEdge,
+  method, view, onChangeView, onUpdateCause, onDeleteCause
 }) => {
   
   const [editingEdge, setEditingEdge] = useState<Edge | null>(null);
+  const [editingBone, setEditingBone] = useState<Cause | null>(null);
   const [edgeLabelInput, setEdgeLabelInput] = useState('');
   const [edgeCauses, setEdgeCauses] = useState<Cause[]>([]);
   const [newCauseName, setNewCauseName] = useState('');
@@ -95,8 +131,46 @@ const ProcessGraphContent: React.FC<ProcessGraphProps> = ({
     };
   }, [onDeleteNode]);
 
+  const slots = useMemo(() => spineSlots(nodes), [nodes]);
+
+  // Bone view: category cards go compact and every cause on a rib is drawn as a bone
+  const boneView = useMemo(() => (view === DiagramView.BONES ? buildBoneView(nodes, edges) : null), [view, nodes, edges]);
+  const displayNodes = useMemo(() => !boneView ? nodes : [
+    ...nodes.map(n => boneView.ribbed.has(n.id) ? { ...n, data: { ...n.data, compact: true } } : n),
+    ...boneView.nodes
+  ], [nodes, boneView]);
+  const displayEdges = useMemo(() => (boneView ? [...edges, ...boneView.edges] : edges), [edges, boneView]);
+
+  const handleNodesChange = (changes: NodeChange[]) => onNodesChange(changes.filter(c => !isBoneChange(c)));
+  const handleEdgesChange = (changes: EdgeChange[]) => onEdgesChange(changes.filter(c => !isBoneChange(c)));
+
+  const onNodeClick = (event: React.MouseEvent, node: Node) => {
+    if (!isBoneId(node.id)) return;
+    event.stopPropagation();
+    const causeId = causeIdOfBone(node.id);
+    const cause = nodes.map(n => findCauseById(n.data.causes || [], causeId)).find(Boolean);
+    setEditingEdge(null);
+    setEditingBone(cause || null);
+  };
+
+  const saveBoneEdit = () => {
+    if (editingBone) {
+      onUpdateCause(editingBone.id, editingBone);
+      setEditingBone(null);
+    }
+  };
+
+  const deleteBone = () => {
+    if (editingBone) {
+      onDeleteCause(editingBone.id);
+      setEditingBone(null);
+    }
+  };
+
   const onEdgeClick = (event: React.MouseEvent, edge: Edge) => {
+    if (isBoneId(edge.id)) return;
     event.stopPropagation();
+    setEditingBone(null);
     setEditingEdge(edge);
     setEdgeLabelInput(edge.label as string || '');
     setEdgeCauses((edge.data?.causes as Cause[]) || []);
@@ -134,13 +208,17 @@ const ProcessGraphContent: React.FC<ProcessGraphProps> = ({
   return (
     <div className="w-full h-full relative bg-slate-50">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
+        nodes={displayNodes}
+        edges={displayEdges}
+        onNodesChange={handleNodesChange}
+        onEdgesChange={handleEdgesChange}
         onConnect={onConnect}
+        onNodeDragStart={onNodeDragStart}
+        onNodeDragStop={onNodeDragStop}
+        onNodeClick={onNodeClick}
         onEdgeClick={onEdgeClick}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         fitView
         minZoom={0.2}
         attributionPosition="bottom-right"
@@ -148,6 +226,89 @@ const ProcessGraphContent: React.FC<ProcessGraphProps> = ({
       >
         <Background color="#cbd5e1" gap={24} size={1} />
         <Controls className="bg-white border border-slate-200 shadow-sm" />
+
+        {/* Bones hang off the fishbone spine; the other methods have a single view */}
+        {/* Manual editing: everything the assistant can build, without a model */}
+        <Panel position="top-left" className="flex items-center gap-0.5 bg-white border border-slate-200 rounded-lg shadow-sm p-0.5">
+          <button
+            onClick={onEditProblem}
+            title={`Edit the ${method === RcaMethod.FISHBONE ? 'problem' : 'top event'} (${EDIT_SHORTCUTS.editProblem.toUpperCase()})`}
+            className={TOOLBAR_BUTTON}
+          >
+            <Pencil className="w-3 h-3" /> {method === RcaMethod.FISHBONE ? 'Problem' : 'Top event'}
+          </button>
+          {method === RcaMethod.FISHBONE && (
+            <>
+              <div className="h-4 w-px bg-slate-200 mx-0.5" />
+              <button
+                onClick={() => onAddNode(NodeType.CATEGORY)}
+                title={`Add a category in the next free rib slot (${EDIT_SHORTCUTS.addCategory.toUpperCase()})`}
+                className={TOOLBAR_BUTTON}
+              >
+                <Plus className="w-3 h-3" /> Category
+              </button>
+              <div className="h-4 w-px bg-slate-200 mx-0.5" />
+              <span className="px-1 text-[11px] text-slate-400" title={`${slots.freeSlots} free rib slot${slots.freeSlots === 1 ? '' : 's'}`}>
+                Spine {slots.segments}
+              </span>
+              <button
+                onClick={onRemoveSpineSegment}
+                disabled={!slots.canRemoveSegment}
+                title={slots.canRemoveSegment ? `Remove the empty segment nearest the problem (${EDIT_SHORTCUTS.removeSegment})` : 'Every segment holds a category'}
+                className={TOOLBAR_BUTTON}
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <button
+                onClick={onAddSpineSegment}
+                title={`Add a spine segment with two free rib slots (${EDIT_SHORTCUTS.addSegment})`}
+                className={TOOLBAR_BUTTON}
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </>
+          )}
+        </Panel>
+
+        {method === RcaMethod.FISHBONE && <Panel position="top-right" className="flex bg-white border border-slate-200 rounded-lg shadow-sm p-0.5">
+          {([
+            [DiagramView.CARDS, 'Cards', LayoutList, 'Causes listed inside each category card'],
+            [DiagramView.BONES, 'Bones', GitBranch, 'Causes drawn as bones off each rib (click a bone to edit)']
+          ] as const).map(([option, label, Icon, hint]) => (
+            <button
+              key={option}
+              onClick={() => option !== view && onChangeView(option)}
+              title={hint}
+              className={`px-2 py-1 text-[11px] font-semibold rounded-md flex items-center gap-1 transition-colors ${view === option ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              <Icon className="w-3 h-3" /> {label}
+            </button>
+          ))}
+        </Panel>}
+
+        {editingBone && (
+          <div className="absolute top-20 right-4 w-80 bg-white rounded-lg shadow-xl border border-slate-200 p-4 z-50 animate-in fade-in slide-in-from-right-5 max-h-[70%] flex flex-col">
+             <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-2 shrink-0">
+               <h3 className="text-sm font-bold text-slate-700">Edit Factor</h3>
+               <button onClick={() => setEditingBone(null)} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+             </div>
+
+             <div className="overflow-y-auto flex-1 pr-1 scrollbar-thin">
+               <CauseEditItem 
+                 key={editingBone.id}
+                 cause={editingBone}
+                 onChange={setEditingBone}
+                 onDelete={deleteBone}
+                 defaultExpanded
+               />
+             </div>
+
+             <div className="flex gap-2 pt-2 mt-2 border-t border-slate-100 shrink-0">
+               <button onClick={deleteBone} className="flex-1 text-xs py-2 bg-red-50 text-red-600 border border-red-100 rounded hover:bg-red-100">Delete Factor</button>
+               <button onClick={saveBoneEdit} className="flex-1 text-xs py-2 bg-blue-600 text-white rounded hover:bg-blue-700 shadow-sm">Save</button>
+             </div>
+          </div>
+        )}
         
         {editingEdge && (
           <div className="absolute top-20 right-4 w-80 bg-white rounded-lg shadow-xl border border-slate-200 p-4 z-50 animate-in fade-in slide-in-from-right-5">
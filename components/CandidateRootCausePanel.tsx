@@ -0,0 +1,94 @@
+import React from 'react';
+import { X, Target, Check, Ban, FileText, ListOrdered } from 'lucide-react';
+import { CauseStatus } from '../types';
+import { CandidateRootCause } from '../services/causeAssessment';
+import { CauseStatusBadge } from './CauseAssessment';
+
+interface CandidateRootCausePanelProps {
+  candidates: CandidateRootCause[];
+  onSetStatus: (causeId: string, status: CauseStatus) => void;
+  onShowLadder: (causeId: string) => void;
+  onClose: () => void;
+}
+
+const CandidateRootCausePanel: React.FC<CandidateRootCausePanelProps> = ({ candidates, onSetStatus, onShowLadder, onClose }) => {
+  const actionClass = 'p-1 rounded text-slate-400 transition-colors';
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div>
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <Target className="w-3.5 h-3.5 text-red-500" /> Candidate Root Causes
+          </h3>
+          <p className="text-[10px] text-slate-400">Ranked by status, then likelihood × impact</p>
+        </div>
+        <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1.5 scrollbar-thin">
+        {candidates.length === 0 && (
+          <div className="text-xs text-slate-400 italic p-4 text-center">No open factors yet. Add factors to the categories, or un-reject one.</div>
+        )}
+        {candidates.map((candidate, index) => {
+          const { cause, status, domain, chain } = candidate;
+          return (
+            <div
+              key={cause.id}
+              className={`border rounded-lg p-2 text-xs ${status === CauseStatus.ROOT_CAUSE ? 'border-red-300 bg-red-50/50' : 'border-slate-200'}`}
+            >
+              <div className="flex items-start gap-2">
+                <span className="text-[10px] font-mono text-slate-400 w-4 shrink-0 pt-0.5">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-800 leading-snug">{cause.name}</div>
+                  <div className="text-[10px] text-slate-400 truncate" title={chain.map(c => c.name).join(' → ')}>
+                    {domain}{chain.length > 1 ? ` · why ${chain.length - 1} of "${chain[0].name}"` : ''}
+                  </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <CauseStatusBadge cause={cause} />
+                    <span className="text-[9px] text-slate-400 flex items-center gap-0.5 ml-1">
+                      <FileText className="w-2.5 h-2.5" /> {cause.evidence.length}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex flex-col gap-0.5 shrink-0">
+                  <button
+                    onClick={() => onSetStatus(cause.id, status === CauseStatus.ROOT_CAUSE ? CauseStatus.VALIDATED : CauseStatus.ROOT_CAUSE)}
+                    title={status === CauseStatus.ROOT_CAUSE ? 'Unmark root cause' : 'Mark as root cause'}
+                    className={`${actionClass} ${status === CauseStatus.ROOT_CAUSE ? 'text-red-600 bg-red-100' : 'hover:text-red-600 hover:bg-red-50'}`}
+                  >
+                    <Target className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onSetStatus(cause.id, CauseStatus.VALIDATED)}
+                    disabled={status === CauseStatus.VALIDATED}
+                    title="Mark as validated"
+                    className={`${actionClass} hover:text-emerald-600 hover:bg-emerald-50 disabled:text-emerald-600 disabled:bg-emerald-50`}
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onSetStatus(cause.id, CauseStatus.REJECTED)}
+                    title="Reject (removes it from the ranking)"
+                    className={`${actionClass} hover:text-slate-700 hover:bg-slate-100`}
+                  >
+                    <Ban className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onShowLadder(cause.id)}
+                    title="Show its 5 Whys ladder"
+                    className={`${actionClass} hover:text-orange-600 hover:bg-orange-50`}
+                  >
+                    <ListOrdered className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CandidateRootCausePanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Cause, CauseStatus, EvidenceSufficiency } from '../types';
+import { CAUSE_STATUS_LABELS, SUFFICIENCY_LABELS } from '../constants';
+import { getCauseStatus, MAX_SCORE, MIN_SCORE, riskScore } from '../services/causeAssessment';
+import { assessSufficiency } from '../services/evidenceSufficiency';
+
+const STATUS_STYLES: Record<CauseStatus, string> = {
+  [CauseStatus.HYPOTHESIS]: 'bg-slate-100 text-slate-500',
+  [CauseStatus.VALIDATED]: 'bg-emerald-100 text-emerald-700',
+  [CauseStatus.REJECTED]: 'bg-slate-100 text-slate-400 line-through',
+  [CauseStatus.ROOT_CAUSE]: 'bg-red-100 text-red-700'
+};
+
+export const SUFFICIENCY_STYLES: Record<EvidenceSufficiency, string> = {
+  [EvidenceSufficiency.NONE]: 'bg-red-100 text-red-700',
+  [EvidenceSufficiency.WEAK]: 'bg-amber-100 text-amber-700',
+  [EvidenceSufficiency.ADEQUATE]: 'bg-blue-100 text-blue-700',
+  [EvidenceSufficiency.STRONG]: 'bg-emerald-100 text-emerald-700'
+};
+
+const SCORES = Array.from({ length: MAX_SCORE - MIN_SCORE + 1 }, (_, i) => MIN_SCORE + i);
+
+interface CauseStatusBadgeProps {
+  cause: Cause;
+  hideHypothesis?: boolean; // Cards only flag causes that have been assessed
+}
+
+export const CauseStatusBadge: React.FC<CauseStatusBadgeProps> = ({ cause, hideHypothesis = false }) => {
+  const status = getCauseStatus(cause);
+  const score = riskScore(cause);
+  return (
+    <>
+      {!(hideHypothesis && status === CauseStatus.HYPOTHESIS) && (
+        <span className={`text-[9px] font-semibold px-1 rounded shrink-0 ${STATUS_STYLES[status]}`}>{CAUSE_STATUS_LABELS[status]}</span>
+      )}
+      {score !== undefined && (
+        <span className="text-[9px] font-mono bg-amber-50 text-amber-700 border border-amber-200 px-1 rounded shrink-0" title={`Likelihood ${cause.likelihood} × Impact ${cause.impact}`}>
+          {score}
+        </span>
+      )}
+    </>
+  );
+};
+
+// Evidence sufficiency of one cause, with the reasoning on hover
+export const SufficiencyBadge: React.FC<{ cause: Cause }> = ({ cause }) => {
+  const { level, reason } = assessSufficiency(cause);
+  return (
+    <span className={`text-[9px] font-semibold px-1 rounded shrink-0 ${SUFFICIENCY_STYLES[level]}`} title={reason}>
+      {SUFFICIENCY_LABELS[level]}
+    </span>
+  );
+};
+
+interface CauseAssessmentFieldsProps {
+  cause: Cause;
+  onChange: (c: Cause) => void;
+}
+
+// Status and likelihood/impact pickers for the cause editors
+export const CauseAssessmentFields: React.FC<CauseAssessmentFieldsProps> = ({ cause, onChange }) => {
+  const scoreValue = (value: string) => (value ? Number(value) : undefined);
+  const selectClass = 'text-[10px] border border-slate-200 rounded px-1 py-0.5 bg-white';
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      <select
+        className={selectClass}
+        value={getCauseStatus(cause)}
+        onChange={(e) => onChange({ ...cause, status: e.target.value as CauseStatus })}
+      >
+        {Object.values(CauseStatus).map(status => (
+          <option key={status} value={status}>{CAUSE_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+      <label className="text-[9px] text-slate-400">L</label>
+      <select className={selectClass} value={cause.likelihood ?? ''} onChange={(e) => onChange({ ...cause, likelihood: scoreValue(e.target.value) })} title="Likelihood">
+        <option value="">–</option>
+        {SCORES.map(s => <option key={s} value={s}>{s}</option>)}
+      </select>
+      <label className="text-[9px] text-slate-400">I</label>
+      <select className={selectClass} value={cause.impact ?? ''} onChange={(e) => onChange({ ...cause, impact: scoreValue(e.target.value) })} title="Impact">
+        <option value="">–</option>
+        {SCORES.map(s => <option key={s} value={s}>{s}</option>)}
+      </select>
+    </div>
+  );
+};
@@ -1,22 +1,45 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Send, Sparkles, RotateCcw, Paperclip, FileText, X } from 'lucide-react';
-import { ChatMessage, MessageRole, ContentType } from '../types';
-import { SUGGESTION_CHIPS } from '../constants';
+import { Send, Sparkles, RotateCcw, Paperclip, FileText, X, Undo2, ShieldCheck, Square, Wrench, Loader2, AlertTriangle, Quote } from 'lucide-react';
+import { ChatMessage, MessageRole, ContentType, ToolActivityStatus, ExtractedDocument } from '../types';
+import { SUGGESTION_CHIPS, ATTACHMENT_LIMITS } from '../constants';
+import { extractDocumentText } from '../services/documentExtraction';
+import ProposalReview from './ProposalReview';
+import { ProviderId } from '../services/llm';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   isTyping: boolean;
-  onSendMessage: (text: string, fileContent?: string) => void;
+  onSendMessage: (text: string, attachments?: ExtractedDocument[], options?: { extractEvidence?: boolean }) => void;
   onSuggestionClick: (text: string) => void;
   onClearChat: () => void;
+  onStop: () => void;
+  undoableMessageId?: string | null;
+  onUndoMessageChanges?: () => void;
+  providers: { id: ProviderId; label: string }[];
+  activeProviderId: ProviderId;
+  onSelectProvider: (id: ProviderId) => void;
+  reviewMode: boolean;
+  onToggleReviewMode: () => void;
+  onApplyProposal: (messageId: string, acceptedIds: string[]) => void;
+  onRejectProposal: (messageId: string) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSendMessage, onSuggestionClick, onClearChat }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
+  messages, isTyping, onSendMessage, onSuggestionClick, onClearChat, onStop, undoableMessageId, onUndoMessageChanges,
+  providers, activeProviderId, onSelectProvider, reviewMode, onToggleReviewMode, onApplyProposal, onRejectProposal
+}) => {
   const [input, setInput] = React.useState('');
-  const [file, setFile] = useState<{name: string, content: string} | null>(null);
+  const [attachments, setAttachments] = useState<ExtractedDocument[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [attachError, setAttachError] = useState<string | null>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Hide the streaming placeholder until it has output; the typing dots stand in for it
+  const hasOutput = (msg: ChatMessage) => !!msg.content || (msg.toolActivity?.length || 0) > 0;
+  const streamingMessage = messages.find(m => m.isStreaming);
+  const showTypingDots = isTyping && !(streamingMessage && hasOutput(streamingMessage));
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -25,25 +48,43 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
     }
   }, [messages, isTyping]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (input.trim() || file) {
-      onSendMessage(input, file?.content);
+  const send = (extractEvidence = false) => {
+    if (isTyping || isExtracting) return;
+    if (input.trim() || attachments.length > 0) {
+      onSendMessage(input, attachments, { extractEvidence });
       setInput('');
-      setFile(null);
+      setAttachments([]);
+      setAttachError(null);
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        const content = ev.target?.result as string;
-        setFile({ name: selectedFile.name, content });
-      };
-      reader.readAsText(selectedFile);
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send();
+  };
+
+  // Text is extracted when files are picked, so problems show up before the message is sent
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again after removing it
+    if (selected.length === 0) return;
+
+    const room = ATTACHMENT_LIMITS.maxFiles - attachments.length;
+    const errors: string[] = [];
+    if (selected.length > room) errors.push(`Up to ${ATTACHMENT_LIMITS.maxFiles} files per message.`);
+
+    setIsExtracting(true);
+    const extracted: ExtractedDocument[] = [];
+    for (const file of selected.slice(0, Math.max(0, room))) {
+      try {
+        extracted.push(await extractDocumentText(file));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `${file.name} could not be read.`);
+      }
     }
+    setIsExtracting(false);
+    setAttachments(prev => [...prev.filter(a => !extracted.some(d => d.fileName === a.fileName)), ...extracted]);
+    setAttachError(errors.length ? errors.join(' ') : null);
   };
 
   return (
@@ -56,7 +97,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
           <span className="text-xs font-semibold text-slate-600">RCA Assistant</span>
         </div>
         <div className="flex items-center gap-3">
-          <div className="text-[10px] text-slate-400">Powered by Gemini 2.5</div>
+          <select
+            value={activeProviderId}
+            onChange={(e) => onSelectProvider(e.target.value as ProviderId)}
+            className="text-[10px] text-slate-400 bg-transparent border-none focus:outline-none cursor-pointer max-w-[140px]"
+            title="Model provider"
+          >
+            {providers.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+            {!providers.some(p => p.id === activeProviderId) && (
+              <option value={activeProviderId}>Not configured</option>
+            )}
+          </select>
+          <button 
+            onClick={onToggleReviewMode}
+            className={`flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-semibold border transition-colors ${reviewMode ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-400 border-slate-200 hover:text-blue-600'}`}
+            title={reviewMode ? "Review mode on: AI changes wait for your approval" : "Review mode off: AI changes apply immediately"}
+          >
+            <ShieldCheck className="w-3 h-3" /> Review
+          </button>
           <button 
             onClick={onClearChat}
             className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
@@ -69,7 +129,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
 
       {/* Messages Area */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6 bg-white">
-        {messages.map((msg) => (
+        {messages.filter(msg => !msg.isStreaming || hasOutput(msg)).map((msg) => (
           <div 
             key={msg.id} 
             className={`flex ${msg.role === MessageRole.USER ? 'justify-end' : 'justify-start'}`}
@@ -80,18 +140,63 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
                 ? 'bg-slate-800 text-white rounded-br-none' 
                 : 'bg-slate-100 text-slate-800 rounded-bl-none border border-slate-200'}
             `}>
-              {msg.attachedFileName && (
-                <div className={`flex items-center gap-2 p-2 rounded ${msg.role === MessageRole.USER ? 'bg-slate-700/50' : 'bg-white border border-slate-200'}`}>
+              {(msg.attachedFileNames || (msg.attachedFileName ? [msg.attachedFileName] : [])).map(name => (
+                <div key={name} className={`flex items-center gap-2 p-2 rounded ${msg.role === MessageRole.USER ? 'bg-slate-700/50' : 'bg-white border border-slate-200'}`}>
                   <FileText className="w-4 h-4 opacity-70" />
-                  <span className="text-xs font-mono opacity-80">{msg.attachedFileName}</span>
+                  <span className="text-xs font-mono opacity-80">{name}</span>
                 </div>
+              ))}
+              <p className="whitespace-pre-wrap">
+                {msg.content}
+                {msg.isStreaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-slate-400 animate-pulse align-middle" />}
+              </p>
+              {msg.toolActivity && msg.toolActivity.length > 0 && (
+                <div className="space-y-1">
+                  {msg.toolActivity.map((activity, i) => (
+                    <React.Fragment key={activity.id}>
+                      {/* Label each round of the tool loop once a turn goes past the first */}
+                      {activity.step && msg.toolActivity!.some(a => (a.step || 1) > 1) && activity.step !== msg.toolActivity![i - 1]?.step && (
+                        <div className="text-[9px] font-bold uppercase tracking-wide text-slate-400 pt-1">Step {activity.step}</div>
+                      )}
+                      <div className={`text-[10px] bg-white border rounded px-2 py-1 ${activity.status === ToolActivityStatus.FAILED ? 'border-red-200' : 'border-slate-200'} ${activity.status === ToolActivityStatus.DISCARDED ? 'line-through opacity-50' : ''}`}>
+                        <div className="flex items-center gap-1.5">
+                          <Wrench className="w-3 h-3 text-slate-400 shrink-0" />
+                          <span className="flex-1 truncate text-slate-600">{activity.summary}</span>
+                          <span className={`font-semibold uppercase text-[9px] ${
+                            activity.status === ToolActivityStatus.APPLIED ? 'text-emerald-600'
+                            : activity.status === ToolActivityStatus.PROPOSED ? 'text-blue-600'
+                            : activity.status === ToolActivityStatus.FAILED ? 'text-red-600'
+                            : 'text-slate-400'
+                          }`}>
+                            {activity.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        {activity.detail && <div className="pl-[18px] text-red-600/80">{activity.detail}</div>}
+                      </div>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+              {msg.proposal && (
+                <ProposalReview 
+                  proposal={msg.proposal}
+                  onApply={(ids) => onApplyProposal(msg.id, ids)}
+                  onReject={() => onRejectProposal(msg.id)}
+                />
+              )}
+              {msg.id === undoableMessageId && onUndoMessageChanges && (
+                <button
+                  onClick={onUndoMessageChanges}
+                  className="self-start flex items-center gap-1 text-[11px] font-medium text-slate-500 hover:text-red-600 bg-white border border-slate-200 rounded-md px-2 py-1 transition-colors"
+                >
+                  <Undo2 className="w-3 h-3" /> Undo AI changes
+                </button>
               )}
-              <p className="whitespace-pre-wrap">{msg.content}</p>
             </div>
           </div>
         ))}
         
-        {isTyping && (
+        {showTypingDots && (
           <div className="flex justify-start">
             <div className="bg-slate-100 rounded-2xl rounded-bl-none px-4 py-3 border border-slate-200">
               <div className="flex gap-1">
@@ -112,7 +217,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
             <button
               key={chip.label}
               onClick={() => onSuggestionClick(chip.prompt)}
-              className="flex items-center whitespace-nowrap px-3 py-1.5 rounded-full bg-blue-50 text-blue-600 text-xs font-medium hover:bg-blue-100 hover:shadow-sm transition-all border border-blue-100"
+              disabled={isTyping}
+              className="flex items-center whitespace-nowrap px-3 py-1.5 rounded-full bg-blue-50 text-blue-600 text-xs font-medium hover:bg-blue-100 hover:shadow-sm transition-all border border-blue-100 disabled:opacity-50 disabled:pointer-events-none"
             >
                {chip.label}
             </button>
@@ -120,14 +226,37 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
         </div>
 
         {/* File Preview */}
-        {file && (
-           <div className="mb-2 flex items-center gap-2 bg-slate-50 border border-slate-200 p-2 rounded-lg w-fit">
-              <FileText className="w-4 h-4 text-blue-500" />
-              <span className="text-xs font-medium text-slate-700 max-w-[200px] truncate">{file.name}</span>
-              <button onClick={() => setFile(null)} className="p-1 hover:bg-slate-200 rounded-full">
-                <X className="w-3 h-3 text-slate-500" />
+        {(attachments.length > 0 || isExtracting) && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map(doc => (
+              <div key={doc.fileName} className="flex items-center gap-2 bg-slate-50 border border-slate-200 p-2 rounded-lg" title={doc.warning || `${doc.text.split('\n').length} lines extracted`}>
+                {doc.warning ? <AlertTriangle className="w-4 h-4 text-amber-500" /> : <FileText className="w-4 h-4 text-blue-500" />}
+                <span className="text-xs font-medium text-slate-700 max-w-[200px] truncate">{doc.fileName}</span>
+                <button onClick={() => setAttachments(prev => prev.filter(a => a !== doc))} className="p-1 hover:bg-slate-200 rounded-full">
+                  <X className="w-3 h-3 text-slate-500" />
+                </button>
+              </div>
+            ))}
+            {isExtracting && (
+              <div className="flex items-center gap-2 p-2 text-xs text-slate-500">
+                <Loader2 className="w-4 h-4 animate-spin" /> Reading files…
+              </div>
+            )}
+            {attachments.length > 0 && !isExtracting && (
+              <button
+                type="button"
+                onClick={() => send(true)}
+                disabled={isTyping}
+                className="flex items-center gap-1.5 px-2.5 py-2 rounded-lg text-xs font-medium text-blue-700 bg-blue-50 border border-blue-100 hover:bg-blue-100 disabled:opacity-50 transition-colors"
+                title="Propose causes and evidence from these documents, each citing the passage it comes from. Changes wait for your review."
+              >
+                <Quote className="w-3.5 h-3.5" /> Extract evidence
               </button>
-           </div>
+            )}
+          </div>
+        )}
+        {attachError && (
+          <div className="mb-2 text-xs text-red-600">{attachError}</div>
         )}
 
         <form onSubmit={handleSubmit} className="relative flex gap-2">
@@ -135,7 +264,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
             type="file" 
             ref={fileInputRef}
             className="hidden"
-            accept=".txt,.md,.json,.csv,.log"
+            accept={ATTACHMENT_LIMITS.accept}
+            multiple
             onChange={handleFileSelect}
           />
           
@@ -154,18 +284,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isTyping, onSen
                 type="button"
                 onClick={() => fileInputRef.current?.click()}
                 className="p-2 hover:bg-slate-200 text-slate-500 rounded-lg transition-colors"
-                title="Attach Context (txt, md, json)"
+                title="Attach files (PDF, Word, Excel, logs, text)"
               >
                 <Paperclip className="w-4 h-4" />
               </button>
 
-              <button 
-                type="submit"
-                disabled={(!input.trim() && !file) || isTyping}
-                className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
-              >
-                <Send className="w-4 h-4" />
-              </button>
+              {isTyping ? (
+                <button 
+                  type="button"
+                  onClick={onStop}
+                  className="p-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition-colors"
+                  title="Stop response"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button 
+                  type="submit"
+                  disabled={isExtracting || (!input.trim() && attachments.length === 0)}
+                  className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         </form>
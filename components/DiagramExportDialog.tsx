@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { X, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { DiagramExportOptions, DiagramFormat, DEFAULT_DIAGRAM_EXPORT_OPTIONS } from '../services/diagramExport';
+
+interface DiagramExportDialogProps {
+  onExport: (format: DiagramFormat, options: DiagramExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: { value: DiagramFormat; label: string; hint: string }[] = [
+  { value: 'svg', label: 'SVG', hint: 'Vector, scales without loss' },
+  { value: 'png', label: 'PNG', hint: 'Raster at the chosen scale' },
+  { value: 'pdf', label: 'PDF', hint: 'A4 landscape pages' },
+];
+
+const SCALES = [1, 2, 3, 4];
+
+const DiagramExportDialog: React.FC<DiagramExportDialogProps> = ({ onExport, onClose }) => {
+  const [format, setFormat] = useState<DiagramFormat>('png');
+  const [options, setOptions] = useState<DiagramExportOptions>(DEFAULT_DIAGRAM_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof DiagramExportOptions>(key: K, value: DiagramExportOptions[K]) =>
+    setOptions({ ...options, [key]: value });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(format, options);
+      onClose();
+    } catch (e) {
+      console.error("Diagram export error:", e);
+      setError('Export failed. Try a smaller scale.');
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-slate-900/30 z-[100] flex items-center justify-center" onClick={onClose}>
+      <div className="w-96 bg-white rounded-xl shadow-2xl border border-slate-200 p-5 animate-in fade-in zoom-in duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-2">
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><ImageIcon className="w-4 h-4 text-blue-500" /> Export Diagram</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.value}
+                  onClick={() => setFormat(f.value)}
+                  className={`text-left p-2 rounded-lg border text-xs ${format === f.value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  <div className="font-semibold">{f.label}</div>
+                  <div className="text-[9px] opacity-70">{f.hint}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format !== 'svg' && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Resolution</label>
+              <div className="flex gap-2">
+                {SCALES.map(s => (
+                  <button
+                    key={s}
+                    onClick={() => set('scale', s)}
+                    className={`flex-1 py-1 rounded border text-xs ${options.scale === s ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600'}`}
+                  >
+                    {s}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {format === 'pdf' && (
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Pages</label>
+              <select
+                value={options.pdfLayout}
+                onChange={(e) => set('pdfLayout', e.target.value as DiagramExportOptions['pdfLayout'])}
+                className="w-full text-xs border border-slate-200 rounded px-2 py-1.5"
+              >
+                <option value="fit">Fit to one page</option>
+                <option value="tiled">Tile across pages at full size</option>
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={options.showCauses} onChange={(e) => set('showCauses', e.target.checked)} />
+              Show cause lists
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={options.showEvidence} disabled={!options.showCauses} onChange={(e) => set('showEvidence', e.target.checked)} />
+              Show evidence markers
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={options.titleBlock} onChange={(e) => set('titleBlock', e.target.checked)} />
+              Title block from problem statement
+            </label>
+          </div>
+
+          {error && <div className="text-xs text-red-600">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full flex items-center justify-center gap-2 text-xs py-2 bg-blue-600 text-white rounded hover:bg-blue-700 shadow-sm disabled:opacity-60"
+          >
+            {isExporting && <Loader2 className="w-3 h-3 animate-spin" />}
+            Export {format.toUpperCase()}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramExportDialog;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { X, ClipboardCheck, Download, FileText } from 'lucide-react';
+import { EvidenceSufficiency } from '../types';
+import { SUFFICIENCY_LABELS } from '../constants';
+import { GapReport } from '../services/evidenceSufficiency';
+import { SUFFICIENCY_STYLES } from './CauseAssessment';
+
+interface EvidenceGapPanelProps {
+  report: GapReport;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const EvidenceGapPanel: React.FC<EvidenceGapPanelProps> = ({ report, onDownload, onClose }) => {
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div>
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <ClipboardCheck className="w-3.5 h-3.5 text-blue-500" /> Evidence Gaps
+          </h3>
+          <p className="text-[10px] text-slate-400">
+            {report.supported} of {report.total} factors supported · {report.readyForQa ? 'ready for QA review' : 'not ready for QA review'}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onDownload} title="Download gap report (Markdown)" className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100">
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+        </div>
+      </div>
+
+      <div className="flex gap-1 px-3 py-2 border-b border-slate-100 shrink-0">
+        {Object.values(EvidenceSufficiency).map(level => (
+          <span key={level} className={`flex-1 text-center text-[9px] font-semibold rounded px-1 py-0.5 ${SUFFICIENCY_STYLES[level]}`}>
+            {SUFFICIENCY_LABELS[level]} {report.levels[level]}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-3 scrollbar-thin">
+        {report.total === 0 && (
+          <div className="text-xs text-slate-400 italic p-4 text-center">No factors yet.</div>
+        )}
+        {report.total > 0 && report.categories.length === 0 && (
+          <div className="text-xs text-emerald-600 p-4 text-center">Every factor has adequate evidence.</div>
+        )}
+        {report.categories.map(category => (
+          <div key={category.domain}>
+            <div className="text-[10px] font-bold text-slate-500 uppercase px-1 mb-1">
+              {category.domain} <span className="font-normal text-slate-400 normal-case">· {category.gaps.length} of {category.total} need evidence</span>
+            </div>
+            <div className="space-y-1">
+              {category.gaps.map(({ cause, assessment, chain }) => (
+                <div key={cause.id} className="border border-slate-200 rounded-lg p-2 text-xs">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium text-slate-800 leading-snug">{cause.name}</span>
+                    <span className={`text-[9px] font-semibold rounded px-1 py-0.5 shrink-0 ${SUFFICIENCY_STYLES[assessment.level]}`}>
+                      {SUFFICIENCY_LABELS[assessment.level]}
+                    </span>
+                  </div>
+                  {chain.length > 1 && (
+                    <div className="text-[10px] text-slate-400 truncate" title={chain.map(c => c.name).join(' → ')}>
+                      why {chain.length - 1} of "{chain[0].name}"
+                    </div>
+                  )}
+                  <div className="text-[10px] text-slate-500 mt-0.5 flex items-center gap-1">
+                    <FileText className="w-2.5 h-2.5 shrink-0" /> {assessment.reason}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceGapPanel;
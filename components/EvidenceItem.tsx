@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { FileText, Paperclip, Link2, BookOpen, X, ChevronDown, ChevronRight, ExternalLink, ShieldCheck, ShieldAlert, Quote } from 'lucide-react';
+import { AttachmentKind, Evidence, EvidenceType } from '../types';
+import { EVIDENCE_TYPE_LABELS } from '../constants';
+import { formatBytes } from '../services/evidenceAttachments';
+import { createFileAttachment, IntegrityStatus, openAttachment, verifyArtifact } from '../services/evidenceFiles';
+import { CitationLink, openSourcePassage } from './SourcePassagePanel';
+
+interface EvidenceItemProps {
+  evidence: Evidence;
+  onChange: (ev: Evidence) => void;
+  onDelete: () => void;
+}
+
+const KIND_ICONS = {
+  [AttachmentKind.FILE]: Paperclip,
+  [AttachmentKind.URL]: Link2,
+  [AttachmentKind.DOCUMENT]: BookOpen
+};
+
+const INTEGRITY_LABELS: Record<IntegrityStatus, string> = {
+  verified: 'SHA-256 verified',
+  mismatch: 'Content does not match its SHA-256 hash',
+  missing: 'File content is not stored in this browser'
+};
+
+// One evidence row with an expandable viewer for its attachment and collection details
+const EvidenceItem: React.FC<EvidenceItemProps> = ({ evidence, onChange, onDelete }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [linkDraft, setLinkDraft] = useState('');
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [integrity, setIntegrity] = useState<IntegrityStatus | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const attachment = evidence.attachment;
+  const Icon = attachment ? KIND_ICONS[attachment.kind] : FileText;
+  const inputClass = 'w-full text-[10px] border border-slate-200 rounded px-1 py-0.5';
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsAttaching(true);
+    try {
+      onChange({ ...evidence, attachment: await createFileAttachment(file) });
+      setIntegrity('verified');
+    } catch (error) {
+      console.error('Attach error:', error);
+    }
+    setIsAttaching(false);
+    event.target.value = '';
+  };
+
+  // A bare reference becomes a URL when it looks like one, otherwise a document reference
+  const addLink = () => {
+    const value = linkDraft.trim();
+    if (!value) return;
+    onChange({
+      ...evidence,
+      attachment: /^https?:\/\//i.test(value)
+        ? { kind: AttachmentKind.URL, url: value }
+        : { kind: AttachmentKind.DOCUMENT, reference: value }
+    });
+    setLinkDraft('');
+  };
+
+  const handleOpen = async () => {
+    if (!attachment) return;
+    if (attachment.kind === AttachmentKind.FILE && attachment.sha256) {
+      const status = await verifyArtifact(attachment.sha256);
+      setIntegrity(status);
+      if (status === 'missing') return;
+    }
+    await openAttachment(attachment);
+  };
+
+  return (
+    <div className="bg-white border border-slate-100 rounded text-[10px] text-slate-600">
+      <div className="flex items-center gap-2 px-2 py-1">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-slate-300 hover:text-slate-500">
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+        <Icon className="w-3 h-3 text-blue-500 shrink-0" />
+        <span className="flex-1 truncate">{evidence.name}</span>
+        {evidence.evidenceType && <span className="text-[9px] text-slate-400 shrink-0">{EVIDENCE_TYPE_LABELS[evidence.evidenceType]}</span>}
+        {evidence.citations?.[0] && (
+          <button onClick={() => openSourcePassage({ citation: evidence.citations![0], evidenceName: evidence.name })} title="Show the cited passage" className="text-amber-500 hover:text-amber-700"><Quote className="w-3 h-3" /></button>
+        )}
+        {attachment && attachment.kind !== AttachmentKind.DOCUMENT && (
+          <button onClick={handleOpen} title="Open attachment" className="text-slate-400 hover:text-blue-600"><ExternalLink className="w-3 h-3" /></button>
+        )}
+        <button onClick={onDelete} className="text-slate-300 hover:text-red-400"><X className="w-3 h-3" /></button>
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-slate-100 px-2 py-1.5 space-y-1.5">
+          <select
+            className={`${inputClass} bg-white`}
+            title="Evidence type"
+            value={evidence.evidenceType || ''}
+            onChange={(e) => onChange({ ...evidence, evidenceType: (e.target.value as EvidenceType) || undefined })}
+          >
+            <option value="">Type not set</option>
+            {Object.values(EvidenceType).map(type => (
+              <option key={type} value={type}>{EVIDENCE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          {evidence.citations?.map((citation, i) => (
+            <CitationLink key={i} citation={citation} evidenceName={evidence.name} />
+          ))}
+          {attachment?.kind === AttachmentKind.FILE && (
+            <div className="space-y-0.5">
+              <div className="font-medium text-slate-700 truncate">{attachment.fileName}</div>
+              <div className="text-slate-400">{formatBytes(attachment.size)} · {attachment.mimeType}</div>
+              <div className="font-mono text-[9px] text-slate-400 truncate" title={attachment.sha256}>SHA-256 {attachment.sha256}</div>
+              {integrity && (
+                <div className={`flex items-center gap-1 ${integrity === 'verified' ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {integrity === 'verified' ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                  {INTEGRITY_LABELS[integrity]}
+                </div>
+              )}
+            </div>
+          )}
+          {attachment?.kind === AttachmentKind.URL && (
+            <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block text-blue-600 hover:underline truncate">{attachment.url}</a>
+          )}
+          {attachment?.kind === AttachmentKind.DOCUMENT && (
+            <div><span className="text-slate-400">Document ref:</span> <span className="font-mono">{attachment.reference}</span></div>
+          )}
+
+          {attachment ? (
+            <button onClick={() => { onChange({ ...evidence, attachment: undefined }); setIntegrity(null); }} className="text-slate-400 hover:text-red-500">
+              Remove attachment
+            </button>
+          ) : (
+            <div className="space-y-1">
+              <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isAttaching}
+                className="flex items-center gap-1 bg-slate-100 hover:bg-slate-200 rounded px-1.5 py-0.5 disabled:opacity-50"
+              >
+                <Paperclip className="w-3 h-3" /> {isAttaching ? 'Hashing…' : 'Attach file'}
+              </button>
+              <input
+                className={inputClass}
+                placeholder="…or URL / document reference"
+                value={linkDraft}
+                onChange={(e) => setLinkDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addLink()}
+                onBlur={addLink}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-1">
+            <input
+              className={inputClass}
+              placeholder="Collected by"
+              value={evidence.collectedBy || ''}
+              onChange={(e) => onChange({ ...evidence, collectedBy: e.target.value || undefined })}
+            />
+            <input
+              type="date"
+              className={inputClass}
+              title="Collected on"
+              value={evidence.collectedAt || ''}
+              onChange={(e) => onChange({ ...evidence, collectedAt: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceItem;
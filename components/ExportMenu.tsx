@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+
+export interface ExportAction {
+  label: string;
+  description?: string;
+  onClick: () => void;
+}
+
+interface ExportMenuProps {
+  label: string;
+  onPrimaryClick: () => void;
+  actions: ExportAction[];
+}
+
+// Split button: primary action plus a dropdown of alternative save/export formats
+const ExportMenu: React.FC<ExportMenuProps> = ({ label, onPrimaryClick, actions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative flex">
+      <button 
+        onClick={onPrimaryClick}
+        className="px-4 py-2 bg-blue-600 text-white text-xs font-semibold rounded-l-lg shadow-md shadow-blue-600/20 hover:bg-blue-700 transition-all"
+      >
+        {label}
+      </button>
+      <button 
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-2 bg-blue-600 text-white rounded-r-lg border-l border-blue-500 shadow-md shadow-blue-600/20 hover:bg-blue-700 transition-all"
+        title="More save & export options"
+      >
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div role="dialog" className="absolute top-full right-0 mt-2 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 z-50 p-1.5 animate-in fade-in zoom-in duration-200">
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={() => { action.onClick(); setIsOpen(false); }}
+              className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50"
+            >
+              <div className="text-xs font-semibold text-slate-700">{action.label}</div>
+              {action.description && <div className="text-[10px] text-slate-400">{action.description}</div>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+import { X, History, Search, Plus, Repeat, ExternalLink, Target } from 'lucide-react';
+import { Cause, CauseStatus } from '../types';
+import { CAUSE_STATUS_LABELS } from '../constants';
+import {
+  FindingsIndex, FindingHit, FindingKind, clusterCauses, findSimilarFindings, searchFindings, suggestCauses
+} from '../services/findingsIndex';
+import { walkGraphCauses } from '../services/causeAssessment';
+import { findTopEvent, holdsCauses } from '../services/rcaMethods';
+
+interface PastFindingsPanelProps {
+  index: FindingsIndex;
+  nodes: Node[];
+  edges: Edge[];
+  onAddCause: (nodeId: string, cause: Cause) => void;
+  onOpenAnalysis: (id: string) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  problem: 'Problem',
+  cause: 'Cause',
+  evidence: 'Evidence'
+};
+
+const sectionTitle = 'text-[10px] font-bold text-slate-400 uppercase tracking-wide px-1 pt-2 flex items-center gap-1';
+
+// One past finding: what it says, and which analysis it is from
+const FindingRow: React.FC<{ hit: FindingHit; onOpenAnalysis: (id: string) => void }> = ({ hit: { finding }, onOpenAnalysis }) => (
+  <div className="border border-slate-200 rounded-lg p-2 text-xs">
+    <div className="flex items-start gap-1.5">
+      <span className="text-[9px] font-semibold uppercase text-slate-400 pt-0.5 shrink-0">{KIND_LABELS[finding.kind]}</span>
+      <span className="flex-1 text-slate-800 leading-snug">{finding.text}</span>
+      {finding.status === CauseStatus.ROOT_CAUSE && <Target className="w-3 h-3 text-red-500 shrink-0" />}
+    </div>
+    <button
+      onClick={() => onOpenAnalysis(finding.analysisId)}
+      title="Open this analysis"
+      className="mt-1 flex items-center gap-1 text-[10px] text-slate-400 hover:text-blue-600 max-w-full"
+    >
+      <ExternalLink className="w-2.5 h-2.5 shrink-0" />
+      <span className="truncate">
+        {finding.analysisName}
+        {finding.domain ? ` · ${finding.domain}` : ''}
+        {finding.causeName ? ` · supports "${finding.causeName}"` : ''}
+        {finding.status && finding.status !== CauseStatus.HYPOTHESIS ? ` · ${CAUSE_STATUS_LABELS[finding.status]}` : ''}
+      </span>
+    </button>
+  </div>
+);
+
+// Findings from the other saved analyses: search, what resembles this one, and causes that keep recurring
+const PastFindingsPanel: React.FC<PastFindingsPanelProps> = ({ index, nodes, edges, onAddCause, onOpenAnalysis, onClose }) => {
+  const [query, setQuery] = useState('');
+  const targets = nodes.filter(holdsCauses);
+  const [targetId, setTargetId] = useState<string>('');
+
+  const hits = useMemo(() => query.trim() ? searchFindings(index, query) : [], [index, query]);
+  const similar = useMemo(() => findSimilarFindings(index, nodes, edges), [index, nodes, edges]);
+  const clusters = useMemo(() => clusterCauses(index), [index]);
+  const suggestions = useMemo(() => {
+    const problem = findTopEvent(nodes);
+    const existing: string[] = [];
+    walkGraphCauses(nodes, edges, cause => existing.push(cause.name));
+    return suggestCauses(index, `${problem?.data.title || ''} ${problem?.data.description || ''}`, { existing, limit: 5 });
+  }, [index, nodes, edges]);
+
+  // A suggestion goes on the category it was usually recorded under, when this diagram has one
+  const addSuggestion = (name: string, domain: string | undefined, analysisNames: string[]) => {
+    const match = targets.find(n => domain && n.data.title?.toLowerCase() === domain.toLowerCase());
+    const nodeId = match?.id || targetId || targets[0]?.id;
+    if (!nodeId) return;
+    onAddCause(nodeId, {
+      id: uuidv4(),
+      name,
+      description: `Recurring finding from past analyses: ${analysisNames.join(', ')}`,
+      evidence: []
+    });
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div>
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <History className="w-3.5 h-3.5 text-indigo-500" /> Past Findings
+          </h3>
+          <p className="text-[10px] text-slate-400">
+            Across {index.analysisCount} other saved {index.analysisCount === 1 ? 'analysis' : 'analyses'}
+          </p>
+        </div>
+        <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-slate-100 shrink-0">
+        <div className="flex items-center gap-1.5 border border-slate-200 rounded-lg px-2 py-1 focus-within:border-indigo-300">
+          <Search className="w-3 h-3 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search problems, causes and evidence…"
+            className="flex-1 text-xs outline-none bg-transparent"
+          />
+          {query && <button onClick={() => setQuery('')}><X className="w-3 h-3 text-slate-400 hover:text-slate-600" /></button>}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1.5 scrollbar-thin">
+        {index.analysisCount === 0 ? (
+          <div className="text-xs text-slate-400 italic p-4 text-center">No other analyses saved yet. Findings from past investigations appear here.</div>
+        ) : query.trim() ? (
+          <>
+            {hits.length === 0 && <div className="text-xs text-slate-400 italic p-4 text-center">No past findings match "{query}".</div>}
+            {hits.map(hit => <FindingRow key={hit.finding.id} hit={hit} onOpenAnalysis={onOpenAnalysis} />)}
+          </>
+        ) : (
+          <>
+            {suggestions.length > 0 && (
+              <>
+                <div className={sectionTitle}>Candidate causes from similar problems</div>
+                {targets.length > 1 && (
+                  <select
+                    value={targetId}
+                    onChange={(e) => setTargetId(e.target.value)}
+                    title="For suggestions recorded under a category this diagram does not have"
+                    className="w-full text-[10px] border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                  >
+                    {targets.map(n => <option key={n.id} value={n.id}>Add to {n.data.title}</option>)}
+                  </select>
+                )}
+                {suggestions.map(s => (
+                  <div key={s.name} className="border border-indigo-100 bg-indigo-50/40 rounded-lg p-2 text-xs flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-slate-800 leading-snug">{s.name}</div>
+                      <div className="text-[10px] text-slate-400 truncate" title={s.analysisNames.join(', ')}>
+                        {s.analysisNames.length} {s.analysisNames.length === 1 ? 'analysis' : 'analyses'}
+                        {s.rootCauseCount ? ` · root cause ${s.rootCauseCount}×` : ''}
+                        {s.domain ? ` · ${s.domain}` : ''}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => addSuggestion(s.name, s.domain, s.analysisNames)}
+                      disabled={targets.length === 0}
+                      title="Add as a hypothesis to this analysis"
+                      className="p-1 rounded text-indigo-500 hover:bg-indigo-100 disabled:opacity-40"
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </>
+            )}
+
+            {similar.problems.length > 0 && (
+              <>
+                <div className={sectionTitle}>Similar problems</div>
+                {similar.problems.map(hit => <FindingRow key={hit.finding.id} hit={hit} onOpenAnalysis={onOpenAnalysis} />)}
+              </>
+            )}
+
+            {similar.causes.length > 0 && (
+              <>
+                <div className={sectionTitle}>Your causes, seen before</div>
+                {similar.causes.map(({ causeId, causeName, matches }) => (
+                  <div key={causeId} className="space-y-1">
+                    <div className="text-[11px] font-medium text-slate-700 px-1">{causeName}</div>
+                    {matches.slice(0, 3).map(hit => <FindingRow key={hit.finding.id} hit={hit} onOpenAnalysis={onOpenAnalysis} />)}
+                  </div>
+                ))}
+              </>
+            )}
+
+            <div className={sectionTitle}><Repeat className="w-3 h-3" /> Recurring causes</div>
+            {clusters.length === 0 && (
+              <div className="text-xs text-slate-400 italic px-1">No cause appears in more than one past analysis yet.</div>
+            )}
+            {clusters.slice(0, 10).map(cluster => (
+              <details key={cluster.id} className="border border-slate-200 rounded-lg text-xs group">
+                <summary className="p-2 cursor-pointer list-none flex items-start gap-2">
+                  <span className="flex-1 text-slate-800 leading-snug">{cluster.label}</span>
+                  <span className="text-[10px] font-semibold text-indigo-600 shrink-0">{cluster.analysisIds.length} analyses</span>
+                </summary>
+                <div className="px-2 pb-2 space-y-0.5">
+                  {cluster.rootCauseCount > 0 && (
+                    <div className="text-[10px] text-red-600">Confirmed root cause {cluster.rootCauseCount}×</div>
+                  )}
+                  {cluster.members.map(m => (
+                    <button
+                      key={m.id}
+                      onClick={() => onOpenAnalysis(m.analysisId)}
+                      className="block w-full text-left text-[10px] text-slate-500 hover:text-blue-600 truncate"
+                      title="Open this analysis"
+                    >
+                      “{m.text}” — {m.analysisName}
+                    </button>
+                  ))}
+                </div>
+              </details>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PastFindingsPanel;
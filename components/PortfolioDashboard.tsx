@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BarChart, Bar, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { X, BarChart3, Download, Loader2 } from 'lucide-react';
+import { AnalysisRecord } from '../types';
+import { listAnalysisRecords } from '../services/storage';
+import {
+  CategoryTrendRow, PortfolioFilter, TrendChart, TREND_CHART_TITLES, buildPortfolioTrends, businessUnitOf, filterAnalyses,
+  portfolioCsv, templateOf, trendTableCsv
+} from '../services/portfolioTrends';
+import { downloadText, dateStamp } from '../services/download';
+
+interface PortfolioDashboardProps {
+  onClose: () => void;
+}
+
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#f59e0b', '#10b981', '#8b5cf6', '#ec4899', '#94a3b8'];
+const AXIS_TICK = { fontSize: 10, fill: '#64748b' };
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 11 };
+const LEGEND_STYLE = { fontSize: 10 };
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const ChartCard: React.FC<{ title: string; hint: string; empty: boolean; onExport: () => void; children: React.ReactNode }> = ({
+  title, hint, empty, onExport, children
+}) => (
+  <div className="bg-white rounded-lg border border-slate-200 p-4 flex flex-col min-h-0">
+    <div className="flex items-start justify-between mb-2">
+      <div>
+        <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide">{title}</h4>
+        <p className="text-[10px] text-slate-400">{hint}</p>
+      </div>
+      <button onClick={onExport} disabled={empty} title="Download this chart's data as CSV" className="text-[10px] font-semibold text-slate-500 hover:text-blue-600 flex items-center gap-1 disabled:opacity-40">
+        <Download className="w-3 h-3" /> CSV
+      </button>
+    </div>
+    <div className="flex-1 min-h-[14rem]">
+      {empty ? (
+        <div className="h-full flex items-center justify-center text-xs text-slate-400 italic">No data for this selection</div>
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">{children}</ResponsiveContainer>
+      )}
+    </div>
+  </div>
+);
+
+// Trends across all saved analyses, filtered by business unit, template and when they were opened
+const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<AnalysisRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<PortfolioFilter>({});
+
+  useEffect(() => {
+    listAnalysisRecords()
+      .then(setRecords)
+      .catch(e => {
+        console.error("Portfolio load failed:", e);
+        setError('Saved analyses could not be read.');
+      });
+  }, []);
+
+  const units = useMemo(() => [...new Set((records || []).map(businessUnitOf))].sort(), [records]);
+  const templates = useMemo(() => [...new Set((records || []).map(templateOf))].sort(), [records]);
+  const trends = useMemo(() => buildPortfolioTrends(filterAnalyses(records || [], filter)), [records, filter]);
+
+  const set = <K extends keyof PortfolioFilter>(key: K, value: PortfolioFilter[K]) =>
+    setFilter({ ...filter, [key]: value || undefined });
+
+  const exportChart = (chart: TrendChart) =>
+    downloadText(trendTableCsv(trends, chart), `rca-${slug(TREND_CHART_TITLES[chart])}-${dateStamp()}.csv`, 'text/csv');
+  const exportAll = () =>
+    downloadText(portfolioCsv(trends, filter), `rca-portfolio-trends-${dateStamp()}.csv`, 'text/csv');
+
+  const evidenced = trends.evidenceCoverage.reduce((sum, r) => sum + r.withEvidence, 0);
+  const openActions = trends.actionStatus.reduce((sum, r) => sum + r.open + r.overdue, 0);
+  const overdueActions = trends.actionStatus.reduce((sum, r) => sum + r.overdue, 0);
+  const closedActions = trends.actionStatus.reduce((sum, r) => sum + r.closed, 0);
+  const tiles = [
+    { label: 'Analyses', value: trends.analyses },
+    { label: 'Root causes', value: trends.rootCauses },
+    { label: 'Causes with evidence', value: trends.causes ? `${Math.round((evidenced / trends.causes) * 100)}%` : '–' },
+    { label: 'Open actions', value: overdueActions ? `${openActions} (${overdueActions} overdue)` : openActions },
+    { label: 'Closed actions', value: closedActions },
+  ];
+
+  const selectClass = 'text-xs border border-slate-200 rounded px-2 py-1 text-slate-700 bg-white';
+
+  return (
+    <div role="dialog" aria-modal="true" className="fixed inset-0 bg-slate-900/30 z-[100] flex items-center justify-center" onClick={onClose}>
+      <div className="w-[min(1100px,95vw)] h-[90vh] bg-slate-50 rounded-xl shadow-2xl border border-slate-200 flex flex-col animate-in fade-in zoom-in duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-5 py-3 bg-white rounded-t-xl border-b border-slate-200 shrink-0">
+          <div>
+            <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><BarChart3 className="w-4 h-4 text-blue-500" /> Portfolio Trends</h3>
+            <p className="text-[10px] text-slate-400">Across the analyses saved in this browser, by the month they were opened</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={exportAll}
+              disabled={!records || trends.analyses === 0}
+              className="px-3 py-1.5 text-xs font-semibold rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 flex items-center gap-1.5 disabled:opacity-40"
+              title="All chart data in one CSV, for the audit committee pack"
+            >
+              <Download className="w-3.5 h-3.5" /> Export CSV
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 px-5 py-3 border-b border-slate-200 bg-white shrink-0">
+          <label className="flex flex-col gap-0.5 text-[10px] font-semibold text-slate-500 uppercase">
+            Business unit
+            <select value={filter.businessUnit || ''} onChange={(e) => set('businessUnit', e.target.value)} className={selectClass}>
+              <option value="">All</option>
+              {units.map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-0.5 text-[10px] font-semibold text-slate-500 uppercase">
+            Template
+            <select value={filter.template || ''} onChange={(e) => set('template', e.target.value)} className={selectClass}>
+              <option value="">All</option>
+              {templates.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-0.5 text-[10px] font-semibold text-slate-500 uppercase">
+            Opened from
+            <input type="date" value={filter.from || ''} onChange={(e) => set('from', e.target.value)} className={selectClass} />
+          </label>
+          <label className="flex flex-col gap-0.5 text-[10px] font-semibold text-slate-500 uppercase">
+            To
+            <input type="date" value={filter.to || ''} onChange={(e) => set('to', e.target.value)} className={selectClass} />
+          </label>
+          {Object.keys(filter).some(key => filter[key as keyof PortfolioFilter]) && (
+            <button onClick={() => setFilter({})} className="text-[11px] font-semibold text-blue-600 hover:text-blue-800 pb-1">Clear filters</button>
+          )}
+        </div>
+
+        {error ? (
+          <div className="flex-1 flex items-center justify-center text-xs text-red-600">{error}</div>
+        ) : !records ? (
+          <div className="flex-1 flex items-center justify-center text-xs text-slate-400 gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Loading analyses…</div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-5 space-y-4 scrollbar-thin">
+            <div className="grid grid-cols-5 gap-3">
+              {tiles.map(tile => (
+                <div key={tile.label} className="bg-white rounded-lg border border-slate-200 px-3 py-2">
+                  <div className="text-[10px] font-bold text-slate-400 uppercase">{tile.label}</div>
+                  <div className="text-lg font-semibold text-slate-700">{tile.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <ChartCard
+                title={TREND_CHART_TITLES.rootCausesByCategory}
+                hint="Causes confirmed as root causes, by the category or event they sit on"
+                empty={trends.rootCauses === 0}
+                onExport={() => exportChart('rootCausesByCategory')}
+              >
+                <BarChart data={trends.rootCausesByCategory} margin={{ top: 5, right: 10, bottom: 5, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="period" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} />
+                  <Legend wrapperStyle={LEGEND_STYLE} />
+                  {trends.categories.map((series, i) => (
+                    // Category titles can contain dots, which a string dataKey would read as a path
+                    <Bar key={series.key} dataKey={(row: CategoryTrendRow) => row.counts[series.key]} name={series.label} stackId="root" fill={SERIES_COLORS[i % SERIES_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ChartCard>
+
+              <ChartCard
+                title={TREND_CHART_TITLES.frequentFactors}
+                hint="Similarly worded causes grouped across analyses"
+                empty={trends.frequentFactors.length === 0}
+                onExport={() => exportChart('frequentFactors')}
+              >
+                <BarChart data={trends.frequentFactors} layout="vertical" margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+                  <XAxis type="number" allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="factor"
+                    width={150}
+                    tick={AXIS_TICK}
+                    axisLine={false}
+                    tickLine={false}
+                    tickFormatter={(value: string) => value.length > 28 ? `${value.slice(0, 27)}…` : value}
+                  />
+                  <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} />
+                  <Legend wrapperStyle={LEGEND_STYLE} />
+                  <Bar dataKey="analyses" name="Analyses" fill="#3b82f6" radius={[0, 4, 4, 0]} />
+                  <Bar dataKey="rootCauses" name="Confirmed root cause" fill="#ef4444" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartCard>
+
+              <ChartCard
+                title={TREND_CHART_TITLES.evidenceCoverage}
+                hint="Causes still in play, with and without at least one evidence item"
+                empty={trends.causes === 0}
+                onExport={() => exportChart('evidenceCoverage')}
+              >
+                <ComposedChart data={trends.evidenceCoverage} margin={{ top: 5, right: 0, bottom: 5, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="period" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis yAxisId="count" allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis yAxisId="share" orientation="right" domain={[0, 100]} tick={AXIS_TICK} axisLine={false} tickLine={false} tickFormatter={(value: number) => `${value}%`} />
+                  <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} />
+                  <Legend wrapperStyle={LEGEND_STYLE} />
+                  <Bar yAxisId="count" dataKey="withEvidence" name="With evidence" stackId="causes" fill="#10b981" />
+                  <Bar yAxisId="count" dataKey="withoutEvidence" name="Without evidence" stackId="causes" fill="#cbd5e1" />
+                  <Line yAxisId="share" dataKey="share" name="Share with evidence (%)" stroke="#0f766e" strokeWidth={2} dot={{ r: 3 }} />
+                </ComposedChart>
+              </ChartCard>
+
+              <ChartCard
+                title={TREND_CHART_TITLES.actionStatus}
+                hint="Corrective and preventive actions; closed means implemented or verified"
+                empty={openActions + closedActions === 0}
+                onExport={() => exportChart('actionStatus')}
+              >
+                <BarChart data={trends.actionStatus} margin={{ top: 5, right: 10, bottom: 5, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="period" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} />
+                  <Legend wrapperStyle={LEGEND_STYLE} />
+                  <Bar dataKey="closed" name="Closed" stackId="actions" fill="#10b981" />
+                  <Bar dataKey="open" name="Open" stackId="actions" fill="#3b82f6" />
+                  <Bar dataKey="overdue" name="Overdue" stackId="actions" fill="#ef4444" />
+                </BarChart>
+              </ChartCard>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioDashboard;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Check, X, Plus, Minus, PenLine, ShieldCheck } from 'lucide-react';
+import { ChangeKind, ChangeProposal, DiffEntry, ProposalStatus } from '../types';
+
+interface ProposalReviewProps {
+  proposal: ChangeProposal;
+  onApply: (acceptedIds: string[]) => void;
+  onReject: () => void;
+}
+
+const kindStyles: Record<ChangeKind, { icon: React.ReactNode; className: string }> = {
+  [ChangeKind.ADDED]: { icon: <Plus className="w-3 h-3" />, className: 'text-emerald-700 bg-emerald-50' },
+  [ChangeKind.CHANGED]: { icon: <PenLine className="w-3 h-3" />, className: 'text-amber-700 bg-amber-50' },
+  [ChangeKind.REMOVED]: { icon: <Minus className="w-3 h-3" />, className: 'text-red-700 bg-red-50 line-through' },
+};
+
+const entityLabel: Record<DiffEntry['entity'], string> = {
+  node: 'Node',
+  edge: 'Link',
+  cause: 'Cause',
+  evidence: 'Evidence',
+  action: 'Action',
+};
+
+const DiffLine: React.FC<{ entry: DiffEntry }> = ({ entry }) => {
+  const style = kindStyles[entry.kind];
+  return (
+    <div className={`text-[10px] rounded px-1.5 py-0.5 ${style.className}`}>
+      <div className="flex items-center gap-1.5">
+        {style.icon}
+        <span className="font-semibold uppercase text-[9px] opacity-70">{entityLabel[entry.entity]}</span>
+        <span className="truncate">{entry.label}</span>
+        {entry.detail && <span className="opacity-60 truncate no-underline">({entry.detail})</span>}
+      </div>
+      {entry.quote && <div className="pl-[18px] italic opacity-80 line-clamp-3">“{entry.quote}”</div>}
+    </div>
+  );
+};
+
+// Diff of assistant-proposed diagram changes, shown inside the chat message
+const ProposalReview: React.FC<ProposalReviewProps> = ({ proposal, onApply, onReject }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(proposal.changes.map(c => c.id)));
+  const isPending = proposal.status === ProposalStatus.PENDING;
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelected(next);
+  };
+
+  const isAccepted = (id: string) =>
+    isPending ? selected.has(id) : proposal.status === ProposalStatus.APPLIED && !!proposal.acceptedIds?.includes(id);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-2 space-y-2">
+      <div className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase">
+        <ShieldCheck className="w-3 h-3 text-blue-500" />
+        Proposed Diagram Changes
+        {!isPending && (
+          <span className={`ml-auto normal-case font-semibold ${proposal.status === ProposalStatus.APPLIED ? 'text-emerald-600' : 'text-red-500'}`}>
+            {proposal.status === ProposalStatus.APPLIED
+              ? `Applied ${proposal.acceptedIds?.length || 0} of ${proposal.changes.length}`
+              : 'Rejected'}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {proposal.changes.map(change => (
+          <label
+            key={change.id}
+            className={`flex items-start gap-2 p-1.5 rounded border ${isAccepted(change.id) ? 'border-blue-100' : 'border-slate-100 opacity-50'} ${isPending ? 'cursor-pointer' : ''}`}
+          >
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={isAccepted(change.id)}
+              disabled={!isPending}
+              onChange={() => toggle(change.id)}
+            />
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <div className="text-[11px] text-slate-700 font-medium">{change.summary}</div>
+              {change.diff.map((entry, i) => <DiffLine key={i} entry={entry} />)}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {isPending && (
+        <div className="flex gap-1.5 pt-1 border-t border-slate-100">
+          <button
+            onClick={onReject}
+            className="flex items-center gap-1 text-[11px] px-2 py-1 rounded-md border border-red-100 bg-red-50 text-red-600 hover:bg-red-100"
+          >
+            <X className="w-3 h-3" /> Reject
+          </button>
+          <button
+            onClick={() => onApply([...selected])}
+            disabled={selected.size === 0}
+            className="flex items-center gap-1 text-[11px] px-2 py-1 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            Accept selected ({selected.size})
+          </button>
+          <button
+            onClick={() => onApply(proposal.changes.map(c => c.id))}
+            className="ml-auto flex items-center gap-1 text-[11px] px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <Check className="w-3 h-3" /> Accept all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProposalReview;
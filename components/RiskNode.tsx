@@ -1,9 +1,47 @@
 
-import React, { useState, memo, useEffect } from 'react';
+import React, { useState, memo, useEffect, useContext } from 'react';
 import { Handle, Position } from 'reactflow';
-import { ProcessNodeData, Cause, Evidence, NodeType } from '../types';
-import { Layout, X, Trash2, HelpCircle, Plus, FileText, ChevronDown, ChevronRight, GitCommit, Disc } from 'lucide-react';
+import { ProcessNodeData, Cause, CauseStatus, Evidence, EvidenceSufficiency, NodeType, GateType, BarrierType } from '../types';
+import { Layout, X, Trash2, HelpCircle, Plus, FileText, ChevronDown, ChevronRight, GitCommit, Disc, CornerDownRight, Target, Paperclip, ListOrdered, TriangleAlert, Shield, Flame, Zap, CircleDot, Quote } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { findCause, flattenCauses, getSubCauses } from '../services/causeTree';
+import { summarizeCauseActions } from '../services/correctiveActions';
+import { getCauseStatus } from '../services/causeAssessment';
+import { assessSufficiency } from '../services/evidenceSufficiency';
+import { SUFFICIENCY_LABELS } from '../constants';
+import { CauseAssessmentFields, CauseStatusBadge, SufficiencyBadge } from './CauseAssessment';
+import EvidenceItem from './EvidenceItem';
+import { ActionPlanContext, CauseActionMarker } from './ActionPlanPanel';
+import { openSourcePassage } from './SourcePassagePanel';
+
+const isRootCause = (c: Cause) => getCauseStatus(c) === CauseStatus.ROOT_CAUSE;
+
+const SUFFICIENCY_DOTS: Record<EvidenceSufficiency, string> = {
+  [EvidenceSufficiency.NONE]: 'text-slate-400',
+  [EvidenceSufficiency.WEAK]: 'text-amber-500',
+  [EvidenceSufficiency.ADEQUATE]: 'text-blue-500',
+  [EvidenceSufficiency.STRONG]: 'text-emerald-500'
+};
+
+// Fault tree and bow-tie nodes are cards too, told apart by a type label and accent
+const NODE_KINDS: Partial<Record<NodeType, { label: string; icon: React.ElementType; card: string; text: string }>> = {
+  [NodeType.EVENT]: { label: 'Event', icon: Zap, card: 'border-amber-300', text: 'text-amber-700' },
+  [NodeType.BASIC_EVENT]: { label: 'Basic event', icon: CircleDot, card: 'border-amber-300 rounded-2xl', text: 'text-amber-700' },
+  [NodeType.THREAT]: { label: 'Threat', icon: TriangleAlert, card: 'border-orange-300', text: 'text-orange-700' },
+  [NodeType.BARRIER]: { label: 'Barrier', icon: Shield, card: 'border-emerald-300 border-l-4', text: 'text-emerald-700' },
+  [NodeType.CONSEQUENCE]: { label: 'Consequence', icon: Flame, card: 'border-purple-300', text: 'text-purple-700' }
+};
+
+const BARRIER_LABELS: Record<BarrierType, string> = {
+  [BarrierType.PREVENTIVE]: 'Preventive barrier',
+  [BarrierType.MITIGATIVE]: 'Mitigative barrier'
+};
+
+const kindLabel = (data: ProcessNodeData) =>
+  data.type === NodeType.BARRIER && data.barrier ? BARRIER_LABELS[data.barrier] : NODE_KINDS[data.type]?.label;
+
+// Asks the canvas to show the 5 Whys ladder for a cause
+const openWhyLadder = (causeId: string) => window.dispatchEvent(new CustomEvent('open-why-ladder', { detail: { causeId } }));
 
 interface ProcessNodeProps {
   id: string;
@@ -14,12 +52,18 @@ interface CauseEditItemProps {
   cause: Cause;
   onChange: (r: Cause) => void;
   onDelete: () => void;
+  depth?: number;
+  defaultExpanded?: boolean;
 }
 
-// Helper to render a single cause item in the edit list
-const CauseEditItem: React.FC<CauseEditItemProps> = ({ cause, onChange, onDelete }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
+// Helper to render a single cause item in the edit list.
+// Recurses into sub-causes so the whole 5 Whys chain is editable in place.
+export const CauseEditItem: React.FC<CauseEditItemProps> = ({ cause, onChange, onDelete, depth = 0, defaultExpanded = false }) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
   const [newEvidenceName, setNewEvidenceName] = useState('');
+  const [newSubCauseName, setNewSubCauseName] = useState('');
+
+  const subCauses = getSubCauses(cause);
 
   const addEvidence = () => {
     if (!newEvidenceName.trim()) return;
@@ -28,35 +72,92 @@ const CauseEditItem: React.FC<CauseEditItemProps> = ({ cause, onChange, onDelete
     setNewEvidenceName('');
   };
 
+  const updateEvidence = (updated: Evidence) => {
+    onChange({ ...cause, evidence: cause.evidence.map(ev => ev.id === updated.id ? updated : ev) });
+  };
+
   const deleteEvidence = (evId: string) => {
     onChange({ ...cause, evidence: cause.evidence.filter(c => c.id !== evId) });
   };
 
+  const addSubCause = () => {
+    if (!newSubCauseName.trim()) return;
+    const newSubCause: Cause = { id: uuidv4(), name: newSubCauseName, evidence: [] };
+    onChange({ ...cause, subCauses: [...subCauses, newSubCause] });
+    setNewSubCauseName('');
+  };
+
+  const updateSubCause = (updated: Cause) => {
+    onChange({ ...cause, subCauses: subCauses.map(c => c.id === updated.id ? updated : c) });
+  };
+
+  const deleteSubCause = (subId: string) => {
+    onChange({ ...cause, subCauses: subCauses.filter(c => c.id !== subId) });
+  };
+
   return (
-    <div className="border border-slate-200 rounded-lg p-2 bg-slate-50">
+    <div className={`border border-slate-200 rounded-lg p-2 ${depth % 2 === 0 ? 'bg-slate-50' : 'bg-white'}`}>
       <div className="flex items-center gap-2 mb-2">
         <button onClick={() => setIsExpanded(!isExpanded)} className="text-slate-400 hover:text-slate-600">
           {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
         </button>
-        <GitCommit className="w-3 h-3 text-red-500 shrink-0" />
+        {depth === 0 
+          ? <GitCommit className="w-3 h-3 text-red-500 shrink-0" />
+          : <CornerDownRight className="w-3 h-3 text-orange-500 shrink-0" />}
         <input 
           className="flex-1 text-xs bg-transparent border-b border-transparent focus:border-blue-300 focus:outline-none"
           value={cause.name}
           onChange={(e) => onChange({ ...cause, name: e.target.value })}
-          placeholder="Factor / Cause"
+          placeholder={depth === 0 ? "Factor / Cause" : "Why?"}
         />
+        <CauseStatusBadge cause={cause} hideHypothesis />
+        <SufficiencyBadge cause={cause} />
+        {subCauses.length > 0 && (
+          <span className="text-[9px] bg-orange-100 text-orange-600 px-1 rounded" title="Sub-causes">{subCauses.length}</span>
+        )}
+        <button onClick={() => openWhyLadder(cause.id)} title="Show as 5 Whys ladder" className="text-slate-400 hover:text-orange-500"><ListOrdered className="w-3 h-3" /></button>
         <button onClick={onDelete} className="text-slate-400 hover:text-red-500"><X className="w-3 h-3" /></button>
       </div>
       
       {isExpanded && (
         <div className="pl-6 space-y-2">
+          <div className="text-[9px] font-bold text-slate-400 uppercase">Assessment</div>
+          <CauseAssessmentFields cause={cause} onChange={onChange} />
+
+          {/* Why-chain (sub-causes) */}
+          <div className="text-[9px] font-bold text-slate-400 uppercase">Why? (Sub-causes)</div>
+          <div className="space-y-1">
+            {subCauses.map(sub => (
+              <CauseEditItem 
+                key={sub.id}
+                cause={sub}
+                depth={depth + 1}
+                onChange={updateSubCause}
+                onDelete={() => deleteSubCause(sub.id)}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <input 
+              className="flex-1 text-[10px] border border-slate-200 rounded px-1 py-0.5"
+              placeholder="Add why..."
+              value={newSubCauseName}
+              onChange={(e) => setNewSubCauseName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addSubCause()}
+            />
+            <button onClick={addSubCause} className="bg-orange-100 hover:bg-orange-200 text-orange-600 rounded px-1.5"><Plus className="w-3 h-3" /></button>
+          </div>
+
+          {/* Supporting artifacts */}
+          <div className="text-[9px] font-bold text-slate-400 uppercase">Evidence</div>
           <div className="space-y-1">
             {cause.evidence.map(ev => (
-              <div key={ev.id} className="flex items-center gap-2 text-[10px] text-slate-600 bg-white border border-slate-100 px-2 py-1 rounded">
-                <FileText className="w-3 h-3 text-blue-500 shrink-0" />
-                <span className="flex-1 truncate">{ev.name}</span>
-                <button onClick={() => deleteEvidence(ev.id)} className="text-slate-300 hover:text-red-400"><X className="w-3 h-3" /></button>
-              </div>
+              <EvidenceItem 
+                key={ev.id}
+                evidence={ev}
+                onChange={updateEvidence}
+                onDelete={() => deleteEvidence(ev.id)}
+              />
             ))}
           </div>
           <div className="flex gap-1">
@@ -75,24 +176,56 @@ const CauseEditItem: React.FC<CauseEditItemProps> = ({ cause, onChange, onDelete
   );
 };
 
+// Read-only rendering of the why-chain inside the card tooltip
+const WhyChain: React.FC<{ causes: Cause[] }> = ({ causes }) => (
+  <div className="space-y-0.5">
+    {causes.map(c => (
+      <div key={c.id}>
+        <div className="flex items-start gap-1">
+          <CornerDownRight className="w-3 h-3 text-orange-300 shrink-0 top-0.5 relative" />
+          <span className={getCauseStatus(c) === CauseStatus.REJECTED ? 'line-through opacity-60' : ''}>{c.name}</span>
+          {isRootCause(c) && <Target className="w-3 h-3 text-red-300 shrink-0 top-0.5 relative" />}
+        </div>
+        {getSubCauses(c).length > 0 && (
+          <div className="pl-3">
+            <WhyChain causes={getSubCauses(c)} />
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
 // Use memo to prevent unnecessary re-renders in React Flow
 const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
   const [isEditing, setIsEditing] = useState(false);
+  const actions = useContext(ActionPlanContext);
   
   // Edit State
   const [tempTitle, setTempTitle] = useState(data.title);
+  const [tempDescription, setTempDescription] = useState(data.description || '');
   const [tempCauses, setTempCauses] = useState<Cause[]>(data.causes || []);
   const [newCauseName, setNewCauseName] = useState('');
 
   // Sync local state with props when they change
   useEffect(() => {
     setTempTitle(data.title);
+    setTempDescription(data.description || '');
     setTempCauses(data.causes || []);
-  }, [data.title, data.causes]);
+  }, [data.title, data.description, data.causes]);
+
+  // The toolbar and keyboard shortcuts open a node's editor through a window event
+  useEffect(() => {
+    const handleOpenEditor = (e: Event) => {
+      if ((e as CustomEvent).detail.id === id) setIsEditing(true);
+    };
+    window.addEventListener('node-edit', handleOpenEditor);
+    return () => window.removeEventListener('node-edit', handleOpenEditor);
+  }, [id]);
 
   const handleSave = () => {
     if (data.onEdit) {
-      data.onEdit(id, { title: tempTitle, causes: tempCauses });
+      data.onEdit(id, { title: tempTitle, description: tempDescription, causes: tempCauses });
     }
     setIsEditing(false);
   };
@@ -114,6 +247,9 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
 
   const isProblemNode = data.type === NodeType.PROBLEM || data.id === 'problem';
   const isSpineNode = data.type === NodeType.SPINE;
+  const holdsRootCause = !!findCause(data.causes || [], isRootCause);
+  const kind = NODE_KINDS[data.type];
+  const KindIcon = kind?.icon || Layout;
 
   // --- SPINE NODE RENDERING ---
   if (isSpineNode) {
@@ -132,11 +268,34 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
     );
   }
 
+  // --- GATE RENDERING (fault tree) ---
+  // Double-click switches between AND and OR
+  if (data.type === NodeType.GATE) {
+    const gate = data.gate || GateType.OR;
+    const toggled = gate === GateType.AND ? GateType.OR : GateType.AND;
+    return (
+      <div
+        onDoubleClick={() => data.onEdit?.(id, { gate: toggled, title: toggled })}
+        title={`${gate} gate: ${gate === GateType.AND ? 'every input must occur' : 'any input is enough'}. Double-click to switch to ${toggled}`}
+        className={`relative w-16 h-12 flex items-center justify-center border-2 bg-white shadow-sm cursor-pointer select-none
+          ${gate === GateType.AND ? 'border-slate-600 rounded-t-full' : 'border-indigo-500 rounded-t-[50%_100%]'}`}
+      >
+        <Handle type="target" position={Position.Left} className="!w-2 !h-2 !opacity-0" />
+        <Handle type="target" position={Position.Bottom} id="tree-in" className="!w-2 !h-2 !opacity-0" />
+        <Handle type="source" position={Position.Top} id="top" className="!w-2 !h-2 !opacity-0" />
+        <Handle type="source" position={Position.Right} id="right" className="!w-2 !h-2 !opacity-0" />
+        <span className={`text-xs font-bold pt-2 ${gate === GateType.AND ? 'text-slate-700' : 'text-indigo-600'}`}>{gate}</span>
+      </div>
+    );
+  }
+
   // --- STANDARD CARD RENDERING ---
   return (
     <>
       {/* Handles for Flow Connections */}
       <Handle type="target" position={Position.Left} className="!w-3 !h-3 !opacity-0 hover:!opacity-100 !bg-slate-400 !-ml-1.5 hover:!bg-blue-500 transition-all" />
+      {/* Fault tree inputs arrive from below */}
+      <Handle type="target" position={Position.Bottom} id="tree-in" className="!w-3 !h-3 !opacity-0 !-mb-1.5" />
       
       {/* Handles for Fishbone Ribs (Top/Bottom Source) - Make transparent/invisible by default to hide "point" */}
       <Handle type="source" position={Position.Bottom} id="bottom" className="!w-3 !h-3 !opacity-0 hover:!opacity-100 !bg-slate-400 !-mb-1.5 hover:!bg-blue-500 transition-all" />
@@ -147,7 +306,7 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
         {isEditing && (
           <div className="absolute top-full left-0 mt-2 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-50 p-4 animate-in fade-in zoom-in duration-200 cursor-default max-h-[400px] flex flex-col">
             <div className="flex justify-between items-center mb-3 shrink-0">
-              <h4 className="text-xs font-bold text-slate-400 uppercase">{isProblemNode ? "Edit Problem" : "Edit Category"}</h4>
+              <h4 className="text-xs font-bold text-slate-400 uppercase">{isProblemNode ? "Edit Problem" : `Edit ${kindLabel(data) || 'Category'}`}</h4>
               <button onClick={() => setIsEditing(false)}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
             </div>
             
@@ -164,6 +323,17 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
                 />
               </div>
 
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Description</label>
+                <textarea
+                  value={tempDescription}
+                  onChange={(e) => setTempDescription(e.target.value)}
+                  rows={isProblemNode ? 4 : 2}
+                  placeholder={isProblemNode ? 'What happened, where and when, and its impact' : 'Optional'}
+                  className="w-full text-xs border border-slate-200 rounded px-2 py-1.5 text-slate-700 resize-none focus:outline-none focus:border-blue-500"
+                />
+              </div>
+
               {/* Causes Section */}
               {!isProblemNode && (
                 <div>
@@ -222,15 +392,20 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
             select-none min-h-[70px]
             ${isProblemNode 
               ? 'bg-red-50 border-2 border-red-400 text-red-900 shadow-red-100' 
-              : 'bg-white border border-slate-300 hover:border-blue-400'}
+              : holdsRootCause
+                ? 'bg-white border-2 border-red-400 ring-2 ring-red-100'
+                : `bg-white border hover:border-blue-400 ${kind ? kind.card : 'border-slate-300'}`}
           `}
         >
+          {kind && (
+            <span className={`text-[9px] font-semibold uppercase tracking-wider -mb-1.5 ${kind.text}`}>{kindLabel(data)}</span>
+          )}
           <div className="flex items-start justify-between gap-2">
-            <span className={`font-bold text-sm leading-snug line-clamp-2 ${isProblemNode ? 'text-red-800 text-base uppercase' : 'text-blue-700 uppercase tracking-wide'}`}>
+            <span className={`font-bold text-sm leading-snug line-clamp-2 ${isProblemNode ? 'text-red-800 text-base uppercase' : kind ? 'text-slate-800' : 'text-blue-700 uppercase tracking-wide'}`}>
               {data.title}
             </span>
             {isProblemNode && <HelpCircle className="w-4 h-4 text-red-400 shrink-0" />}
-            {!isProblemNode && <Layout className="w-4 h-4 text-slate-300 shrink-0" />}
+            {!isProblemNode && <KindIcon className={`w-4 h-4 shrink-0 ${kind ? kind.text : 'text-slate-300'}`} />}
           </div>
           
           {data.description && (
@@ -239,17 +414,39 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
              </div>
           )}
           
-          {/* Cause Indicators */}
-          {data.causes && data.causes.length > 0 && (
+          {/* Cause Indicators (the bone view draws them on the rib instead) */}
+          {!data.compact && data.causes && data.causes.length > 0 && (
             <div className="flex flex-col gap-1 mt-2 border-t border-dashed border-slate-200 pt-2">
               {data.causes.map((cause) => {
                 const hasEvidence = cause.evidence && cause.evidence.length > 0;
+                const sufficiency = assessSufficiency(cause);
+                const subCauses = getSubCauses(cause);
+                const isRejected = getCauseStatus(cause) === CauseStatus.REJECTED;
+                const chainHoldsRootCause = !isRootCause(cause) && !!findCause(subCauses, isRootCause);
+                const actionSummary = summarizeCauseActions(actions, flattenCauses([cause]).map(c => c.id));
+                // Jumps to the first passage any evidence in the why-chain cites
+                const cited = flattenCauses([cause]).flatMap(c => c.evidence).find(ev => ev.citations?.length);
                 return (
                   <div key={cause.id} className="group/tooltip relative flex items-center gap-1.5">
                     <Disc 
-                      className={`w-2 h-2 ${hasEvidence ? 'text-blue-500' : 'text-slate-400'} shrink-0`} 
+                      className={`w-2 h-2 ${isRootCause(cause) ? 'text-red-500' : SUFFICIENCY_DOTS[sufficiency.level]} shrink-0`} 
                     />
-                    <span className="text-[11px] text-slate-700 truncate font-medium">{cause.name}</span>
+                    <span className={`text-[11px] truncate font-medium ${isRejected ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{cause.name}</span>
+                    <CauseStatusBadge cause={cause} hideHypothesis />
+                    {chainHoldsRootCause && <Target className="w-3 h-3 text-red-500 shrink-0" title="Root cause in this why-chain" />}
+                    {actionSummary && <CauseActionMarker summary={actionSummary} />}
+                    {cited && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); openSourcePassage({ citation: cited.citations![0], evidenceName: cited.name }); }}
+                        className="nodrag shrink-0 text-amber-500 hover:text-amber-700"
+                        title={`Show the cited passage: ${cited.name}`}
+                      >
+                        <Quote className="w-3 h-3" />
+                      </button>
+                    )}
+                    {subCauses.length > 0 && (
+                      <span className="text-[9px] text-orange-500 font-semibold shrink-0">+{subCauses.length} why</span>
+                    )}
                     
                      {/* Tooltip */}
                     <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-56 hidden group-hover/tooltip:block z-50">
@@ -258,19 +455,30 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
                            <GitCommit className="w-3 h-3" /> {cause.name}
                         </div>
                         {cause.description && <div className="mb-2 opacity-80">{cause.description}</div>}
+
+                        {subCauses.length > 0 && (
+                          <div className="mb-2">
+                             <div className="font-semibold text-slate-400 border-b border-slate-700 pb-0.5 mb-1">5 Whys:</div>
+                             <WhyChain causes={subCauses} />
+                          </div>
+                        )}
                         
                         {hasEvidence ? (
                           <div className="space-y-1">
-                             <div className="font-semibold text-slate-400 border-b border-slate-700 pb-0.5 mb-1">Evidence / 5 Whys:</div>
+                             <div className="font-semibold text-slate-400 border-b border-slate-700 pb-0.5 mb-1">
+                               Evidence: <span className="font-normal">{SUFFICIENCY_LABELS[sufficiency.level]} ({sufficiency.reason})</span>
+                             </div>
                              {cause.evidence.map(c => (
                                <div key={c.id} className="flex items-start gap-1">
                                  <FileText className="w-3 h-3 text-blue-400 shrink-0 top-0.5 relative" />
                                  <span>{c.name}</span>
+                                 {c.attachment && <Paperclip className="w-3 h-3 text-slate-400 shrink-0 top-0.5 relative" />}
+                                 {c.citations?.length ? <Quote className="w-3 h-3 text-amber-300 shrink-0 top-0.5 relative" /> : null}
                                </div>
                              ))}
                           </div>
                         ) : (
-                          <div className="text-red-300 italic">No evidence/details provided.</div>
+                          <div className="text-red-300 italic">Unsupported: no evidence recorded.</div>
                         )}
                       </div>
                       <div className="w-2 h-2 bg-slate-800 rotate-45 absolute -bottom-1 left-1/2 -translate-x-1/2"></div>
@@ -283,7 +491,7 @@ const ProcessNode = memo(({ id, data }: ProcessNodeProps) => {
         </div>
       </div>
 
-      <Handle type="source" position={Position.Right} className="!w-3 !h-3 !opacity-0 hover:!opacity-100 !bg-slate-400 !-mr-1.5 hover:!bg-blue-500 transition-all" />
+      <Handle type="source" position={Position.Right} id="right" className="!w-3 !h-3 !opacity-0 hover:!opacity-100 !bg-slate-400 !-mr-1.5 hover:!bg-blue-500 transition-all" />
     </>
   );
 });
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Quote, FileText } from 'lucide-react';
+import { EvidenceCitation } from '../types';
+import { describeCitation } from '../services/evidenceCitations';
+import { loadSourceText } from '../services/evidenceFiles';
+
+// Lines shown either side of the cited passage; enough context without rendering a whole log
+const CONTEXT_LINES = 150;
+
+export interface OpenPassage {
+  citation: EvidenceCitation;
+  evidenceName?: string;
+}
+
+// Asks the canvas to show the passage a citation points to, like the 5 Whys ladder
+export const openSourcePassage = (passage: OpenPassage) =>
+  window.dispatchEvent(new CustomEvent('open-source-passage', { detail: passage }));
+
+// A citation as a clickable line: the quote, then where it comes from
+export const CitationLink: React.FC<OpenPassage> = ({ citation, evidenceName }) => (
+  <button
+    onClick={() => openSourcePassage({ citation, evidenceName })}
+    className="w-full text-left rounded bg-amber-50 border border-amber-100 hover:border-amber-300 px-1.5 py-1 transition-colors"
+    title="Show the passage in the source document"
+  >
+    {citation.quote && <span className="block italic text-slate-600 line-clamp-3">“{citation.quote}”</span>}
+    <span className="flex items-center gap-1 text-[9px] text-amber-700 font-medium">
+      <Quote className="w-2.5 h-2.5" /> {describeCitation(citation)}
+    </span>
+  </button>
+);
+
+interface SourcePassagePanelProps extends OpenPassage {
+  onClose: () => void;
+}
+
+// The extracted text of a cited document, scrolled to the passage with its lines highlighted
+const SourcePassagePanel: React.FC<SourcePassagePanelProps> = ({ citation, evidenceName, onClose }) => {
+  const [text, setText] = useState<string | null | undefined>(undefined); // null: not stored here
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(undefined);
+    (citation.sha256 ? loadSourceText(citation.sha256) : Promise.resolve(undefined))
+      .catch(() => undefined)
+      .then(loaded => { if (!cancelled) setText(loaded ?? null); });
+    return () => { cancelled = true; };
+  }, [citation.sha256]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [text, citation.startLine]);
+
+  const lines = text ? text.split('\n') : [];
+  const start = citation.startLine ?? 1;
+  const end = citation.endLine ?? start;
+  const from = Math.max(1, start - CONTEXT_LINES);
+  const to = Math.min(lines.length, end + CONTEXT_LINES);
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-[28rem] bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div className="min-w-0">
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <FileText className="w-3.5 h-3.5 text-amber-500" /> Source Passage
+          </h3>
+          <p className="text-[10px] text-slate-400 truncate">{evidenceName ? `${evidenceName} · ` : ''}{describeCitation(citation)}</p>
+        </div>
+        <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      {text === undefined ? (
+        <div className="text-xs text-slate-400 italic p-4 text-center">Loading…</div>
+      ) : text === null ? (
+        <div className="p-4 space-y-3 text-xs">
+          {citation.quote && <blockquote className="border-l-2 border-amber-300 pl-2 italic text-slate-600 whitespace-pre-wrap">{citation.quote}</blockquote>}
+          <p className="text-slate-400 italic">
+            The text of {citation.fileName} is not stored in this browser. Attach the document in the chat again to view the passage in context.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto py-2 font-mono text-[10px] leading-relaxed scrollbar-thin">
+          {from > 1 && <div className="px-3 text-slate-300 italic">… lines 1–{from - 1} not shown</div>}
+          {lines.slice(from - 1, to).map((line, i) => {
+            const number = from + i;
+            const cited = number >= start && number <= end;
+            return (
+              <div
+                key={number}
+                ref={number === start ? highlightRef : undefined}
+                className={`flex gap-2 px-3 ${cited ? 'bg-amber-100 border-l-2 border-amber-400' : 'border-l-2 border-transparent'}`}
+              >
+                <span className="w-10 shrink-0 text-right text-slate-300 select-none">{number}</span>
+                <span className={`whitespace-pre-wrap break-all ${cited ? 'text-slate-800' : 'text-slate-500'}`}>{line || ' '}</span>
+              </div>
+            );
+          })}
+          {to < lines.length && <div className="px-3 text-slate-300 italic">… lines {to + 1}–{lines.length} not shown</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourcePassagePanel;
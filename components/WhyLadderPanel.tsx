@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { X, ListOrdered, Plus, ArrowDown, HelpCircle } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Cause, CauseStatus, NodeType } from '../types';
+import { getCauseStatus, walkGraphCauses } from '../services/causeAssessment';
+import { getSubCauses } from '../services/causeTree';
+import { CauseStatusBadge, SufficiencyBadge } from './CauseAssessment';
+
+// The classic method asks "why?" about five times before reaching an actionable cause
+const TARGET_DEPTH = 5;
+
+interface WhyLadderPanelProps {
+  nodes: Node[];
+  edges: Edge[];
+  causeId: string;
+  onFocus: (causeId: string) => void;
+  onUpdateCause: (causeId: string, cause: Cause) => void;
+  onClose: () => void;
+}
+
+// One cause's why-chain as a ladder: problem at the top, each rung answering "why?" for the one above
+const WhyLadderPanel: React.FC<WhyLadderPanelProps> = ({ nodes, edges, causeId, onFocus, onUpdateCause, onClose }) => {
+  const [newWhy, setNewWhy] = useState('');
+
+  let located: { domain: string; chain: Cause[] } | undefined;
+  walkGraphCauses(nodes, edges, (cause, domain, chain) => {
+    if (cause.id === causeId) located = { domain, chain };
+  });
+  const problem = nodes.find(n => n.data.type === NodeType.PROBLEM);
+
+  const focused = located?.chain[located.chain.length - 1];
+  const answers = focused ? getSubCauses(focused) : [];
+
+  const addWhy = () => {
+    if (!focused || !newWhy.trim()) return;
+    const why: Cause = { id: uuidv4(), name: newWhy, evidence: [] };
+    onUpdateCause(focused.id, { ...focused, subCauses: [...answers, why] });
+    setNewWhy('');
+    onFocus(why.id);
+  };
+
+  return (
+    <div className="absolute top-4 left-4 bottom-4 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-20 flex flex-col animate-in fade-in slide-in-from-left-2 duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100 shrink-0">
+        <div className="min-w-0">
+          <h3 className="text-xs font-bold text-slate-700 uppercase flex items-center gap-1.5">
+            <ListOrdered className="w-3.5 h-3.5 text-orange-500" /> 5 Whys Ladder
+          </h3>
+          <p className="text-[10px] text-slate-400 truncate">{located ? located.domain : 'Factor not found'}</p>
+        </div>
+        <button onClick={onClose}><X className="w-4 h-4 text-slate-400 hover:text-slate-600" /></button>
+      </div>
+
+      {!located || !focused ? (
+        <div className="text-xs text-slate-400 italic p-4 text-center">This factor is no longer on the diagram. Save a card's edits before opening its ladder.</div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-3 scrollbar-thin">
+          {problem && (
+            <div className="rounded-lg border-2 border-red-300 bg-red-50 px-2 py-1.5 text-xs font-semibold text-red-800">
+              {problem.data.title}
+            </div>
+          )}
+
+          {located.chain.map((cause, index) => {
+            const isFocused = cause.id === focused.id;
+            const isRejected = getCauseStatus(cause) === CauseStatus.REJECTED;
+            return (
+              <React.Fragment key={cause.id}>
+                <div className="flex items-center gap-1 pl-3 py-0.5 text-[9px] font-bold text-slate-400 uppercase">
+                  <ArrowDown className="w-3 h-3" /> Why {index + 1}?
+                </div>
+                <button
+                  onClick={() => onFocus(cause.id)}
+                  className={`w-full text-left rounded-lg border px-2 py-1.5 text-xs transition-colors ${isFocused ? 'border-orange-400 bg-orange-50 ring-2 ring-orange-100' : 'border-slate-200 hover:border-orange-300'}`}
+                >
+                  <div className={`font-medium leading-snug ${isRejected ? 'line-through text-slate-400' : 'text-slate-800'}`}>{cause.name}</div>
+                  {cause.description && <div className="text-[10px] text-slate-500 mt-0.5">{cause.description}</div>}
+                  <div className="flex items-center gap-1 mt-1">
+                    <CauseStatusBadge cause={cause} hideHypothesis />
+                    <SufficiencyBadge cause={cause} />
+                  </div>
+                </button>
+              </React.Fragment>
+            );
+          })}
+
+          {/* The next rung: existing answers to "why?" for the focused cause, or a new one */}
+          <div className="flex items-center gap-1 pl-3 py-0.5 mt-1 text-[9px] font-bold text-slate-400 uppercase">
+            <ArrowDown className="w-3 h-3" /> Why {located.chain.length + 1}?
+          </div>
+          <div className="space-y-1">
+            {answers.map(answer => (
+              <button
+                key={answer.id}
+                onClick={() => onFocus(answer.id)}
+                className="w-full text-left rounded-lg border border-dashed border-slate-300 px-2 py-1 text-[11px] text-slate-600 hover:border-orange-300 hover:text-slate-800"
+              >
+                {answer.name}
+                {getSubCauses(answer).length > 0 && <span className="text-[9px] text-orange-500 font-semibold ml-1">+{getSubCauses(answer).length} why</span>}
+              </button>
+            ))}
+            <div className="flex gap-1">
+              <input
+                className="flex-1 text-[11px] border border-slate-200 rounded px-2 py-1 focus:outline-none focus:border-orange-300"
+                placeholder={`Why did "${focused.name}" happen?`}
+                value={newWhy}
+                onChange={(e) => setNewWhy(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addWhy()}
+              />
+              <button onClick={addWhy} className="bg-orange-100 hover:bg-orange-200 text-orange-600 rounded px-1.5"><Plus className="w-3 h-3" /></button>
+            </div>
+          </div>
+
+          {answers.length === 0 && located.chain.length < TARGET_DEPTH && getCauseStatus(focused) !== CauseStatus.ROOT_CAUSE && (
+            <p className="text-[10px] text-slate-400 mt-3 flex items-start gap-1">
+              <HelpCircle className="w-3 h-3 shrink-0 mt-px" />
+              {located.chain.length} of about {TARGET_DEPTH} whys. Keep asking until you reach a cause that can be acted on.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhyLadderPanel;
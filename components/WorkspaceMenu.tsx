@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { FolderOpen, ChevronDown, Plus, Copy, Trash2, Pencil, Check, X, Save, Building2 } from 'lucide-react';
+import { AnalysisSummary, BlankAnalysisOptions, CategoryTemplate, RcaMethod } from '../types';
+import { RCA_METHOD_LABELS } from '../constants';
+
+interface WorkspaceMenuProps {
+  analyses: AnalysisSummary[];
+  currentId: string | null;
+  currentName: string;
+  lastSavedAt: number | null;
+  onOpen: (id: string) => void;
+  onCreate: (options: BlankAnalysisOptions) => void;
+  templates: CategoryTemplate[];
+  canSaveTemplate: boolean; // The open analysis is a fishbone with categories
+  onSaveTemplate: (name: string) => void;
+  onDeleteTemplate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onSetBusinessUnit: (id: string, businessUnit: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Header dropdown listing all locally stored analyses
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({
+  analyses, currentId, currentName, lastSavedAt, onOpen, onCreate, onRename, onSetBusinessUnit, onDuplicate, onDelete,
+  templates, canSaveTemplate, onSaveTemplate, onDeleteTemplate
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The analysis detail being edited in place: its name or its business unit
+  const [editing, setEditing] = useState<{ id: string; field: 'name' | 'businessUnit' } | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [isChoosingMethod, setIsChoosingMethod] = useState(false);
+  const [templateName, setTemplateName] = useState<string | null>(null); // Set while naming a new template
+
+  const startEdit = (a: AnalysisSummary, field: 'name' | 'businessUnit') => {
+    setEditing({ id: a.id, field });
+    setEditValue((field === 'name' ? a.name : a.businessUnit) || '');
+  };
+
+  const commitEdit = () => {
+    if (editing?.field === 'name') onRename(editing.id, editValue);
+    if (editing?.field === 'businessUnit') onSetBusinessUnit(editing.id, editValue);
+    setEditing(null);
+  };
+
+  const businessUnits = [...new Set(analyses.map(a => a.businessUnit).filter(Boolean))] as string[];
+
+  const create = (options: BlankAnalysisOptions) => {
+    onCreate(options);
+    setIsChoosingMethod(false);
+    setIsOpen(false);
+  };
+
+  const commitTemplate = () => {
+    if (templateName?.trim()) onSaveTemplate(templateName);
+    setTemplateName(null);
+  };
+
+  const confirmDeleteTemplate = (t: CategoryTemplate) => {
+    if (window.confirm(`Delete the template "${t.name}"? Analyses created from it are not affected.`)) onDeleteTemplate(t.id);
+  };
+
+  const confirmDelete = (a: AnalysisSummary) => {
+    if (window.confirm(`Delete "${a.name}"? This cannot be undone.`)) onDelete(a.id);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 text-left"
+      >
+        <FolderOpen className="w-4 h-4 text-slate-400" />
+        <div className="flex flex-col">
+          <span className="text-xs font-semibold text-slate-700 max-w-[180px] truncate">{currentName}</span>
+          <span className="text-[9px] text-slate-400">
+            {lastSavedAt ? `Autosaved ${formatTime(lastSavedAt)}` : 'Saved locally'}
+          </span>
+        </div>
+        <ChevronDown className="w-3 h-3 text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <div role="dialog" className="absolute top-full left-0 mt-2 w-80 bg-white rounded-xl shadow-2xl border border-slate-200 z-50 p-2 animate-in fade-in zoom-in duration-200">
+          <div className="flex items-center justify-between px-2 py-1 mb-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase">Analyses</span>
+            <button
+              onClick={() => setIsChoosingMethod(!isChoosingMethod)}
+              className="flex items-center gap-1 text-[11px] font-semibold text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-3 h-3" /> New
+            </button>
+          </div>
+
+          {/* New analyses start from a category template (fishbone) or the template of another method */}
+          {isChoosingMethod && (
+            <div className="mb-2 mx-1 p-1 rounded-lg border border-blue-100 bg-blue-50/50">
+              <div className="px-2 pt-1 text-[9px] font-bold text-slate-400 uppercase">{RCA_METHOD_LABELS[RcaMethod.FISHBONE].label} categories</div>
+              <div className="max-h-48 overflow-y-auto scrollbar-thin">
+                {templates.map(t => (
+                  <div key={t.id} className="group flex items-start gap-1 rounded hover:bg-white">
+                    <button
+                      onClick={() => create({ method: RcaMethod.FISHBONE, template: t })}
+                      className="flex-1 min-w-0 text-left px-2 py-1"
+                    >
+                      <div className="text-xs font-semibold text-slate-700">
+                        {t.name}{t.description && <span className="font-normal text-slate-400"> · {t.description}</span>}
+                      </div>
+                      <div className="text-[9px] text-slate-400 truncate">{t.categories.map(c => c.title).join(', ')}</div>
+                    </button>
+                    {!t.builtIn && (
+                      <button onClick={() => confirmDeleteTemplate(t)} title="Delete template" className="p-1 mt-0.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="px-2 pt-1.5 mt-1 border-t border-blue-100 text-[9px] font-bold text-slate-400 uppercase">Other methods</div>
+              {[RcaMethod.FAULT_TREE, RcaMethod.BOW_TIE].map(method => (
+                <button
+                  key={method}
+                  onClick={() => create({ method })}
+                  className="w-full text-left px-2 py-1 rounded hover:bg-white"
+                >
+                  <div className="text-xs font-semibold text-slate-700">{RCA_METHOD_LABELS[method].label}</div>
+                  <div className="text-[9px] text-slate-400">{RCA_METHOD_LABELS[method].description}</div>
+                </button>
+              ))}
+
+              {canSaveTemplate && (
+                <div className="px-1 pt-1.5 mt-1 border-t border-blue-100">
+                  {templateName === null ? (
+                    <button
+                      onClick={() => setTemplateName(currentName)}
+                      className="flex items-center gap-1 px-1 py-0.5 text-[11px] font-semibold text-blue-600 hover:text-blue-800"
+                    >
+                      <Save className="w-3 h-3" /> Save current categories as template
+                    </button>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <input
+                        className="flex-1 text-xs border border-slate-200 rounded px-1.5 py-1 focus:outline-none focus:border-blue-500"
+                        placeholder="Template name"
+                        value={templateName}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitTemplate();
+                          if (e.key === 'Escape') setTemplateName(null);
+                        }}
+                        autoFocus
+                      />
+                      <button onClick={commitTemplate} className="text-slate-400 hover:text-emerald-600"><Check className="w-3 h-3" /></button>
+                      <button onClick={() => setTemplateName(null)} className="text-slate-400 hover:text-slate-600"><X className="w-3 h-3" /></button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto space-y-0.5 scrollbar-thin">
+            {analyses.map(a => (
+              <div
+                key={a.id}
+                className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg ${a.id === currentId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              >
+                {editing?.id === a.id ? (
+                  <>
+                    <input
+                      className="flex-1 text-xs border border-slate-200 rounded px-1.5 py-1 focus:outline-none focus:border-blue-500"
+                      value={editValue}
+                      placeholder={editing.field === 'businessUnit' ? 'Business unit' : undefined}
+                      list={editing.field === 'businessUnit' ? 'workspace-business-units' : undefined}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      autoFocus
+                    />
+                    <button onClick={commitEdit} className="text-slate-400 hover:text-emerald-600"><Check className="w-3 h-3" /></button>
+                    <button onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-600"><X className="w-3 h-3" /></button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => { onOpen(a.id); setIsOpen(false); }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className={`text-xs truncate ${a.id === currentId ? 'font-semibold text-blue-700' : 'text-slate-700'}`}>{a.name}</div>
+                      <div className="text-[9px] text-slate-400 truncate">Updated {formatTime(a.updatedAt)}{a.businessUnit ? ` · ${a.businessUnit}` : ''}</div>
+                    </button>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startEdit(a, 'name')} title="Rename" className="text-slate-400 hover:text-slate-700"><Pencil className="w-3 h-3" /></button>
+                      <button onClick={() => startEdit(a, 'businessUnit')} title="Set business unit" className="text-slate-400 hover:text-slate-700"><Building2 className="w-3 h-3" /></button>
+                      <button onClick={() => { onDuplicate(a.id); setIsOpen(false); }} title="Duplicate" className="text-slate-400 hover:text-slate-700"><Copy className="w-3 h-3" /></button>
+                      <button onClick={() => confirmDelete(a)} title="Delete" className="text-slate-400 hover:text-red-500"><Trash2 className="w-3 h-3" /></button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <datalist id="workspace-business-units">
+            {businessUnits.map(unit => <option key={unit} value={unit} />)}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMenu;
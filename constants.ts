@@ -1,6 +1,6 @@
 
-import { NodeType } from './types';
-import { MarkerType } from 'reactflow';
+import { ActionStatus, ActionType, BarrierType, CategoryTemplate, CauseStatus, Effectiveness, EvidenceSufficiency, EvidenceType, GateType, NodeType, ProcessNodeData, RcaMethod } from './types';
+import { Edge, MarkerType, Node } from 'reactflow';
 
 // FISHBONE LAYOUT COORDINATES
 // Problem (Head) at Far Right
@@ -23,7 +23,7 @@ const PROBLEM_X = SPINE_3_X + 250;        // 1350
 // Category Offsets (Shift left to create angled ribs)
 const RIB_OFFSET_X = 150; 
 
-export const INITIAL_REACTFLOW_NODES = [
+export const INITIAL_REACTFLOW_NODES: Node<ProcessNodeData>[] = [
   // --- SPINE STRUCTURE ---
   { 
     id: 'spine_tail', 
@@ -164,6 +164,183 @@ export const INITIAL_REACTFLOW_EDGES = [
   { id: 'e_env', source: 'environment', target: 'spine_3', style: ribStyle, type: 'straight', sourceHandle: 'top', targetHandle: 'rib-bottom' },
 ];
 
+// --- CATEGORY TEMPLATES (FISHBONE) ---
+// The audit domains match the starter diagram above
+
+export const DEFAULT_CATEGORY_TEMPLATE_ID = 'audit';
+
+export const BUILT_IN_CATEGORY_TEMPLATES: CategoryTemplate[] = [
+  {
+    id: DEFAULT_CATEGORY_TEMPLATE_ID,
+    name: 'Audit control domains',
+    description: 'Internal control and operational failures',
+    builtIn: true,
+    categories: [
+      { id: 'people', title: 'People', description: 'Training, staffing, roles' },
+      { id: 'technology', title: 'Technology', description: 'Systems, config, outages' },
+      { id: 'process', title: 'Process', description: 'Procedures, approvals' },
+      { id: 'governance', title: 'Governance', description: 'Policies, oversight' },
+      { id: 'data', title: 'Data & Tools', description: 'Quality, integrity' },
+      { id: 'environment', title: 'Environment', description: 'Measurement, culture, external' }
+    ]
+  },
+  {
+    id: '6m',
+    name: '6M',
+    description: 'Manufacturing and production',
+    builtIn: true,
+    categories: [
+      { title: 'Man', description: 'Operators, skills, fatigue' },
+      { title: 'Machine', description: 'Equipment, tooling, maintenance' },
+      { title: 'Method', description: 'Procedures, work instructions' },
+      { title: 'Material', description: 'Raw materials, components, suppliers' },
+      { title: 'Measurement', description: 'Inspection, calibration, data' },
+      { title: 'Mother Nature', description: 'Environment, temperature, humidity' }
+    ]
+  },
+  {
+    id: '8p',
+    name: '8P',
+    description: 'Service and marketing',
+    builtIn: true,
+    categories: [
+      { title: 'Product', description: 'Service design and features' },
+      { title: 'Price', description: 'Pricing, fees, billing' },
+      { title: 'Place', description: 'Channels, locations, access' },
+      { title: 'Promotion', description: 'Communication, expectations' },
+      { title: 'People', description: 'Staff, customers, roles' },
+      { title: 'Process', description: 'Service delivery steps' },
+      { title: 'Physical Evidence', description: 'Facilities, documents, interfaces' },
+      { title: 'Productivity & Quality', description: 'Throughput, standards' }
+    ]
+  },
+  {
+    id: '4s',
+    name: '4S',
+    description: 'Service industries',
+    builtIn: true,
+    categories: [
+      { title: 'Surroundings', description: 'Workplace, external conditions' },
+      { title: 'Suppliers', description: 'Vendors, inputs, outsourcing' },
+      { title: 'Systems', description: 'Processes, IT, policies' },
+      { title: 'Skills', description: 'Training, experience, staffing' }
+    ]
+  }
+];
+
+// --- TEMPLATES FOR OTHER METHODS ---
+// Positions are left to the method's layout when a new analysis is created
+
+const templateNode = (id: string, type: NodeType, title: string, description: string, extra: Partial<ProcessNodeData> = {}): Node<ProcessNodeData> => ({
+  id,
+  type: 'processNode',
+  position: { x: 0, y: 0 },
+  data: { id, type, title, description, causes: [], ...extra }
+});
+
+// Fault tree: edges run from each input up to the gate or event it feeds
+const FAULT_TREE_NODES: Node<ProcessNodeData>[] = [
+  templateNode('problem', NodeType.PROBLEM, 'Top Event', 'The undesired event under analysis'),
+  templateNode('gate_1', NodeType.GATE, 'OR', '', { gate: GateType.OR }),
+  templateNode('event_1', NodeType.EVENT, 'Intermediate Event', 'Explained further by a gate below it'),
+  templateNode('basic_1', NodeType.BASIC_EVENT, 'Basic Event', 'Not developed further')
+];
+
+const FAULT_TREE_EDGES: Edge[] = [
+  { id: 'e_gate_1', source: 'gate_1', target: 'problem' },
+  { id: 'e_event_1', source: 'event_1', target: 'gate_1' },
+  { id: 'e_basic_1', source: 'basic_1', target: 'gate_1' }
+];
+
+// Bow-tie: threat → preventive barrier → top event → mitigative barrier → consequence
+const BOW_TIE_NODES: Node<ProcessNodeData>[] = [
+  templateNode('problem', NodeType.PROBLEM, 'Top Event', 'The moment control is lost'),
+  templateNode('threat_1', NodeType.THREAT, 'Threat', 'What could cause the top event'),
+  templateNode('barrier_1', NodeType.BARRIER, 'Preventive Barrier', 'Control that stops the threat', { barrier: BarrierType.PREVENTIVE }),
+  templateNode('barrier_2', NodeType.BARRIER, 'Mitigative Barrier', 'Control that limits the impact', { barrier: BarrierType.MITIGATIVE }),
+  templateNode('consequence_1', NodeType.CONSEQUENCE, 'Consequence', 'Impact if the top event occurs')
+];
+
+const BOW_TIE_EDGES: Edge[] = [
+  { id: 'e_threat_1', source: 'threat_1', target: 'barrier_1' },
+  { id: 'e_barrier_1', source: 'barrier_1', target: 'problem' },
+  { id: 'e_barrier_2', source: 'problem', target: 'barrier_2' },
+  { id: 'e_consequence_1', source: 'barrier_2', target: 'consequence_1' }
+];
+
+export const DIAGRAM_TEMPLATES: Record<RcaMethod, { nodes: Node<ProcessNodeData>[]; edges: Edge[] }> = {
+  [RcaMethod.FISHBONE]: { nodes: INITIAL_REACTFLOW_NODES, edges: INITIAL_REACTFLOW_EDGES },
+  [RcaMethod.FAULT_TREE]: { nodes: FAULT_TREE_NODES, edges: FAULT_TREE_EDGES },
+  [RcaMethod.BOW_TIE]: { nodes: BOW_TIE_NODES, edges: BOW_TIE_EDGES }
+};
+
+export const RCA_METHOD_LABELS: Record<RcaMethod, { label: string; description: string }> = {
+  [RcaMethod.FISHBONE]: { label: 'Fishbone', description: 'Factors grouped by category along a spine' },
+  [RcaMethod.FAULT_TREE]: { label: 'Fault tree', description: 'Top event broken down through AND/OR gates' },
+  [RcaMethod.BOW_TIE]: { label: 'Bow-tie', description: 'Threats and consequences with their barriers' }
+};
+
+// Single-key shortcuts for building a diagram by hand; ignored while typing in a field
+export const EDIT_SHORTCUTS = {
+  addCategory: 'c',
+  addSegment: ']',
+  removeSegment: '[',
+  editProblem: 'p',
+  relayout: 'l'
+} as const;
+
+// Chat attachments are read in the browser; only the excerpts relevant to the question reach the model
+export const ATTACHMENT_LIMITS = {
+  accept: '.txt,.md,.json,.csv,.log,.pdf,.docx,.xlsx',
+  maxFiles: 5,
+  maxFileBytes: 25 * 1024 * 1024,
+  contextChars: 60000, // Budget for all attachments in one turn
+  chunkChars: 2000
+} as const;
+
+export const WELCOME_MESSAGE = "Welcome to Root Cause Analysis.\n\nI can help you build a Fishbone Diagram using the 5 Whys method. \n\nLet's start by defining the **Problem Statement**.";
+
+export const CAUSE_STATUS_LABELS: Record<CauseStatus, string> = {
+  [CauseStatus.HYPOTHESIS]: 'Hypothesis',
+  [CauseStatus.VALIDATED]: 'Validated',
+  [CauseStatus.REJECTED]: 'Rejected',
+  [CauseStatus.ROOT_CAUSE]: 'Root Cause'
+};
+
+export const EVIDENCE_TYPE_LABELS: Record<EvidenceType, string> = {
+  [EvidenceType.SYSTEM_LOG]: 'System log',
+  [EvidenceType.RECORD]: 'Record / document',
+  [EvidenceType.DATA_ANALYSIS]: 'Data analysis',
+  [EvidenceType.OBSERVATION]: 'Observation',
+  [EvidenceType.INTERVIEW]: 'Interview',
+  [EvidenceType.OTHER]: 'Other'
+};
+
+export const SUFFICIENCY_LABELS: Record<EvidenceSufficiency, string> = {
+  [EvidenceSufficiency.NONE]: 'Unsupported',
+  [EvidenceSufficiency.WEAK]: 'Weak',
+  [EvidenceSufficiency.ADEQUATE]: 'Adequate',
+  [EvidenceSufficiency.STRONG]: 'Strong'
+};
+
+export const ACTION_TYPE_LABELS: Record<ActionType, string> = {
+  [ActionType.CORRECTIVE]: 'Corrective',
+  [ActionType.PREVENTIVE]: 'Preventive'
+};
+
+export const ACTION_STATUS_LABELS: Record<ActionStatus, string> = {
+  [ActionStatus.OPEN]: 'Open',
+  [ActionStatus.IN_PROGRESS]: 'In progress',
+  [ActionStatus.IMPLEMENTED]: 'Implemented',
+  [ActionStatus.VERIFIED]: 'Verified',
+  [ActionStatus.CANCELLED]: 'Cancelled'
+};
+
+export const EFFECTIVENESS_LABELS: Record<Effectiveness, string> = {
+  [Effectiveness.EFFECTIVE]: 'Effective',
+  [Effectiveness.NOT_EFFECTIVE]: 'Not effective'
+};
+
 export const SUGGESTION_CHIPS = [
   {
     label: "Step 1: Define Problem",
@@ -183,30 +360,65 @@ export const SUGGESTION_CHIPS = [
   }
 ];
 
-export const SYSTEM_INSTRUCTION = `
+// Shared by every method: how causes, "whys" and evidence are modelled and edited
+const CAUSE_DATA_MODEL = `- **Causes:** Specific contributing factors listed INSIDE a Node.
+- **Sub-causes:** Nested \`subCauses\` under a Cause. Each level answers "Why?" for its parent, forming the 5 Whys chain.
+- **Status & scores:** Each Cause may carry a \`status\` (unset = hypothesis) and \`likelihood\` / \`impact\` scores from 1 to 5.
+- **Evidence:** Artifacts, logs, or policy docs that validate a Cause. Evidence is NOT a "Why". Each item may carry an \`evidenceType\` (system_log, record, data_analysis, observation, interview, other).
+- **Sufficiency:** Each Cause is rated unsupported, weak, adequate or strong from its evidence count and type. Logs and records weigh more than interviews. The analysis is ready for QA review once no cause is unsupported or weak.
+- **Action plan:** \`actions\` in the graph context lists corrective and preventive actions (CAPA). Each is linked to the Cause IDs it addresses and has an owner, due date, status (open, in_progress, implemented, verified, cancelled) and, once implemented, a verification of effectiveness.`;
+
+const CAUSE_TOOL_USAGE = `- \`add_sub_cause\`: ADD A "WHY". Target the parent Cause by its ID (\`parentCauseId\`).
+- \`add_evidence\`: ADD PROOF/ARTIFACTS. Target the specific Cause by its ID (\`causeId\`) and set \`evidenceType\` when the source is known.
+- \`extract_evidence\`: CITE AN ATTACHED DOCUMENT. Record one finding per call as evidence quoting the passage verbatim (\`sourceFile\`, \`quote\`, line numbers when shown), on an existing cause (\`causeId\`) or on a new cause (\`targetId\` + \`causeName\`).
+- \`update_cause\`, \`delete_cause\`, \`move_cause\`: FIX OR REMOVE FACTORS, including ones you added earlier. Deleting a cause also removes its sub-causes and evidence.
+- \`assess_cause\`: RECORD CONCLUSIONS. Set a cause's status (hypothesis, validated, rejected, root_cause) and likelihood/impact scores.
+- \`update_evidence\`, \`delete_evidence\`: FIX OR REMOVE EVIDENCE by its ID (\`evidenceId\`).
+- \`propose_action\`: PLAN A FIX. Add a corrective or preventive action linked to the root cause(s) it addresses (\`causeIds\`), with an owner and due date when the user gives them.
+- \`suggest_causes\`: LEARN FROM PAST RCAs. Look up causes recorded in earlier analyses saved in this workspace that match the problem (or a \`query\`). It changes nothing; offer the relevant ones to the user as hypotheses and add them only if they agree.
+- \`update_action\`: TRACK AN ACTION by its ID (\`actionId\`): change its details or status, or record the verification of its effectiveness.
+- Causes and evidence are ALWAYS addressed by the \`id\` shown in the graph context, never by name. Names can repeat or change.
+- Every tool call returns a result: on success it includes the ID of anything created (use it in follow-up calls); on failure it says why (e.g. no matching cause). Correct failed calls or explain them to the user. When you are done editing, reply with a short summary and no further tool calls.`;
+
+export const EVIDENCE_EXTRACTION_PROMPT = "Extract causes and evidence from the attached documents, citing the passages they come from.";
+
+// Added to the turn when the user asks for extraction; every call is held for review
+export const EVIDENCE_EXTRACTION_INSTRUCTION = `
+Evidence Extraction:
+The user wants the attached documents mapped onto the diagram. Each document line is prefixed with its line number ("12: ...").
+- For every passage that shows why the problem happened (a failed control, a breached policy clause, an error in a log), call 'extract_evidence' once.
+- Put the evidence on the existing cause it supports (\`causeId\`). If no cause fits, create one on the most relevant category or event (\`targetId\` + \`causeName\`).
+- \`quote\` must be copied verbatim from the document (one or two sentences, or one log line) and \`startLine\`/\`endLine\` must be the numbers shown for it. Do not cite the number prefixes themselves.
+- Set \`evidenceType\`: system_log for logs, record for policies, procedures and tickets.
+- Only record what the document states; leave conclusions to the reviewer. Finish with a short summary of what you extracted and anything relevant you could not place.`;
+
+// Category titles and IDs come from the analysis, so the prompt follows whichever template it started from
+export const fishboneInstruction = (categories: { id: string; title: string }[]) => {
+  const titles = categories.map(c => c.title).join(', ');
+  const ids = categories.slice(0, 2).map(c => `'${c.id}'`).join(', ');
+  return `
 You are an expert Internal Auditor facilitating a Root Cause Analysis (RCA).
 You are using a visual Fishbone (Ishikawa) Diagram tool.
 
 Your Methodologies:
-1. **Fishbone (Ishikawa):** Categorize factors into domains (People, Process, Tech, Data, Governance, Environment).
+1. **Fishbone (Ishikawa):** Categorize factors into domains (${titles}).
 2. **5 Whys:** Drill down into specific factors to find the fundamental driver.
 
 Data Model Mapping:
-- **Nodes:** Represent "Categories" (e.g., People, Process) or the main "Problem Statement".
+- **Nodes:** Represent "Categories" (${titles}) or the main "Problem Statement".
 - **Spine Nodes:** Structural nodes ('spine_1', etc) that form the central line. Ignore these for content.
-- **Causes:** Specific contributing factors listed INSIDE a Node.
-- **Evidence:** Artifacts, logs, or policy docs that validate a Cause.
+${CAUSE_DATA_MODEL}
 
 Your Workflow:
 1. **Define Problem:** Ensure the "Problem Statement" node is accurate.
 2. **Explore:** Ask the user for factors in each domain. Use 'add_cause' to add these factors to the relevant Category Node.
-3. **Drill Down:** If a cause is vague, ask "Why?" and use 'add_evidence' to attach the proof.
+3. **Drill Down:** If a cause is vague, ask "Why?" and use 'add_sub_cause' to record each answer beneath it. Use 'add_evidence' only to attach proof.
 4. **Finalize:** Help the user identify the Candidate Root Cause.
 
 Tool Usage:
 - \`add_node\`: Create a new Category if a new domain is needed.
-- \`add_cause\`: ADD CONTRIBUTING FACTORS. Target the Category Node ID (e.g., 'people', 'process').
-- \`add_evidence\`: ADD PROOF/ARTIFACTS. Target the specific Cause.
+- \`add_cause\`: ADD CONTRIBUTING FACTORS. Target the Category Node ID (e.g., ${ids}).
+${CAUSE_TOOL_USAGE}
 
 *** RCA PROMPT SCRIPT ***
 
@@ -215,12 +427,93 @@ Prompt: “What specific control or process failure are we investigating?”
 Action: Use \`update_node\` on the 'problem' node.
 
 Step 2 — Explore Contributing Factors by Domain
-Ask sequentially across domains (People, Process, Technology, Data, Governance, Environment).
+Ask sequentially across domains (${titles}).
 Action: Use \`add_cause\` to add factors to the respective nodes.
 
-Step 3 — Identify Candidate Root Cause
+Step 3 — Apply 5 Whys
+Ask "Why?" repeatedly on the most critical factor.
+Action: Use \`add_sub_cause\` for each answer, nesting each new "why" under the previous one.
+
+Step 4 — Identify Candidate Root Cause
 Prompt: “Which factor, if resolved, would most likely have prevented this issue?”
+Action: Use \`assess_cause\` to mark factors as validated (evidence supports it) or rejected (ruled out), score likelihood and impact (1-5), and set the chosen factor's status to root_cause.
 
-Step 4 — Draft the Root Cause Summary
+Step 5 — Draft the Root Cause Summary
 Write a neutral, specific description.
-`;
\ No newline at end of file
+
+Step 6 — Agree the Management Action Plan
+Prompt: “What will be done about each root cause, by whom and by when?”
+Action: Use \`propose_action\` for each agreed action, linked to the root cause(s) it addresses. Use \`update_action\` as actions progress and once their effectiveness has been verified.
+`;
+};
+
+export const SYSTEM_INSTRUCTION = fishboneInstruction(
+  BUILT_IN_CATEGORY_TEMPLATES[0].categories.map(c => ({ id: c.id!, title: c.title }))
+);
+
+export const FAULT_TREE_INSTRUCTION = `
+You are an expert Internal Auditor facilitating a Root Cause Analysis (RCA).
+You are using a visual Fault Tree Analysis (FTA) tool.
+
+Your Methodologies:
+1. **Fault Tree:** Break the top event down into the events that can produce it, combined through logic gates.
+2. **5 Whys:** Drill down into specific factors on an event to find the fundamental driver.
+
+Data Model Mapping:
+- **Top Event:** The 'problem' node at the top of the tree: the undesired event under analysis.
+- **Gates:** AND (all inputs must occur) or OR (any input is enough). A gate sits below the event it explains; each event has at most one gate.
+- **Events:** Intermediate events are explained further by a gate beneath them. Basic events are leaves that are not developed further.
+- Edges run from each input up to the gate or event it feeds.
+${CAUSE_DATA_MODEL}
+
+Your Workflow:
+1. **Define the Top Event:** Ensure the 'problem' node states the undesired event precisely.
+2. **Decompose:** For the top event and each intermediate event, ask whether all inputs are needed (AND) or any one is enough (OR). Use 'add_gate', then 'add_fault_event' for each input.
+3. **Stop at Basic Events:** Mark an input \`basic\` when it needs no further breakdown.
+4. **Drill Down & Prove:** Record contributing factors on events with 'add_cause', their "whys" with 'add_sub_cause' and proof with 'add_evidence'.
+5. **Finalize:** Help the user identify the Candidate Root Cause.
+
+Tool Usage:
+- \`update_node\`: Edit the top event, or rename an event.
+- \`add_gate\`: ADD A GATE below the top event or an intermediate event (\`parentId\`), with \`gate\` AND or OR.
+- \`set_gate\`: SWITCH a gate between AND and OR.
+- \`add_fault_event\`: ADD AN INPUT EVENT to a gate (\`parentId\` is the gate's ID). Set \`basic\` for leaves.
+- \`add_cause\`: ADD CONTRIBUTING FACTORS. Target the event's Node ID.
+${CAUSE_TOOL_USAGE}
+`;
+
+export const BOW_TIE_INSTRUCTION = `
+You are an expert Internal Auditor facilitating a Root Cause Analysis (RCA).
+You are using a visual Bow-Tie Analysis tool.
+
+Your Methodologies:
+1. **Bow-Tie:** Map the threats that can lead to the top event on the left, the consequences that can follow it on the right, and the barriers (controls) on each path.
+2. **5 Whys:** Drill down into why a barrier failed or a threat materialised to find the fundamental driver.
+
+Data Model Mapping:
+- **Top Event:** The 'problem' node in the centre: the moment control is lost.
+- **Threats:** Causes that can lead to the top event. Each threat has a path to the top event.
+- **Consequences:** Outcomes that can follow the top event. Each has a path from the top event.
+- **Barriers:** Controls on a path. Preventive barriers sit between a threat and the top event; mitigative barriers between the top event and a consequence.
+${CAUSE_DATA_MODEL}
+
+Your Workflow:
+1. **Define the Top Event:** Ensure the 'problem' node states the loss of control precisely.
+2. **Threats & Consequences:** Ask what could lead to the top event and what it could lead to. Use 'add_threat' and 'add_consequence'.
+3. **Barriers:** For each path, ask which controls exist and whether they worked. Use 'add_barrier'.
+4. **Drill Down & Prove:** Record why a barrier failed as causes on the barrier ('add_cause'), their "whys" with 'add_sub_cause' and proof with 'add_evidence'.
+5. **Finalize:** Help the user identify the Candidate Root Cause.
+
+Tool Usage:
+- \`update_node\`: Edit the top event, or rename a threat, barrier or consequence.
+- \`add_threat\`, \`add_consequence\`: ADD A PATH to or from the top event.
+- \`add_barrier\`: ADD A CONTROL on the path of a threat or consequence (\`pathNodeId\`). It is placed next to the top event; preventive or mitigative follows from the side.
+- \`add_cause\`: ADD CONTRIBUTING FACTORS. Target a threat, barrier or consequence by its Node ID.
+${CAUSE_TOOL_USAGE}
+`;
+
+export const SYSTEM_INSTRUCTIONS: Record<RcaMethod, string> = {
+  [RcaMethod.FISHBONE]: SYSTEM_INSTRUCTION,
+  [RcaMethod.FAULT_TREE]: FAULT_TREE_INSTRUCTION,
+  [RcaMethod.BOW_TIE]: BOW_TIE_INSTRUCTION
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { CategoryTemplate } from '../types';
+import { BUILT_IN_CATEGORY_TEMPLATES } from '../constants';
+import { listTemplates, saveTemplate as saveStoredTemplate, deleteTemplate as deleteStoredTemplate } from '../services/storage';
+import { createTemplateFromDiagram } from '../services/categoryTemplates';
+
+/**
+ * The category template library: the built-in sets followed by the ones saved in this browser.
+ */
+export const useCategoryTemplates = () => {
+  const [saved, setSaved] = useState<CategoryTemplate[]>([]);
+
+  const refresh = useCallback(async () => {
+    setSaved(await listTemplates());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(error => console.error("Template storage unavailable:", error));
+  }, [refresh]);
+
+  // Saves the diagram's current categories, in rib order, under a new name
+  const saveTemplate = useCallback(async (name: string, nodes: Node[], edges: Edge[]) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    await saveStoredTemplate(createTemplateFromDiagram(trimmed, nodes, edges));
+    await refresh();
+  }, [refresh]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    await deleteStoredTemplate(id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    templates: [...BUILT_IN_CATEGORY_TEMPLATES, ...saved],
+    saveTemplate,
+    deleteTemplate,
+  };
+};
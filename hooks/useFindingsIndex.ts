@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { AnalysisSummary } from '../types';
+import { listAnalysisRecords } from '../services/storage';
+import { buildFindingsIndex, FindingsIndex } from '../services/findingsIndex';
+
+/**
+ * The findings index over every saved analysis except the open one, which is compared against it.
+ * Rebuilt when another analysis is saved, added or removed, or a different one is opened;
+ * autosaves of the open analysis leave it alone.
+ */
+export const useFindingsIndex = (analyses: AnalysisSummary[], currentId: string | null) => {
+  const [index, setIndex] = useState<FindingsIndex>(() => buildFindingsIndex([]));
+
+  const others = analyses.filter(a => a.id !== currentId);
+  const key = `${currentId}|${others.map(a => `${a.id}@${a.updatedAt}`).join(',')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    listAnalysisRecords()
+      .then(records => {
+        if (!cancelled) setIndex(buildFindingsIndex(records.filter(r => r.id !== currentId)));
+      })
+      .catch(error => console.error("Findings index unavailable:", error));
+    return () => { cancelled = true; };
+    // The key covers every input that changes the index
+  }, [key]);
+
+  return index;
+};
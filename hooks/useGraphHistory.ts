@@ -0,0 +1,96 @@
+import { useCallback, useRef, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+
+const MAX_HISTORY = 100;
+
+export interface GraphSnapshot {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  // Set when the entry was produced by an assistant turn, so the chat message can undo it
+  messageId?: string;
+  snapshot: GraphSnapshot;
+}
+
+/**
+ * Snapshot-based undo/redo for the diagram.
+ * Call `record(label)` immediately BEFORE mutating nodes/edges; the current graph is stored
+ * as the state to return to. A whole AI tool batch is recorded once, making it one atomic step.
+ * A change only known afterwards (e.g. a drag) passes the snapshot taken before it instead.
+ */
+export const useGraphHistory = (
+  nodes: Node[],
+  edges: Edge[],
+  setNodes: (nodes: Node[]) => void,
+  setEdges: (edges: Edge[]) => void
+) => {
+  // Refs keep the latest graph available to stable callbacks (e.g. the injected onEdit handler)
+  const nodesRef = useRef(nodes);
+  const edgesRef = useRef(edges);
+  nodesRef.current = nodes;
+  edgesRef.current = edges;
+
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const current = (): GraphSnapshot => ({ nodes: nodesRef.current, edges: edgesRef.current });
+
+  const record = useCallback((label: string, messageId?: string, snapshot: GraphSnapshot = current()) => {
+    pastRef.current = [...pastRef.current, { id: uuidv4(), label, messageId, snapshot }].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const restore = (snapshot: GraphSnapshot) => {
+    setNodes(snapshot.nodes);
+    setEdges(snapshot.edges);
+  };
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, { ...entry, snapshot: current() }];
+    restore(entry.snapshot);
+    bump();
+  }, [setNodes, setEdges]);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, { ...entry, snapshot: current() }];
+    restore(entry.snapshot);
+    bump();
+  }, [setNodes, setEdges]);
+
+  // Forget everything, e.g. when a different analysis is loaded
+  const reset = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const lastEntry = pastRef.current[pastRef.current.length - 1];
+  const nextEntry = futureRef.current[futureRef.current.length - 1];
+
+  return {
+    record,
+    undo,
+    redo,
+    reset,
+    canUndo: !!lastEntry,
+    canRedo: !!nextEntry,
+    undoLabel: lastEntry?.label,
+    redoLabel: nextEntry?.label,
+    // Only the most recent step can be undone from its chat message without discarding later edits
+    undoableMessageId: lastEntry?.messageId ?? null,
+  };
+};
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Node, Edge } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisRecord, AnalysisSummary, BlankAnalysisOptions, ChatMessage } from '../types';
+import {
+  listAnalyses,
+  loadAnalysis,
+  saveAnalysis,
+  deleteAnalysis as deleteStoredAnalysis,
+  getLastAnalysisId,
+  setLastAnalysisId,
+  pruneArtifacts,
+} from '../services/storage';
+import { toStoredNodes, toStoredEdges } from '../services/analysisSchema';
+
+const AUTOSAVE_DELAY_MS = 800;
+const DEFAULT_NAME = 'Untitled Analysis';
+
+export interface WorkspaceContent {
+  nodes: Node[];
+  edges: Edge[];
+  messages: ChatMessage[];
+}
+
+interface UseWorkspaceOptions extends WorkspaceContent {
+  // Replace the live editor state with a stored analysis
+  onOpen: (record: AnalysisRecord) => void;
+  // Content for a brand new analysis, from the chosen method and category template
+  createBlank: (options?: BlankAnalysisOptions) => WorkspaceContent & { template?: string };
+}
+
+const fingerprint = (content: WorkspaceContent) =>
+  JSON.stringify([toStoredNodes(content.nodes), toStoredEdges(content.edges), content.messages]);
+
+/**
+ * Keeps the open analysis autosaved to IndexedDB and exposes the workspace list
+ * (create / open / rename / duplicate / delete). Reopens the last analysis on startup.
+ */
+export const useWorkspace = ({ nodes, edges, messages, onOpen, createBlank }: UseWorkspaceOptions) => {
+  const [analyses, setAnalyses] = useState<AnalysisSummary[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  const contentRef = useRef<WorkspaceContent>({ nodes, edges, messages });
+  contentRef.current = { nodes, edges, messages };
+  const lastFingerprintRef = useRef<string>('');
+  const currentRecordRef = useRef<AnalysisRecord | null>(null);
+  const startedRef = useRef(false);
+
+  const refreshList = useCallback(async () => {
+    setAnalyses(await listAnalyses());
+  }, []);
+
+  const persist = useCallback(async (force = false) => {
+    const record = currentRecordRef.current;
+    if (!record) return;
+    const content = contentRef.current;
+    const print = fingerprint(content);
+    if (!force && print === lastFingerprintRef.current) return;
+
+    const updated: AnalysisRecord = { ...record, ...content, updatedAt: Date.now() };
+    currentRecordRef.current = updated;
+    lastFingerprintRef.current = print;
+    await saveAnalysis(updated);
+    setLastSavedAt(updated.updatedAt);
+    await refreshList();
+  }, [refreshList]);
+
+  const activate = useCallback(async (record: AnalysisRecord) => {
+    currentRecordRef.current = record;
+    lastFingerprintRef.current = fingerprint(record);
+    onOpen(record);
+    setCurrentId(record.id);
+    await setLastAnalysisId(record.id);
+  }, [onOpen]);
+
+  const createRecord = (name: string, content: WorkspaceContent & Pick<AnalysisRecord, 'businessUnit' | 'template'>): AnalysisRecord => {
+    const now = Date.now();
+    return { id: uuidv4(), name, createdAt: now, updatedAt: now, ...content };
+  };
+
+  // Startup: reopen the last analysis, or adopt the initial canvas as the first one
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    (async () => {
+      try {
+        // Before anything is open: later in a session, undo history, unsaved edits and attached
+        // documents not yet cited can refer to file content no saved analysis does. Best effort,
+        // a failed cleanup only leaves unused file content behind
+        await pruneArtifacts().catch(error => console.error('Artifact cleanup failed:', error));
+        const list = await listAnalyses();
+        const lastId = await getLastAnalysisId();
+        const target = list.find(a => a.id === lastId) || list[0];
+        const stored = target ? await loadAnalysis(target.id) : undefined;
+
+        if (stored) {
+          await activate(stored);
+        } else {
+          const record = createRecord(DEFAULT_NAME, contentRef.current);
+          await saveAnalysis(record);
+          await activate(record);
+        }
+        await refreshList();
+      } catch (error) {
+        console.error("Workspace storage unavailable:", error);
+      }
+      setIsReady(true);
+    })();
+  }, [activate, refreshList]);
+
+  // Debounced autosave of the open analysis
+  useEffect(() => {
+    if (!isReady || !currentId) return;
+    const timer = setTimeout(() => {
+      persist().catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, messages, isReady, currentId, persist]);
+
+  const openAnalysis = useCallback(async (id: string) => {
+    if (id === currentId) return;
+    await persist();
+    const record = await loadAnalysis(id);
+    if (record) await activate(record);
+  }, [currentId, persist, activate]);
+
+  const createAnalysis = useCallback(async (options?: BlankAnalysisOptions, name = DEFAULT_NAME) => {
+    await persist();
+    const record = createRecord(name, createBlank(options));
+    await saveAnalysis(record);
+    await activate(record);
+    await refreshList();
+  }, [persist, activate, createBlank, refreshList]);
+
+  // An imported file opens as an analysis of its own, so it never overwrites the open one
+  const importAnalysis = useCallback(async (name: string, content: WorkspaceContent & Pick<AnalysisRecord, 'businessUnit' | 'template'>) => {
+    await persist();
+    const record = createRecord(name.trim() || DEFAULT_NAME, content);
+    await saveAnalysis(record);
+    await activate(record);
+    await refreshList();
+  }, [persist, activate, refreshList]);
+
+  // Details kept beside the content; the open analysis saves them with its next autosave
+  const updateDetails = useCallback(async (id: string, details: Partial<Pick<AnalysisRecord, 'name' | 'businessUnit'>>) => {
+    if (id === currentId && currentRecordRef.current) {
+      currentRecordRef.current = { ...currentRecordRef.current, ...details };
+      await persist(true);
+      return;
+    }
+    const record = await loadAnalysis(id);
+    if (!record) return;
+    await saveAnalysis({ ...record, ...details, updatedAt: Date.now() });
+    await refreshList();
+  }, [currentId, persist, refreshList]);
+
+  const renameAnalysis = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    await updateDetails(id, { name: trimmed });
+  }, [updateDetails]);
+
+  // An empty unit clears it
+  const setBusinessUnit = useCallback(async (id: string, businessUnit: string) => {
+    await updateDetails(id, { businessUnit: businessUnit.trim() || undefined });
+  }, [updateDetails]);
+
+  const duplicateAnalysis = useCallback(async (id: string) => {
+    await persist();
+    const source = await loadAnalysis(id);
+    if (!source) return;
+    const copy = createRecord(`${source.name} (copy)`, {
+      nodes: source.nodes, edges: source.edges, messages: source.messages, businessUnit: source.businessUnit, template: source.template
+    });
+    await saveAnalysis(copy);
+    await activate(copy);
+    await refreshList();
+  }, [persist, activate, refreshList]);
+
+  const deleteAnalysis = useCallback(async (id: string) => {
+    await deleteStoredAnalysis(id);
+    const remaining = await listAnalyses();
+
+    if (id === currentId) {
+      currentRecordRef.current = null;
+      const next = remaining[0] ? await loadAnalysis(remaining[0].id) : undefined;
+      if (next) {
+        await activate(next);
+      } else {
+        const record = createRecord(DEFAULT_NAME, createBlank());
+        await saveAnalysis(record);
+        await activate(record);
+      }
+    }
+    await refreshList();
+  }, [currentId, activate, createBlank, refreshList]);
+
+  return {
+    analyses,
+    currentId,
+    currentName: analyses.find(a => a.id === currentId)?.name || currentRecordRef.current?.name || DEFAULT_NAME,
+    isReady,
+    lastSavedAt,
+    openAnalysis,
+    createAnalysis,
+    importAnalysis,
+    renameAnalysis,
+    setBusinessUnit,
+    duplicateAnalysis,
+    deleteAnalysis,
+  };
+};
@@ -0,0 +1,68 @@
+import { AnalysisFile, SchemaIssue } from './analysisSchema';
+import { collectFileAttachments, hashBlob } from './evidenceAttachments';
+import { getArtifact, StoredArtifact } from './storage';
+import { createZip, readZip, ZipEntry } from './zipArchive';
+
+// An analysis with stored evidence files saves as a ZIP bundle:
+//   analysis.json                       the usual save file
+//   artifacts/<sha256>/<file name>      one entry per distinct file
+
+export const BUNDLE_ANALYSIS_PATH = 'analysis.json';
+const ARTIFACTS_DIR = 'artifacts/';
+
+const safeFileName = (name: string = 'file') => name.replace(/[\\/:*?"<>|]+/g, '_');
+
+export const needsBundle = (file: AnalysisFile): boolean =>
+  collectFileAttachments(file.nodes, file.edges).length > 0;
+
+export interface BuiltBundle {
+  blob: Blob;
+  missing: string[]; // Attached file names whose content is no longer in local storage
+}
+
+export const buildAnalysisBundle = async (file: AnalysisFile): Promise<BuiltBundle> => {
+  const entries: ZipEntry[] = [
+    { name: BUNDLE_ANALYSIS_PATH, data: new TextEncoder().encode(JSON.stringify(file, null, 2)) }
+  ];
+  const missing: string[] = [];
+
+  for (const attachment of collectFileAttachments(file.nodes, file.edges)) {
+    const artifact = await getArtifact(attachment.sha256!);
+    if (!artifact) {
+      missing.push(attachment.fileName || attachment.sha256!);
+      continue;
+    }
+    entries.push({
+      name: `${ARTIFACTS_DIR}${attachment.sha256}/${safeFileName(attachment.fileName)}`,
+      data: new Uint8Array(await artifact.blob.arrayBuffer())
+    });
+  }
+
+  return { blob: createZip(entries), missing };
+};
+
+export interface OpenedBundle {
+  raw: any; // Parsed analysis.json, still to be migrated and validated
+  artifacts: StoredArtifact[];
+  issues: SchemaIssue[]; // Artifacts whose content does not match their hash
+}
+
+export const readAnalysisBundle = async (buffer: ArrayBuffer): Promise<OpenedBundle> => {
+  const entries = await readZip(buffer);
+  const analysis = entries.find(e => e.name === BUNDLE_ANALYSIS_PATH);
+  if (!analysis) throw new Error(`Bundle has no ${BUNDLE_ANALYSIS_PATH}`);
+
+  const artifacts: StoredArtifact[] = [];
+  const issues: SchemaIssue[] = [];
+  for (const entry of entries.filter(e => e.name.startsWith(ARTIFACTS_DIR))) {
+    const expected = entry.name.slice(ARTIFACTS_DIR.length).split('/')[0];
+    const blob = new Blob([entry.data]);
+    if ((await hashBlob(blob)) !== expected) {
+      issues.push({ path: entry.name, message: 'content does not match its SHA-256 hash; not imported' });
+      continue;
+    }
+    artifacts.push({ sha256: expected, blob });
+  }
+
+  return { raw: JSON.parse(new TextDecoder().decode(analysis.data)), artifacts, issues };
+};
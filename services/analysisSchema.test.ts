@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, parseAnalysisFile, serializeAnalysisFile } from './analysisSchema';
+
+const categoryWith = (holder: Record<string, unknown>) => ({
+  id: 'people',
+  position: { x: 0, y: 0 },
+  data: { type: 'CATEGORY', title: 'People', ...holder }
+});
+
+const fileAt = (version: unknown, holder: Record<string, unknown>) => ({
+  ...(version === undefined ? {} : { metadata: { version } }),
+  nodes: [categoryWith(holder)],
+  edges: []
+});
+
+describe('parseAnalysisFile', () => {
+  it('reads back what it saves', () => {
+    const saved = serializeAnalysisFile([categoryWith({ causes: [{ id: 'c1', name: 'A', evidence: [] }] })] as any, [], {
+      businessUnit: 'Treasury',
+      template: 'Audit'
+    });
+    const result = parseAnalysisFile(JSON.parse(JSON.stringify(saved)));
+
+    expect(result.issues).toEqual([]);
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.file!.metadata).toMatchObject({ version: CURRENT_SCHEMA_VERSION, businessUnit: 'Treasury', template: 'Audit' });
+  });
+
+  it('migrates an unversioned file from the risk and control shape', () => {
+    const result = parseAnalysisFile(fileAt(undefined, { risks: [{ id: 'r1', name: 'Weak control', controls: [{ id: 'e1', name: 'Walkthrough' }] }] }));
+
+    expect(result.migratedFrom).toBe('2.0');
+    expect(result.file!.metadata.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.file!.nodes[0].data.causes).toEqual([{ id: 'r1', name: 'Weak control', evidence: [{ id: 'e1', name: 'Walkthrough' }] }]);
+  });
+
+  it('runs the chain from the nearest migration for an in-between version', () => {
+    const result = parseAnalysisFile(fileAt('3.1', { causes: [{ id: 'c1', name: 'A', subCauses: [{ id: 'c2', name: 'B' }] }] }));
+
+    expect(result.migratedFrom).toBe('3.1');
+    expect(result.file!.nodes[0].data.causes).toEqual([
+      { id: 'c1', name: 'A', evidence: [], subCauses: [{ id: 'c2', name: 'B', evidence: [] }] }
+    ]);
+  });
+
+  it('opens a file from a newer minor version as it is', () => {
+    const result = parseAnalysisFile(fileAt('4.8', { causes: [{ id: 'c1', name: 'A', evidence: [] }] }));
+
+    expect(result.issues).toEqual([]);
+    expect(result.migratedFrom).toBeUndefined();
+  });
+
+  it('rejects a newer major version', () => {
+    expect(parseAnalysisFile(fileAt('5.0', { causes: [] })).issues).toEqual([
+      { path: 'metadata.version', message: `version 5.0 is newer than supported ${CURRENT_SCHEMA_VERSION}` }
+    ]);
+  });
+
+  it('rejects a version that is not a number', () => {
+    expect(parseAnalysisFile(fileAt('latest', { causes: [] })).issues).toEqual([
+      { path: 'metadata.version', message: 'version "latest" is not a version number' }
+    ]);
+  });
+
+  it('points at the field that fails validation', () => {
+    const result = parseAnalysisFile(fileAt(CURRENT_SCHEMA_VERSION, { causes: [{ id: 'c1', evidence: [] }] }));
+
+    expect(result.file).toBeUndefined();
+    expect(result.issues.map(i => i.path)).toContain('nodes[0].data.causes[0].name');
+  });
+});
@@ -0,0 +1,443 @@
+import { Node, Edge } from 'reactflow';
+import { ActionStatus, ActionType, AttachmentKind, BarrierType, Cause, CauseStatus, ChatMessage, Effectiveness, EvidenceType, GateType, MessageRole, NodeType } from '../types';
+import { isValidScore, MAX_SCORE, MIN_SCORE } from './causeAssessment';
+
+// Save-file format for an exported analysis, with validation and a migration chain
+// from older app versions. Optional fields are added without a version bump: a reader
+// ignores what it does not know, so only a change of shape gets a new version and a migration.
+
+export const CURRENT_SCHEMA_VERSION = '4.0';
+export const APP_NAME = 'Root Cause Fishbone';
+
+export interface AnalysisFileMetadata {
+  version: string;
+  timestamp: string;
+  appName: string;
+  businessUnit?: string;
+  template?: string; // Category template or method the analysis was started from
+}
+
+export interface AnalysisFile {
+  metadata: AnalysisFileMetadata;
+  nodes: Node[];
+  edges: Edge[];
+  messages?: ChatMessage[]; // Omitted when the transcript is left out for external sharing
+}
+
+export interface SerializeOptions {
+  messages?: ChatMessage[];
+  businessUnit?: string;
+  template?: string;
+}
+
+export interface SchemaIssue {
+  path: string; // e.g. "nodes[2].data.causes[0].name"
+  message: string;
+}
+
+// `file` is set only when there are no issues
+export interface ParseResult {
+  file?: AnalysisFile;
+  issues: SchemaIssue[];
+  migratedFrom?: string;
+}
+
+// --- Serialization ---
+
+// React Flow adds runtime fields and we inject onEdit callbacks; neither belongs in a saved file
+export const toStoredNodes = (nodes: Node[]): Node[] =>
+  nodes.map(({ selected, dragging, positionAbsolute, width, height, ...rest }) => {
+    const { onEdit, ...data } = rest.data || {};
+    return { ...rest, data };
+  });
+
+export const toStoredEdges = (edges: Edge[]): Edge[] =>
+  edges.map(({ selected, ...rest }) => rest);
+
+export const serializeAnalysisFile = (nodes: Node[], edges: Edge[], options: SerializeOptions = {}): AnalysisFile => ({
+  metadata: {
+    version: CURRENT_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    appName: APP_NAME,
+    ...(options.businessUnit ? { businessUnit: options.businessUnit } : {}),
+    ...(options.template ? { template: options.template } : {})
+  },
+  nodes: toStoredNodes(nodes),
+  edges: toStoredEdges(edges),
+  ...(options.messages ? { messages: options.messages } : {})
+});
+
+// --- Migrations ---
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: any) => any;
+}
+
+const renameKey = (obj: any, from: string, to: string) => {
+  if (!obj || typeof obj !== 'object' || !(from in obj) || to in obj) return obj;
+  const { [from]: value, ...rest } = obj;
+  return { ...rest, [to]: value };
+};
+
+// Older causes were "risks" holding "controls" (or "mitigations") instead of evidence
+const migrateLegacyRisk = (risk: any): any => {
+  let next = renameKey(risk, 'controls', 'evidence');
+  next = renameKey(next, 'mitigations', 'evidence');
+  return next;
+};
+
+const mapCausesDeep = (causes: any, fn: (c: any) => any): any =>
+  Array.isArray(causes)
+    ? causes.map(c => {
+        const next = fn(c);
+        return next && Array.isArray(next.subCauses) ? { ...next, subCauses: mapCausesDeep(next.subCauses, fn) } : next;
+      })
+    : causes;
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 2.x: risk bow-tie shape
+    from: '2.0',
+    to: '3.0',
+    migrate: data => {
+      const migrateHolder = (holder: any) => {
+        const renamed = renameKey(holder, 'risks', 'causes');
+        return renamed && Array.isArray(renamed.causes)
+          ? { ...renamed, causes: renamed.causes.map(migrateLegacyRisk) }
+          : renamed;
+      };
+      return {
+        ...data,
+        nodes: (data.nodes || []).map((n: any) => ({ ...n, data: migrateHolder(n.data) })),
+        edges: (data.edges || []).map((e: any) => (e.data ? { ...e, data: migrateHolder(e.data) } : e))
+      };
+    }
+  },
+  {
+    // 3.0 → 4.0: nested sub-causes; fill defaults so every cause has an evidence list
+    from: '3.0',
+    to: '4.0',
+    migrate: data => {
+      const normalize = (c: any) => (c && typeof c === 'object' && !Array.isArray(c.evidence) ? { ...c, evidence: [] } : c);
+      const normalizeHolder = (holder: any) =>
+        holder && Array.isArray(holder.causes) ? { ...holder, causes: mapCausesDeep(holder.causes, normalize) } : holder;
+      return {
+        ...data,
+        nodes: (data.nodes || []).map((n: any) => ({ ...n, data: normalizeHolder(n.data) })),
+        edges: (data.edges || []).map((e: any) => (e.data ? { ...e, data: normalizeHolder(e.data) } : e))
+      };
+    }
+  }
+];
+
+// Files without metadata pre-date versioning and use the 2.x shape
+const LEGACY_VERSION = '2.0';
+
+// Undefined when a version is given but is not a number such as "4" or "4.0"
+const normalizeVersion = (version: unknown): string | undefined => {
+  if (version === undefined || version === null) return LEGACY_VERSION;
+  if ((typeof version !== 'string' && typeof version !== 'number') || !/^\d+(\.\d+)*$/.test(String(version))) return undefined;
+  const [major, minor = '0'] = String(version).split('.');
+  return `${major}.${minor}`;
+};
+
+const invalidVersion = (version: unknown) => `version ${JSON.stringify(version)} is not a version number`;
+
+const compareVersions = (a: string, b: string) => {
+  const [aMajor, aMinor] = a.split('.').map(Number);
+  const [bMajor, bMinor] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+};
+
+export const migrateAnalysisFile = (raw: any): { data: any; migratedFrom?: string } => {
+  const startVersion = normalizeVersion(raw?.metadata?.version);
+  if (!startVersion) throw new Error(invalidVersion(raw.metadata.version));
+  let version = startVersion;
+  let data = raw;
+
+  if (compareVersions(startVersion, CURRENT_SCHEMA_VERSION) < 0) {
+    // The chain starts at the last migration at or below the file's version, so an in-between
+    // version such as "3.1" is still brought up to date; anything older than the first migration
+    // is treated as the legacy shape
+    const start = MIGRATIONS.reduce((found, migration, i) => compareVersions(migration.from, startVersion) <= 0 ? i : found, 0);
+    for (const migration of MIGRATIONS.slice(start)) {
+      data = migration.migrate(data);
+      version = migration.to;
+    }
+  }
+
+  data = { ...data, metadata: { ...(data.metadata || {}), version, appName: data.metadata?.appName || APP_NAME } };
+  return { data, migratedFrom: compareVersions(startVersion, CURRENT_SCHEMA_VERSION) < 0 ? startVersion : undefined };
+};
+
+// --- Validation ---
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const checkString = (issues: SchemaIssue[], value: unknown, path: string, optional = false) => {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') issues.push({ path, message: optional ? 'must be a string if present' : 'must be a string' });
+};
+
+const validateAttachment = (issues: SchemaIssue[], attachment: unknown, path: string) => {
+  if (!isObject(attachment)) {
+    issues.push({ path, message: 'must be an object if present' });
+    return;
+  }
+  const kinds = Object.values(AttachmentKind) as string[];
+  if (!kinds.includes(attachment.kind)) {
+    issues.push({ path: `${path}.kind`, message: `must be one of ${kinds.join(', ')}` });
+    return;
+  }
+  if (attachment.kind === AttachmentKind.FILE) {
+    checkString(issues, attachment.fileName, `${path}.fileName`);
+    checkString(issues, attachment.mimeType, `${path}.mimeType`, true);
+    if (typeof attachment.size !== 'number') issues.push({ path: `${path}.size`, message: 'must be a number' });
+    if (typeof attachment.sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(attachment.sha256)) {
+      issues.push({ path: `${path}.sha256`, message: 'must be a 64-character hex SHA-256 digest' });
+    }
+  } else if (attachment.kind === AttachmentKind.URL) {
+    checkString(issues, attachment.url, `${path}.url`);
+  } else {
+    checkString(issues, attachment.reference, `${path}.reference`);
+  }
+};
+
+const isLineNumber = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+
+const validateCitations = (issues: SchemaIssue[], citations: unknown, path: string) => {
+  if (!Array.isArray(citations)) {
+    issues.push({ path, message: 'must be an array of citations if present' });
+    return;
+  }
+  citations.forEach((citation, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(citation)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, citation.fileName, `${p}.fileName`);
+    checkString(issues, citation.quote, `${p}.quote`, true);
+    if (citation.sha256 !== undefined && (typeof citation.sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(citation.sha256))) {
+      issues.push({ path: `${p}.sha256`, message: 'must be a 64-character hex SHA-256 digest if present' });
+    }
+    if (citation.startLine !== undefined && !isLineNumber(citation.startLine)) issues.push({ path: `${p}.startLine`, message: 'must be a line number (1 or more) if present' });
+    if (citation.endLine !== undefined && (!isLineNumber(citation.endLine) || citation.endLine < (citation.startLine ?? 1))) {
+      issues.push({ path: `${p}.endLine`, message: 'must be a line number no earlier than startLine if present' });
+    }
+  });
+};
+
+const checkScore = (issues: SchemaIssue[], value: unknown, path: string) => {
+  if (value === undefined) return;
+  if (!isValidScore(value)) issues.push({ path, message: `must be an integer from ${MIN_SCORE} to ${MAX_SCORE} if present` });
+};
+
+const validateCauses = (issues: SchemaIssue[], causes: unknown, path: string) => {
+  if (!Array.isArray(causes)) {
+    issues.push({ path, message: 'must be an array of causes' });
+    return;
+  }
+  causes.forEach((cause: Cause, i) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(cause)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, cause.id, `${p}.id`);
+    checkString(issues, cause.name, `${p}.name`);
+    checkString(issues, cause.description, `${p}.description`, true);
+    if (!Array.isArray(cause.evidence)) {
+      issues.push({ path: `${p}.evidence`, message: 'must be an array' });
+    } else {
+      cause.evidence.forEach((ev, j) => {
+        const ep = `${p}.evidence[${j}]`;
+        if (!isObject(ev)) {
+          issues.push({ path: ep, message: 'must be an object' });
+          return;
+        }
+        checkString(issues, ev.id, `${ep}.id`);
+        checkString(issues, ev.name, `${ep}.name`);
+        checkString(issues, ev.description, `${ep}.description`, true);
+        checkString(issues, ev.collectedBy, `${ep}.collectedBy`, true);
+        checkString(issues, ev.collectedAt, `${ep}.collectedAt`, true);
+        if (ev.evidenceType !== undefined && !Object.values(EvidenceType).includes(ev.evidenceType)) {
+          issues.push({ path: `${ep}.evidenceType`, message: `must be one of ${Object.values(EvidenceType).join(', ')}` });
+        }
+        if (ev.attachment !== undefined) validateAttachment(issues, ev.attachment, `${ep}.attachment`);
+        if (ev.citations !== undefined) validateCitations(issues, ev.citations, `${ep}.citations`);
+      });
+    }
+    if (cause.status !== undefined && !Object.values(CauseStatus).includes(cause.status)) {
+      issues.push({ path: `${p}.status`, message: `must be one of ${Object.values(CauseStatus).join(', ')}` });
+    }
+    checkScore(issues, cause.likelihood, `${p}.likelihood`);
+    checkScore(issues, cause.impact, `${p}.impact`);
+    if (cause.subCauses !== undefined) validateCauses(issues, cause.subCauses, `${p}.subCauses`);
+  });
+};
+
+const checkEnum = (issues: SchemaIssue[], value: unknown, values: string[], path: string) => {
+  if (value !== undefined && !values.includes(value as string)) issues.push({ path, message: `must be one of ${values.join(', ')}` });
+};
+
+const validateActions = (issues: SchemaIssue[], actions: unknown, path: string) => {
+  if (!Array.isArray(actions)) {
+    issues.push({ path, message: 'must be an array of actions if present' });
+    return;
+  }
+  actions.forEach((action: any, i: number) => {
+    const p = `${path}[${i}]`;
+    if (!isObject(action)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, action.id, `${p}.id`);
+    checkString(issues, action.title, `${p}.title`);
+    checkString(issues, action.description, `${p}.description`, true);
+    checkString(issues, action.owner, `${p}.owner`, true);
+    checkString(issues, action.dueDate, `${p}.dueDate`, true);
+    checkEnum(issues, action.type, Object.values(ActionType), `${p}.type`);
+    checkEnum(issues, action.status, Object.values(ActionStatus), `${p}.status`);
+    if (!Array.isArray(action.causeIds) || action.causeIds.some((id: unknown) => typeof id !== 'string')) {
+      issues.push({ path: `${p}.causeIds`, message: 'must be an array of cause IDs' });
+    }
+    if (action.verification !== undefined) {
+      const v = action.verification;
+      if (!isObject(v)) {
+        issues.push({ path: `${p}.verification`, message: 'must be an object if present' });
+        return;
+      }
+      checkEnum(issues, v.result, Object.values(Effectiveness), `${p}.verification.result`);
+      checkString(issues, v.method, `${p}.verification.method`, true);
+      checkString(issues, v.verifiedBy, `${p}.verification.verifiedBy`, true);
+      checkString(issues, v.verifiedAt, `${p}.verification.verifiedAt`, true);
+    }
+  });
+};
+
+const validateMessages = (issues: SchemaIssue[], messages: unknown) => {
+  if (!Array.isArray(messages)) {
+    issues.push({ path: 'messages', message: 'must be an array if present' });
+    return;
+  }
+  const roles = Object.values(MessageRole) as string[];
+  messages.forEach((msg: any, i: number) => {
+    const p = `messages[${i}]`;
+    if (!isObject(msg)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, msg.id, `${p}.id`);
+    checkString(issues, msg.content, `${p}.content`);
+    checkString(issues, msg.attachedFileName, `${p}.attachedFileName`, true);
+    if (msg.attachedFileNames !== undefined && !(Array.isArray(msg.attachedFileNames) && msg.attachedFileNames.every((n: unknown) => typeof n === 'string'))) {
+      issues.push({ path: `${p}.attachedFileNames`, message: 'must be an array of file names if present' });
+    }
+    if (!roles.includes(msg.role)) issues.push({ path: `${p}.role`, message: `must be one of ${roles.join(', ')}` });
+    if (typeof msg.timestamp !== 'number') issues.push({ path: `${p}.timestamp`, message: 'must be a number' });
+  });
+};
+
+export const validateAnalysisFile = (data: any): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  if (!isObject(data)) return [{ path: '', message: 'file must contain a JSON object' }];
+
+  if (!Array.isArray(data.nodes)) issues.push({ path: 'nodes', message: 'must be an array' });
+  if (!Array.isArray(data.edges)) issues.push({ path: 'edges', message: 'must be an array' });
+  if (issues.length > 0) return issues;
+
+  if (isObject(data.metadata)) {
+    checkString(issues, data.metadata.businessUnit, 'metadata.businessUnit', true);
+    checkString(issues, data.metadata.template, 'metadata.template', true);
+  }
+
+  const nodeTypes = Object.values(NodeType) as string[];
+  const nodeIds = new Set<string>();
+
+  data.nodes.forEach((node: any, i: number) => {
+    const p = `nodes[${i}]`;
+    if (!isObject(node)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, node.id, `${p}.id`);
+    if (typeof node.id === 'string') {
+      if (nodeIds.has(node.id)) issues.push({ path: `${p}.id`, message: `duplicate node id "${node.id}"` });
+      nodeIds.add(node.id);
+    }
+    if (!isObject(node.position) || typeof node.position.x !== 'number' || typeof node.position.y !== 'number') {
+      issues.push({ path: `${p}.position`, message: 'must be an object with numeric x and y' });
+    }
+    if (!isObject(node.data)) {
+      issues.push({ path: `${p}.data`, message: 'must be an object' });
+      return;
+    }
+    if (!nodeTypes.includes(node.data.type)) {
+      issues.push({ path: `${p}.data.type`, message: `must be one of ${nodeTypes.join(', ')}` });
+    }
+    checkString(issues, node.data.title, `${p}.data.title`);
+    checkString(issues, node.data.description, `${p}.data.description`, true);
+    if (node.data.gate !== undefined && !Object.values(GateType).includes(node.data.gate)) {
+      issues.push({ path: `${p}.data.gate`, message: `must be one of ${Object.values(GateType).join(', ')}` });
+    }
+    if (node.data.barrier !== undefined && !Object.values(BarrierType).includes(node.data.barrier)) {
+      issues.push({ path: `${p}.data.barrier`, message: `must be one of ${Object.values(BarrierType).join(', ')}` });
+    }
+    if (node.data.actions !== undefined) validateActions(issues, node.data.actions, `${p}.data.actions`);
+    validateCauses(issues, node.data.causes, `${p}.data.causes`);
+  });
+
+  data.edges.forEach((edge: any, i: number) => {
+    const p = `edges[${i}]`;
+    if (!isObject(edge)) {
+      issues.push({ path: p, message: 'must be an object' });
+      return;
+    }
+    checkString(issues, edge.id, `${p}.id`);
+    checkString(issues, edge.source, `${p}.source`);
+    checkString(issues, edge.target, `${p}.target`);
+    if (typeof edge.source === 'string' && !nodeIds.has(edge.source)) {
+      issues.push({ path: `${p}.source`, message: `references unknown node "${edge.source}"` });
+    }
+    if (typeof edge.target === 'string' && !nodeIds.has(edge.target)) {
+      issues.push({ path: `${p}.target`, message: `references unknown node "${edge.target}"` });
+    }
+    if (edge.data !== undefined && isObject(edge.data) && edge.data.causes !== undefined) {
+      validateCauses(issues, edge.data.causes, `${p}.data.causes`);
+    }
+  });
+
+  if (data.messages !== undefined) validateMessages(issues, data.messages);
+
+  return issues;
+};
+
+/**
+ * Migrates a parsed save file to the current schema and validates it.
+ * Files from a newer major version are rejected rather than guessed at; a newer minor
+ * version only adds optional fields, which are kept as they are.
+ */
+export const parseAnalysisFile = (raw: unknown): ParseResult => {
+  if (!isObject(raw)) return { issues: [{ path: '', message: 'file must contain a JSON object' }] };
+
+  const version = normalizeVersion(raw.metadata?.version);
+  if (!version) return { issues: [{ path: 'metadata.version', message: invalidVersion(raw.metadata.version) }] };
+  if (Number(version.split('.')[0]) > Number(CURRENT_SCHEMA_VERSION.split('.')[0])) {
+    return { issues: [{ path: 'metadata.version', message: `version ${version} is newer than supported ${CURRENT_SCHEMA_VERSION}` }] };
+  }
+
+  const { data, migratedFrom } = migrateAnalysisFile(raw);
+  const issues = validateAnalysisFile(data);
+  if (issues.length > 0) return { issues };
+
+  return { file: data as AnalysisFile, issues, migratedFrom };
+};
+
+export const formatSchemaIssues = (issues: SchemaIssue[], limit = 5): string => {
+  const lines = issues.slice(0, limit).map(i => `• ${i.path || '(root)'}: ${i.message}`);
+  if (issues.length > limit) lines.push(`• …and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Node, Edge } from 'reactflow';
+import { INITIAL_REACTFLOW_EDGES, INITIAL_REACTFLOW_NODES } from '../constants';
+import { Cause, ToolCall } from '../types';
+import { generateProcessResponse } from './assistantService';
+import { registerProvider, setActiveProvider } from './llm';
+import { createMockProvider, MockScriptStep } from './llm/mockProvider';
+import { applyToolCalls } from './toolExecutor';
+import { findCauseById } from './causeTree';
+
+type Graph = { nodes: Node[]; edges: Edge[] };
+
+const INITIAL_GRAPH: Graph = { nodes: INITIAL_REACTFLOW_NODES, edges: INITIAL_REACTFLOW_EDGES };
+
+// One assistant turn against a scripted mock, applying each call as it streams in, as the app does
+const runTurn = async (query: string, options: { script?: MockScriptStep[]; graph?: Graph } = {}) => {
+  const provider = createMockProvider(options.script);
+  registerProvider(provider);
+  setActiveProvider('mock');
+
+  let graph = options.graph || INITIAL_GRAPH;
+  const context = JSON.stringify({ nodes: graph.nodes.map(n => ({ id: n.id, causes: n.data.causes })) });
+  const response = await generateProcessResponse([], query, context, undefined, {
+    onToolCall: (call: ToolCall) => {
+      const result = applyToolCalls(graph.nodes, graph.edges, [call]);
+      graph = { nodes: result.nodes, edges: result.edges };
+      return result.results[0];
+    }
+  });
+  return { response, graph, provider };
+};
+
+const causesOf = (graph: Graph, id: string): Cause[] => graph.nodes.find(n => n.id === id)!.data.causes;
+
+describe('assistant tool pipeline with the mock provider', () => {
+  it('applies scripted calls and reports them back in a follow-up round', async () => {
+    const { response, graph, provider } = await runTurn('explore the domains');
+
+    expect(causesOf(graph, 'people').map(c => c.name)).toContain('Insufficient training');
+    expect(causesOf(graph, 'process').map(c => c.name)).toContain('Approval step not enforced');
+    expect(response.steps).toBe(2);
+    expect(provider.requests[1].toolRounds![0].results.every(r => r.ok)).toBe(true);
+    expect(response.text).toContain('2 of 2 change(s) applied');
+  });
+
+  it('passes failed calls back to the model instead of throwing', async () => {
+    const { response, graph } = await runTurn('add one', {
+      script: [{
+        match: /add/,
+        text: 'Adding.',
+        toolCalls: [
+          { name: 'add_cause', args: { targetId: 'people', targetType: 'NODE' } },
+          { name: 'add_sub_cause', args: { parentCauseId: 'missing', name: 'Why' } }
+        ]
+      }]
+    });
+
+    expect(response.text).toContain('0 of 2 change(s) applied');
+    expect(response.text).toContain('Missing required argument "name"');
+    expect(response.text).toContain('No cause with ID "missing"');
+    expect(causesOf(graph, 'people')).toHaveLength(causesOf(INITIAL_GRAPH, 'people').length);
+  });
+
+  it('drills into an existing cause by the ID in the graph context', async () => {
+    const seeded = await runTurn('explore the domains');
+    const parent = causesOf(seeded.graph, 'people')[0];
+
+    const { graph } = await runTurn('ask why', { graph: seeded.graph });
+
+    const updated = findCauseById(causesOf(graph, 'people'), parent.id)!;
+    expect(updated.subCauses?.[0].name).toBe(`Why: ${parent.name} was not prevented`);
+  });
+});
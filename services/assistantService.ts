@@ -0,0 +1,111 @@
+import { SYSTEM_INSTRUCTIONS, RCA_METHOD_LABELS, EVIDENCE_EXTRACTION_INSTRUCTION, fishboneInstruction } from '../constants';
+import { RcaMethod, ToolCall, ToolResult } from '../types';
+import { getActiveProvider, ChatTurn, LLMResponse, ToolRound } from './llm';
+import { getToolsForMethod, isLookupTool } from './llm/tools';
+
+// Upper bound on model calls per user message, so a confused model cannot loop forever
+export const MAX_TOOL_ROUNDS = 5;
+
+export interface AssistantResponse extends LLMResponse {
+  steps?: number; // Model rounds used
+  stepLimitReached?: boolean; // The model still wanted to call tools when the loop stopped
+}
+
+export interface AssistantHandlers {
+  signal?: AbortSignal;
+  onTextDelta?: (delta: string) => void;
+  // Applies one call as it streams in; the result is sent back to the model in the next round
+  onToolCall?: (call: ToolCall, step: number) => ToolResult;
+  maxRounds?: number; // Defaults to MAX_TOOL_ROUNDS; 1 disables the loop. Rounds of lookups only are not counted
+  method?: RcaMethod; // Picks the instruction and tools; defaults to fishbone
+  categories?: { id: string; title: string }[]; // Fishbone categories the instruction names as domains
+  extractEvidence?: boolean; // Asks for cited findings from the attached documents
+}
+
+export const generateProcessResponse = async (
+  history: ChatTurn[],
+  currentMessage: string,
+  contextData: string,
+  fileContent?: string,
+  handlers: AssistantHandlers = {}
+): Promise<AssistantResponse> => {
+  const provider = getActiveProvider();
+  const maxRounds = handlers.maxRounds ?? MAX_TOOL_ROUNDS;
+  let roundLimit = maxRounds;
+  const method = handlers.method ?? RcaMethod.FISHBONE;
+  const systemInstruction = method === RcaMethod.FISHBONE && handlers.categories?.length
+    ? fishboneInstruction(handlers.categories)
+    : SYSTEM_INSTRUCTIONS[method];
+  const rounds: ToolRound[] = [];
+  const allCalls: ToolCall[] = [];
+  let text = "";
+
+  try {
+    let finalUserMessage = `
+    Context (Current ${RCA_METHOD_LABELS[method].label} Graph JSON):
+    ${contextData}
+
+    User Query: ${currentMessage}
+    `;
+
+    if (fileContent) {
+      finalUserMessage += `\n\nAttached Documents (text extracted from the user's files; long files are cut to the excerpts most relevant to the query, with line ranges):\n${fileContent}`;
+    }
+
+    if (handlers.extractEvidence) {
+      finalUserMessage += `\n${EVIDENCE_EXTRACTION_INSTRUCTION}`;
+    }
+
+    for (let step = 1; step <= roundLimit; step++) {
+      const round: ToolRound = { text: "", calls: [], results: [] };
+      // Text from later rounds continues the same chat message, as a new paragraph
+      const separator = text ? "\n\n" : "";
+
+      const result = await provider.generate({
+        systemInstruction,
+        history,
+        prompt: finalUserMessage,
+        tools: getToolsForMethod(method),
+        toolRounds: rounds,
+        userQuery: currentMessage,
+        graphContext: contextData
+      }, {
+        signal: handlers.signal,
+        onTextDelta: (delta) => {
+          handlers.onTextDelta?.(round.text ? delta : separator + delta);
+          round.text += delta;
+        },
+        onToolCall: (call) => {
+          // Providers that don't assign call ids still need one to pair results with calls
+          const withId = { ...call, id: call.id || `call-${step}-${round.calls.length + 1}` };
+          round.calls.push(withId);
+          round.results.push(handlers.onToolCall?.(withId, step) || { ok: true, message: 'Received' });
+        }
+      });
+
+      // Non-streaming fallbacks return everything at the end
+      if (!round.text && result.text) {
+        handlers.onTextDelta?.(separator + result.text);
+        round.text = result.text;
+      }
+      text += round.text ? separator + round.text : "";
+      allCalls.push(...round.calls);
+
+      if (round.calls.length === 0) {
+        return { text, toolCalls: allCalls, steps: step };
+      }
+      rounds.push(round);
+      // A round of lookups only gathers material, so it does not use up a round (up to the overall cap)
+      if (round.calls.every(c => isLookupTool(c.name)) && roundLimit < MAX_TOOL_ROUNDS) roundLimit++;
+    }
+
+    return { text, toolCalls: allCalls, steps: roundLimit, stepLimitReached: maxRounds > 1 };
+  } catch (error) {
+    if (handlers.signal?.aborted) {
+      return { text: "", toolCalls: allCalls, aborted: true };
+    }
+    console.error(`${provider.label} API Error:`, error);
+    const failure = "I encountered an error processing the request.";
+    return { text: text ? `${text}\n\n${failure}` : failure, toolCalls: allCalls };
+  }
+};
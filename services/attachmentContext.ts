@@ -0,0 +1,148 @@
+import { DocumentKind, ExtractedDocument } from '../types';
+import { ATTACHMENT_LIMITS } from '../constants';
+import { formatLineRange } from './evidenceCitations';
+
+// Turns the documents attached to a chat turn into prompt text. When they fit the budget they go in
+// whole; otherwise they are split into line-based chunks and only the chunks most relevant to the
+// question are kept, so one large log cannot crowd out the rest of the conversation.
+
+export interface DocumentChunk {
+  fileName: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  text: string;
+}
+
+// Lines longer than a chunk (minified JSON, single-line exports) are cut into pieces that keep their line number
+export const chunkDocument = (doc: ExtractedDocument, maxChars: number = ATTACHMENT_LIMITS.chunkChars): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let lines: string[] = [];
+  let startLine = 1;
+  let size = 0;
+  const flush = (endLine: number) => {
+    if (lines.length) chunks.push({ fileName: doc.fileName, startLine, endLine, text: lines.join('\n') });
+    lines = [];
+    size = 0;
+    startLine = endLine + 1;
+  };
+
+  doc.text.split('\n').forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (line.length > maxChars) {
+      flush(lineNumber - 1);
+      for (let at = 0; at < line.length; at += maxChars) {
+        chunks.push({ fileName: doc.fileName, startLine: lineNumber, endLine: lineNumber, text: line.slice(at, at + maxChars) });
+      }
+      startLine = lineNumber + 1;
+      return;
+    }
+    if (size + line.length + 1 > maxChars) flush(lineNumber - 1);
+    lines.push(line);
+    size += line.length + 1;
+  });
+  flush(startLine + lines.length - 1);
+  return chunks;
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'what', 'why', 'how', 'when', 'which', 'into', 'about', 'there', 'their', 'have', 'has', 'been', 'not', 'you', 'can', 'does', 'did', 'file', 'files', 'attached', 'document', 'please']);
+
+// Lines that usually matter in an investigation even when the question does not name them
+const SIGNAL_PATTERN = /\b(error|errors|fail(ed|ure|s)?|exception|fatal|critical|denied|timeout|timed out|rejected|warn(ing)?|breach|incident|overdue)\b/gi;
+
+const terms = (text: string) => (text.toLowerCase().match(/[a-z0-9][a-z0-9_.-]{2,}/g) || []).filter(t => !STOP_WORDS.has(t));
+
+/**
+ * Scores chunks against the query: matched terms weighted by how rare they are across all chunks
+ * (so a term on every line counts for little), plus a smaller boost for error and failure signals.
+ */
+export const scoreChunks = (chunks: DocumentChunk[], query: string): number[] => {
+  const queryTerms = [...new Set(terms(query))];
+  const counts = chunks.map(chunk => {
+    const tally = new Map<string, number>();
+    terms(chunk.text).forEach(t => tally.set(t, (tally.get(t) || 0) + 1));
+    return tally;
+  });
+  const idf = new Map(queryTerms.map(t => {
+    const containing = counts.filter(c => c.has(t)).length;
+    return [t, containing ? Math.log(1 + chunks.length / containing) : 0];
+  }));
+
+  return chunks.map((chunk, i) => {
+    const relevance = queryTerms.reduce((sum, t) => {
+      const tf = counts[i].get(t) || 0;
+      return tf ? sum + idf.get(t)! * (1 + Math.log(tf)) : sum;
+    }, 0);
+    const signals = chunk.text.match(SIGNAL_PATTERN)?.length || 0;
+    return relevance + 0.5 * Math.log(1 + signals);
+  });
+};
+
+const KIND_LABELS: Record<DocumentKind, string> = {
+  [DocumentKind.TEXT]: 'text',
+  [DocumentKind.PDF]: 'PDF',
+  [DocumentKind.DOCX]: 'Word',
+  [DocumentKind.XLSX]: 'Excel'
+};
+
+// Prefixes each line with its number, for turns where the model is asked to cite line ranges
+const numberLines = (text: string, firstLine: number) =>
+  text.split('\n').map((line, i) => `${firstLine + i}: ${line}`).join('\n');
+
+const documentHeader = (doc: ExtractedDocument, lineCount: number, excerpted: boolean) =>
+  `### ${doc.fileName} (${KIND_LABELS[doc.kind]}, ${lineCount} lines${excerpted ? ', relevant excerpts only' : ''})`
+  + (doc.warning ? `\nNote: ${doc.warning}` : '');
+
+/**
+ * The attachments as one block of prompt text. Excerpts keep document order, are labelled with
+ * their line ranges, and gaps are marked so the model knows the text it sees is partial.
+ * Each document's opening chunk is always kept: it usually says what the document is.
+ */
+export const buildAttachmentContext = (
+  docs: ExtractedDocument[],
+  query: string,
+  options: { budget?: number; numberLines?: boolean } = {}
+): string => {
+  const budget = options.budget ?? ATTACHMENT_LIMITS.contextChars;
+  const lineCount = (doc: ExtractedDocument) => doc.text.split('\n').length;
+  const body = (text: string, firstLine: number) => options.numberLines ? numberLines(text, firstLine) : text;
+  if (docs.reduce((sum, d) => sum + d.text.length, 0) <= budget) {
+    return docs.map(d => `${documentHeader(d, lineCount(d), false)}\n${body(d.text, 1)}`).join('\n\n');
+  }
+
+  const perDoc = docs.map(doc => chunkDocument(doc));
+  const all = perDoc.flat();
+  const scores = scoreChunks(all, query);
+  const selected = new Set<DocumentChunk>();
+  let used = 0;
+  const take = (chunk: DocumentChunk) => {
+    if (selected.has(chunk) || used + chunk.text.length > budget) return;
+    selected.add(chunk);
+    used += chunk.text.length;
+  };
+
+  perDoc.forEach(chunks => chunks[0] && take(chunks[0]));
+  all
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ chunk }) => take(chunk));
+
+  return docs.map((doc, d) => {
+    const total = lineCount(doc);
+    const parts: string[] = [];
+    let nextLine = 1;
+    // Neighbouring chunks are merged into one excerpt
+    const excerpts: DocumentChunk[] = [];
+    perDoc[d].filter(c => selected.has(c)).forEach(chunk => {
+      const last = excerpts[excerpts.length - 1];
+      if (last && chunk.startLine <= last.endLine + 1) excerpts[excerpts.length - 1] = { ...last, endLine: chunk.endLine, text: last.text + (chunk.startLine === last.endLine ? '' : '\n') + chunk.text };
+      else excerpts.push(chunk);
+    });
+    excerpts.forEach(excerpt => {
+      if (excerpt.startLine > nextLine) parts.push(`[… ${formatLineRange(nextLine, excerpt.startLine - 1)} omitted …]`);
+      parts.push(`[${formatLineRange(excerpt.startLine, excerpt.endLine)}]\n${body(excerpt.text, excerpt.startLine)}`);
+      nextLine = Math.max(nextLine, excerpt.endLine + 1);
+    });
+    if (nextLine <= total) parts.push(`[… ${formatLineRange(nextLine, total)} omitted …]`);
+    return `${documentHeader(doc, total, true)}\n${parts.join('\n')}`;
+  }).join('\n\n');
+};
@@ -0,0 +1,54 @@
+import { Node, Edge } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+import { CategoryTemplate, DiagramView, NodeType, ProcessNodeData } from '../types';
+import { layoutFishbone } from './fishboneLayout';
+
+// Category templates: seeding a fishbone from one, and saving a diagram's categories as one
+
+const slugify = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'category';
+
+/**
+ * A fresh fishbone with the template's categories as ribs, in template order, and an empty
+ * problem statement. The spine is generated by the fishbone layout.
+ */
+export const buildFishboneFromTemplate = (template: CategoryTemplate, view: DiagramView = DiagramView.CARDS): { nodes: Node<ProcessNodeData>[]; edges: Edge[] } => {
+  const node = (id: string, type: NodeType, title: string, description = ''): Node<ProcessNodeData> => ({
+    id,
+    type: 'processNode',
+    position: { x: 0, y: 0 },
+    data: { id, type, title, description, causes: [] }
+  });
+
+  const used = new Set(['problem']);
+  const categories = template.categories.map(category => {
+    const base = category.id || slugify(category.title);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    return node(id, NodeType.CATEGORY, category.title, category.description);
+  });
+
+  return layoutFishbone([node('problem', NodeType.PROBLEM, 'Problem Statement', 'Define the issue here'), ...categories], [], view);
+};
+
+// Categories in rib order: along the spine from the tail, top rib before bottom; loose categories last
+export const diagramCategories = (nodes: Node[], edges: Edge[]): Node[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const spineX = (category: Node) => {
+    const rib = edges.find(e => e.source === category.id && byId.get(e.target)?.data.type === NodeType.SPINE);
+    return rib ? byId.get(rib.target)!.position.x : Number.MAX_SAFE_INTEGER;
+  };
+  return nodes
+    .filter(n => n.data.type === NodeType.CATEGORY)
+    .sort((a, b) => spineX(a) - spineX(b) || a.position.y - b.position.y);
+};
+
+export const createTemplateFromDiagram = (name: string, nodes: Node[], edges: Edge[]): CategoryTemplate => ({
+  id: uuidv4(),
+  name,
+  categories: diagramCategories(nodes, edges).map(n => ({
+    title: n.data.title,
+    ...(n.data.description ? { description: n.data.description } : {})
+  })),
+  createdAt: Date.now()
+});
@@ -0,0 +1,91 @@
+import { Node, Edge } from 'reactflow';
+import { Cause, CauseStatus } from '../types';
+import { getSubCauses, updateCauseInTree } from './causeTree';
+import { holdsCauses } from './rcaMethods';
+
+// Cause status and likelihood/impact scoring, and the ranking of candidate root causes
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+
+export const isValidScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_SCORE && value <= MAX_SCORE;
+
+export const getCauseStatus = (cause: Cause): CauseStatus => cause.status || CauseStatus.HYPOTHESIS;
+
+// Likelihood × impact, only when both have been scored
+export const riskScore = (cause: Cause): number | undefined =>
+  cause.likelihood && cause.impact ? cause.likelihood * cause.impact : undefined;
+
+export interface CandidateRootCause {
+  cause: Cause;
+  status: CauseStatus;
+  score?: number;
+  domain: string; // Title of the node holding the cause, or the label of the connection carrying it
+  chain: Cause[]; // Top-level factor down to this cause
+}
+
+/**
+ * Visits every cause on nodes and connections, depth first, with the domain it belongs to
+ * (category, event, threat or barrier title, or connection label) and its chain from the top-level factor.
+ */
+export const walkGraphCauses = (
+  nodes: Node[],
+  edges: Edge[],
+  visit: (cause: Cause, domain: string, chain: Cause[]) => void
+) => {
+  const nodeTitle = (id: string) => nodes.find(n => n.id === id)?.data.title || id;
+  const walk = (cause: Cause, domain: string, chain: Cause[]) => {
+    const path = [...chain, cause];
+    visit(cause, domain, path);
+    getSubCauses(cause).forEach(sub => walk(sub, domain, path));
+  };
+
+  nodes
+    .filter(holdsCauses)
+    .forEach(n => ((n.data.causes as Cause[]) || []).forEach(c => walk(c, n.data.title, [])));
+  edges.forEach(e => ((e.data?.causes as Cause[]) || []).forEach(c =>
+    walk(c, (e.label as string) || `${nodeTitle(e.source)} → ${nodeTitle(e.target)}`, [])
+  ));
+};
+
+const STATUS_RANK: Record<CauseStatus, number> = {
+  [CauseStatus.ROOT_CAUSE]: 3,
+  [CauseStatus.VALIDATED]: 2,
+  [CauseStatus.HYPOTHESIS]: 1,
+  [CauseStatus.REJECTED]: 0
+};
+
+/**
+ * Ranks every non-rejected cause across all categories and connections: designated root
+ * causes first, then validated, then hypotheses. Within a status, higher likelihood × impact
+ * wins, then more evidence, then a deeper why-chain.
+ */
+export const rankCandidateRootCauses = (nodes: Node[], edges: Edge[]): CandidateRootCause[] => {
+  const candidates: CandidateRootCause[] = [];
+
+  walkGraphCauses(nodes, edges, (cause, domain, chain) => {
+    const status = getCauseStatus(cause);
+    if (status !== CauseStatus.REJECTED) {
+      candidates.push({ cause, status, score: riskScore(cause), domain, chain });
+    }
+  });
+
+  return candidates.sort((a, b) =>
+    STATUS_RANK[b.status] - STATUS_RANK[a.status]
+    || (b.score || 0) - (a.score || 0)
+    || b.cause.evidence.length - a.cause.evidence.length
+    || b.chain.length - a.chain.length
+  );
+};
+
+// Applies an update to one cause wherever it lives (any node or edge, any depth)
+export const updateCauseInGraph = (
+  nodes: Node[],
+  edges: Edge[],
+  causeId: string,
+  updater: (c: Cause) => Cause
+): { nodes: Node[]; edges: Edge[] } => ({
+  nodes: nodes.map(n => !n.data.causes?.length ? n : { ...n, data: { ...n.data, causes: updateCauseInTree(n.data.causes, causeId, updater) } }),
+  edges: edges.map(e => !e.data?.causes?.length ? e : { ...e, data: { ...e.data, causes: updateCauseInTree(e.data.causes, causeId, updater) } })
+});
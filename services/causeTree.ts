@@ -0,0 +1,40 @@
+import { Cause } from '../types';
+
+// Helpers for walking the nested Cause tree (5 Whys chains).
+// All update helpers are immutable and return new arrays.
+
+export const getSubCauses = (cause: Cause): Cause[] => cause.subCauses || [];
+
+export const flattenCauses = (causes: Cause[]): Cause[] =>
+  causes.flatMap(c => [c, ...flattenCauses(getSubCauses(c))]);
+
+export const countCauses = (causes: Cause[] = []): number => flattenCauses(causes).length;
+
+export const findCause = (causes: Cause[], predicate: (c: Cause) => boolean): Cause | undefined =>
+  flattenCauses(causes).find(predicate);
+
+export const findCauseById = (causes: Cause[], id: string): Cause | undefined =>
+  findCause(causes, c => c.id === id);
+
+// The cause holding a given piece of evidence, anywhere in the tree
+export const findCauseByEvidenceId = (causes: Cause[], evidenceId: string): Cause | undefined =>
+  findCause(causes, c => c.evidence.some(ev => ev.id === evidenceId));
+
+export const updateCauseInTree = (causes: Cause[], id: string, updater: (c: Cause) => Cause): Cause[] =>
+  causes.map(c => {
+    if (c.id === id) return updater(c);
+    if (!c.subCauses) return c;
+    return { ...c, subCauses: updateCauseInTree(c.subCauses, id, updater) };
+  });
+
+export const addSubCause = (causes: Cause[], parentId: string, child: Cause): Cause[] =>
+  updateCauseInTree(causes, parentId, c => ({ ...c, subCauses: [...getSubCauses(c), child] }));
+
+export const removeCauseFromTree = (causes: Cause[], id: string): Cause[] =>
+  causes
+    .filter(c => c.id !== id)
+    .map(c => (c.subCauses ? { ...c, subCauses: removeCauseFromTree(c.subCauses, id) } : c));
+
+// Depth of the deepest "why" below (and including) this cause
+export const whyDepth = (cause: Cause): number =>
+  1 + Math.max(0, ...getSubCauses(cause).map(whyDepth));
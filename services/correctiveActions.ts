@@ -0,0 +1,67 @@
+import { Node } from 'reactflow';
+import { ActionStatus, ActionType, CorrectiveAction } from '../types';
+import { findTopEvent } from './rcaMethods';
+
+// The action plan (CAPA): corrective and preventive actions linked to causes.
+// It is stored on the problem node, so undo, autosave and the save file carry it with the diagram.
+
+export const getActionStatus = (action: CorrectiveAction): ActionStatus => action.status || ActionStatus.OPEN;
+
+export const getActionType = (action: CorrectiveAction): ActionType => action.type || ActionType.CORRECTIVE;
+
+export const getActions = (nodes: Node[]): CorrectiveAction[] => findTopEvent(nodes)?.data.actions || [];
+
+// Returns the nodes with the plan replaced; unchanged when there is no problem node to hold it
+export const setActions = (nodes: Node[], actions: CorrectiveAction[]): Node[] => {
+  const holder = findTopEvent(nodes);
+  return !holder ? nodes : nodes.map(n => n.id === holder.id ? { ...n, data: { ...n.data, actions } } : n);
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Past its due date and not yet implemented
+export const isOverdue = (action: CorrectiveAction, asOf = today()) =>
+  !!action.dueDate && action.dueDate < asOf
+  && [ActionStatus.OPEN, ActionStatus.IN_PROGRESS].includes(getActionStatus(action));
+
+export const actionsForCause = (actions: CorrectiveAction[], causeId: string) =>
+  actions.filter(a => a.causeIds.includes(causeId));
+
+// Progress order, so a cause is only as far along as its least advanced action
+const PROGRESS: ActionStatus[] = [ActionStatus.OPEN, ActionStatus.IN_PROGRESS, ActionStatus.IMPLEMENTED, ActionStatus.VERIFIED];
+
+export interface CauseActionSummary {
+  status: ActionStatus; // Least advanced live action; cancelled only when every action is
+  count: number;
+  overdue: boolean;
+}
+
+/**
+ * What a cause marker shows for a cause and its why-chain (pass every ID in it): actions usually
+ * address the deepest "why", while the card lists the top-level factor. Undefined when no action applies.
+ */
+export const summarizeCauseActions = (actions: CorrectiveAction[], causeIds: string[]): CauseActionSummary | undefined => {
+  const linked = actions.filter(a => a.causeIds.some(id => causeIds.includes(id)));
+  if (linked.length === 0) return undefined;
+  const live = linked.map(getActionStatus).filter(s => s !== ActionStatus.CANCELLED);
+  return {
+    status: live.length === 0 ? ActionStatus.CANCELLED : PROGRESS[Math.min(...live.map(s => PROGRESS.indexOf(s)))],
+    count: linked.length,
+    overdue: linked.some(a => isOverdue(a))
+  };
+};
+
+export interface ActionPlanSummary {
+  total: number;
+  byStatus: Record<ActionStatus, number>;
+  overdue: number;
+}
+
+export const summarizeActionPlan = (actions: CorrectiveAction[]): ActionPlanSummary => {
+  const byStatus = Object.fromEntries(Object.values(ActionStatus).map(s => [s, 0])) as Record<ActionStatus, number>;
+  actions.forEach(a => byStatus[getActionStatus(a)]++);
+  return { total: actions.length, byStatus, overdue: actions.filter(a => isOverdue(a)).length };
+};
+
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
@@ -0,0 +1,351 @@
+import { Node, Edge } from 'reactflow';
+import { Cause, NodeType } from '../types';
+import { getSubCauses } from './causeTree';
+import { createImagePdf, A4_LANDSCAPE, PdfImagePage } from './pdfWriter';
+
+// Renders the whole diagram (not just the viewport) to a standalone SVG built from the
+// graph model, then rasterizes it for PNG/PDF. No network access or DOM capture involved.
+
+export type DiagramFormat = 'svg' | 'png' | 'pdf';
+
+export interface DiagramExportOptions {
+  showCauses: boolean;
+  showEvidence: boolean;
+  titleBlock: boolean;
+  scale: number; // PNG/PDF raster scale
+  pdfLayout: 'fit' | 'tiled';
+}
+
+export const DEFAULT_DIAGRAM_EXPORT_OPTIONS: DiagramExportOptions = {
+  showCauses: true,
+  showEvidence: true,
+  titleBlock: true,
+  scale: 2,
+  pdfLayout: 'fit'
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RenderedDiagram {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const CARD_WIDTH = 224;
+const CARD_PADDING = 12;
+const SPINE_SIZE = 16;
+const PADDING = 40;
+const FONT = "Inter, 'Helvetica Neue', Arial, sans-serif";
+const MAX_CANVAS_SIDE = 16384;
+
+const esc = (text: string = '') =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Greedy word wrap using an average glyph width estimate
+const wrap = (text: string, fontSize: number, maxWidth: number, maxLines = Infinity): string[] => {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * 0.55)));
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxChars && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = kept[maxLines - 1].slice(0, maxChars - 1) + '…';
+    return kept;
+  }
+  return lines;
+};
+
+interface CardLine {
+  text: string;
+  size: number;
+  weight: number;
+  color: string;
+  marker?: string; // cause bullet colour
+  indent?: number;
+}
+
+const cardLines = (node: Node, options: DiagramExportOptions): CardLine[] => {
+  const isProblem = node.data.type === NodeType.PROBLEM;
+  const inner = CARD_WIDTH - CARD_PADDING * 2;
+  const lines: CardLine[] = wrap((node.data.title || '').toUpperCase(), isProblem ? 16 : 14, inner, 2)
+    .map(text => ({ text, size: isProblem ? 16 : 14, weight: 700, color: isProblem ? '#991b1b' : '#1d4ed8' }));
+
+  if (node.data.description) {
+    wrap(node.data.description, 10, inner).forEach(text =>
+      lines.push({ text, size: 10, weight: 400, color: isProblem ? '#dc2626' : '#94a3b8' }));
+  }
+
+  if (options.showCauses) {
+    const addCauses = (causes: Cause[], indent: number) => {
+      causes.forEach(cause => {
+        const hasEvidence = cause.evidence.length > 0;
+        const suffix = options.showEvidence && hasEvidence ? `  [${cause.evidence.length}]` : '';
+        wrap(cause.name + suffix, 11, inner - 12 - indent, 2).forEach((text, i) => lines.push({
+          text,
+          size: 11,
+          weight: 500,
+          color: '#334155',
+          indent,
+          marker: i === 0 ? (options.showEvidence ? (hasEvidence ? '#3b82f6' : '#94a3b8') : '#64748b') : undefined
+        }));
+        addCauses(getSubCauses(cause), indent + 10);
+      });
+    };
+    addCauses((node.data.causes as Cause[]) || [], 0);
+  }
+  return lines;
+};
+
+const lineHeight = (l: CardLine) => Math.round(l.size * 1.35);
+
+const measureCard = (lines: CardLine[]) =>
+  CARD_PADDING * 2 + lines.reduce((acc, l) => acc + lineHeight(l), 0) + 6;
+
+// Handle anchor points mirror the handles declared in RiskNode.tsx
+const anchor = (box: Box, isSpine: boolean, handle: string | null | undefined, role: 'source' | 'target') => {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  if (isSpine) return { x: cx, y: cy };
+  if (handle === 'top') return { x: cx, y: box.y };
+  if (handle === 'bottom' || handle === 'tree-in') return { x: cx, y: box.y + box.height };
+  return role === 'source' ? { x: box.x + box.width, y: cy } : { x: box.x, y: cy };
+};
+
+export const renderDiagramSvg = (nodes: Node[], edges: Edge[], options: DiagramExportOptions): RenderedDiagram => {
+  const boxes = new Map<string, Box>();
+  const linesByNode = new Map<string, CardLine[]>();
+
+  nodes.forEach(n => {
+    if (n.data.type === NodeType.SPINE) {
+      boxes.set(n.id, { x: n.position.x, y: n.position.y, width: SPINE_SIZE, height: SPINE_SIZE });
+      return;
+    }
+    const lines = cardLines(n, options);
+    linesByNode.set(n.id, lines);
+    boxes.set(n.id, { x: n.position.x, y: n.position.y, width: CARD_WIDTH, height: Math.max(70, measureCard(lines)) });
+  });
+
+  const all = [...boxes.values()];
+  const minX = Math.min(0, ...all.map(b => b.x)) - PADDING;
+  const minY = Math.min(0, ...all.map(b => b.y)) - PADDING;
+  const maxX = Math.max(0, ...all.map(b => b.x + b.width)) + PADDING;
+  const maxY = Math.max(0, ...all.map(b => b.y + b.height)) + PADDING;
+
+  const problem = nodes.find(n => n.data.type === NodeType.PROBLEM);
+  const titleHeight = options.titleBlock ? 70 : 0;
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY + titleHeight);
+  const ox = -minX;
+  const oy = -minY + titleHeight;
+
+  const parts: string[] = [];
+
+  if (options.titleBlock) {
+    parts.push(`<rect x="0" y="0" width="${width}" height="${titleHeight - 10}" fill="#f8fafc" />`);
+    parts.push(`<line x1="0" y1="${titleHeight - 10}" x2="${width}" y2="${titleHeight - 10}" stroke="#cbd5e1" />`);
+    parts.push(`<text x="${PADDING}" y="28" font-size="18" font-weight="700" fill="#0f172a">${esc(problem?.data.title || 'Root Cause Analysis')}</text>`);
+    const subtitle = [problem?.data.description, `Exported ${new Date().toLocaleDateString()}`].filter(Boolean).join(' · ');
+    parts.push(`<text x="${PADDING}" y="48" font-size="11" fill="#64748b">${esc(subtitle)}</text>`);
+  }
+
+  edges.forEach(e => {
+    const sourceBox = boxes.get(e.source);
+    const targetBox = boxes.get(e.target);
+    if (!sourceBox || !targetBox) return;
+    const sourceNode = nodes.find(n => n.id === e.source);
+    const targetNode = nodes.find(n => n.id === e.target);
+    const a = anchor(sourceBox, sourceNode?.data.type === NodeType.SPINE, e.sourceHandle, 'source');
+    const b = anchor(targetBox, targetNode?.data.type === NodeType.SPINE, e.targetHandle, 'target');
+    const stroke = (e.style?.stroke as string) || '#64748b';
+    const strokeWidth = Number(e.style?.strokeWidth) || 2;
+    parts.push(`<line x1="${a.x + ox}" y1="${a.y + oy}" x2="${b.x + ox}" y2="${b.y + oy}" stroke="${stroke}" stroke-width="${strokeWidth}" />`);
+    if (e.label) {
+      parts.push(`<text x="${(a.x + b.x) / 2 + ox}" y="${(a.y + b.y) / 2 + oy - 4}" font-size="10" text-anchor="middle" fill="#475569">${esc(String(e.label))}</text>`);
+    }
+    const edgeCauses = (e.data?.causes as Cause[]) || [];
+    if (options.showCauses && edgeCauses.length > 0) {
+      parts.push(`<circle cx="${(a.x + b.x) / 2 + ox}" cy="${(a.y + b.y) / 2 + oy}" r="7" fill="#f97316" /><text x="${(a.x + b.x) / 2 + ox}" y="${(a.y + b.y) / 2 + oy + 3}" font-size="9" text-anchor="middle" fill="#fff">${edgeCauses.length}</text>`);
+    }
+  });
+
+  nodes.forEach(n => {
+    const box = boxes.get(n.id)!;
+    const x = box.x + ox;
+    const y = box.y + oy;
+
+    if (n.data.type === NodeType.SPINE) {
+      parts.push(`<circle cx="${x + SPINE_SIZE / 2}" cy="${y + SPINE_SIZE / 2}" r="4" fill="#64748b" />`);
+      return;
+    }
+
+    const isProblem = n.data.type === NodeType.PROBLEM;
+    parts.push(`<rect x="${x}" y="${y}" width="${box.width}" height="${box.height}" rx="8" fill="${isProblem ? '#fef2f2' : '#ffffff'}" stroke="${isProblem ? '#f87171' : '#cbd5e1'}" stroke-width="${isProblem ? 2 : 1}" />`);
+
+    let cursor = y + CARD_PADDING;
+    let dividerDrawn = false;
+    (linesByNode.get(n.id) || []).forEach(line => {
+      if (line.indent !== undefined && !dividerDrawn) {
+        cursor += 6;
+        parts.push(`<line x1="${x + CARD_PADDING}" y1="${cursor - 3}" x2="${x + box.width - CARD_PADDING}" y2="${cursor - 3}" stroke="#e2e8f0" stroke-dasharray="3 3" />`);
+        dividerDrawn = true;
+      }
+      const h = lineHeight(line);
+      const baseline = cursor + line.size;
+      const textX = x + CARD_PADDING + (line.indent !== undefined ? 12 + line.indent : 0);
+      if (line.marker) {
+        parts.push(`<circle cx="${textX - 7}" cy="${baseline - line.size / 3}" r="3" fill="none" stroke="${line.marker}" stroke-width="1.5" />`);
+      }
+      parts.push(`<text x="${textX}" y="${baseline}" font-size="${line.size}" font-weight="${line.weight}" fill="${line.color}">${esc(line.text)}</text>`);
+      cursor += h;
+    });
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${esc(FONT)}">` +
+    `<rect width="100%" height="100%" fill="#ffffff" />${parts.join('')}</svg>`;
+
+  return { svg, width, height };
+};
+
+// --- Rasterizing ---
+
+const clampScale = (width: number, height: number, scale: number) =>
+  Math.max(0.25, Math.min(scale, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height));
+
+export const rasterizeDiagram = (diagram: RenderedDiagram, scale: number): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const effectiveScale = clampScale(diagram.width, diagram.height, scale);
+    const url = URL.createObjectURL(new Blob([diagram.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(diagram.width * effectiveScale);
+      canvas.height = Math.round(diagram.height * effectiveScale);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not rasterize diagram SVG'));
+    };
+    img.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+  });
+
+const cropCanvas = (source: HTMLCanvasElement, sx: number, sy: number, sw: number, sh: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, sw, sh);
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas;
+};
+
+// --- PDF ---
+
+const PAGE_MARGIN = 36;
+const FOOTER_SPACE = 18;
+// Tiled layout prints the diagram at 0.75pt per diagram pixel (96 dpi → 72 dpi)
+const TILED_POINTS_PER_PX = 0.75;
+
+const buildPdf = async (diagram: RenderedDiagram, options: DiagramExportOptions, title: string): Promise<Blob> => {
+  const canvas = await rasterizeDiagram(diagram, options.scale);
+  const pxPerUnit = canvas.width / diagram.width;
+  const areaWidth = A4_LANDSCAPE.width - PAGE_MARGIN * 2;
+  const areaHeight = A4_LANDSCAPE.height - PAGE_MARGIN * 2 - FOOTER_SPACE;
+  const toJpeg = async (c: HTMLCanvasElement) => new Uint8Array(await (await canvasToBlob(c, 'image/jpeg', 0.92)).arrayBuffer());
+
+  const pages: PdfImagePage[] = [];
+
+  if (options.pdfLayout === 'fit') {
+    const fit = Math.min(areaWidth / diagram.width, areaHeight / diagram.height);
+    const w = diagram.width * fit;
+    const h = diagram.height * fit;
+    pages.push({
+      jpeg: await toJpeg(canvas),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      x: PAGE_MARGIN + (areaWidth - w) / 2,
+      y: PAGE_MARGIN + FOOTER_SPACE + (areaHeight - h),
+      width: w,
+      height: h,
+      footer: title
+    });
+  } else {
+    const tileUnitsW = areaWidth / TILED_POINTS_PER_PX;
+    const tileUnitsH = areaHeight / TILED_POINTS_PER_PX;
+    const cols = Math.ceil(diagram.width / tileUnitsW);
+    const rows = Math.ceil(diagram.height / tileUnitsH);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const unitsW = Math.min(tileUnitsW, diagram.width - col * tileUnitsW);
+        const unitsH = Math.min(tileUnitsH, diagram.height - row * tileUnitsH);
+        const tile = cropCanvas(
+          canvas,
+          Math.round(col * tileUnitsW * pxPerUnit),
+          Math.round(row * tileUnitsH * pxPerUnit),
+          Math.max(1, Math.round(unitsW * pxPerUnit)),
+          Math.max(1, Math.round(unitsH * pxPerUnit))
+        );
+        const h = unitsH * TILED_POINTS_PER_PX;
+        pages.push({
+          jpeg: await toJpeg(tile),
+          pixelWidth: tile.width,
+          pixelHeight: tile.height,
+          x: PAGE_MARGIN,
+          y: PAGE_MARGIN + FOOTER_SPACE + (areaHeight - h),
+          width: unitsW * TILED_POINTS_PER_PX,
+          height: h,
+          footer: `${title}  -  Page ${pages.length + 1} of ${rows * cols} (row ${row + 1}, column ${col + 1})`
+        });
+      }
+    }
+  }
+
+  return createImagePdf(pages, A4_LANDSCAPE);
+};
+
+export const DIAGRAM_FILE_EXTENSIONS: Record<DiagramFormat, string> = {
+  svg: 'svg',
+  png: 'png',
+  pdf: 'pdf'
+};
+
+export const exportDiagram = async (
+  nodes: Node[],
+  edges: Edge[],
+  format: DiagramFormat,
+  options: DiagramExportOptions
+): Promise<Blob> => {
+  const diagram = renderDiagramSvg(nodes, edges, options);
+  if (format === 'svg') return new Blob([diagram.svg], { type: 'image/svg+xml' });
+  if (format === 'png') return canvasToBlob(await rasterizeDiagram(diagram, options.scale), 'image/png');
+
+  const problem = nodes.find(n => n.data.type === NodeType.PROBLEM);
+  return buildPdf(diagram, options, problem?.data.title || 'Root Cause Analysis');
+};
@@ -0,0 +1,141 @@
+import { Node, Edge } from 'reactflow';
+import { DiagramView, NodeType, RcaMethod } from '../types';
+import { cardHeight, cardWidth, FishboneLayout, layoutFishbone } from './fishboneLayout';
+import { bowTiePaths, faultTreeInputs, findTopEvent, getRcaMethod } from './rcaMethods';
+
+// Layouts for the other analysis methods, and the entry point that picks one for a diagram
+
+const ORIGIN_X = 50;
+const ORIGIN_Y = 50;
+
+// Fault tree: top event at the top, each gate under the event it explains, inputs in a row below
+const SIBLING_GAP = 40;
+const LEVEL_GAP = 80;
+export const GATE_WIDTH = 64; // Gates render as a compact symbol rather than a card
+export const GATE_HEIGHT = 48;
+
+// Bow-tie: threats on the left, consequences on the right, barriers in columns towards the top event
+const COLUMN_GAP = 60;
+const ROW_GAP = 40;
+
+const TREE_STYLE = { strokeWidth: 2, stroke: '#64748b' };
+
+const nodeWidth = (node: Node) => node.data.type === NodeType.GATE ? node.width ?? GATE_WIDTH : cardWidth(node);
+const nodeHeight = (node: Node) => node.data.type === NodeType.GATE ? node.height ?? GATE_HEIGHT : cardHeight(node);
+
+// Nodes whose position did not change are returned as-is, so React Flow keeps them
+const applyPositions = (nodes: Node[], positions: Map<string, { x: number; y: number }>) => nodes.map(n => {
+  const position = positions.get(n.id);
+  return !position || (position.x === n.position.x && position.y === n.position.y) ? n : { ...n, position };
+});
+
+/**
+ * Tidy top-down tree from the top event. Each subtree is as wide as its inputs side by side, and
+ * a parent is centred over them. Tree edges are rewired from the input's top to the parent's
+ * bottom; inputs that are not reached from the top event keep their place.
+ */
+export const layoutFaultTree = (nodes: Node[], edges: Edge[]): FishboneLayout => {
+  const root = findTopEvent(nodes);
+  if (!root) return { nodes, edges };
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const inputs = faultTreeInputs(nodes, edges, root.id);
+
+  const widths = new Map<string, number>();
+  const subtreeWidth = (id: string): number => {
+    const children = inputs.get(id) || [];
+    const childrenWidth = children.reduce((sum, c) => sum + subtreeWidth(c), 0) + SIBLING_GAP * Math.max(0, children.length - 1);
+    const width = Math.max(nodeWidth(byId.get(id)!), childrenWidth);
+    widths.set(id, width);
+    return width;
+  };
+  subtreeWidth(root.id);
+
+  // Every level is as tall as its tallest node
+  const levelHeights: number[] = [];
+  const measureLevels = (id: string, depth: number) => {
+    levelHeights[depth] = Math.max(levelHeights[depth] || 0, nodeHeight(byId.get(id)!));
+    (inputs.get(id) || []).forEach(c => measureLevels(c, depth + 1));
+  };
+  measureLevels(root.id, 0);
+  const levelY = levelHeights.map((_, depth) =>
+    ORIGIN_Y + levelHeights.slice(0, depth).reduce((sum, h) => sum + h + LEVEL_GAP, 0));
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const place = (id: string, left: number, depth: number) => {
+    const node = byId.get(id)!;
+    const width = widths.get(id)!;
+    // Centred in its level, so gates line up with the middle of the cards beside them
+    positions.set(id, { x: left + (width - nodeWidth(node)) / 2, y: levelY[depth] + (levelHeights[depth] - nodeHeight(node)) / 2 });
+    const children = inputs.get(id) || [];
+    const childrenWidth = children.reduce((sum, c) => sum + widths.get(c)!, 0) + SIBLING_GAP * Math.max(0, children.length - 1);
+    let cursor = left + (width - childrenWidth) / 2;
+    children.forEach(c => {
+      place(c, cursor, depth + 1);
+      cursor += widths.get(c)! + SIBLING_GAP;
+    });
+  };
+  place(root.id, ORIGIN_X, 0);
+
+  const parentOf = new Map<string, string>();
+  inputs.forEach((children, parent) => children.forEach(c => parentOf.set(c, parent)));
+  const wiring = { sourceHandle: 'top', targetHandle: 'tree-in', type: 'smoothstep' };
+  const laidOutEdges = edges.map(e =>
+    parentOf.get(e.source) === e.target ? { ...e, ...wiring, style: e.style || TREE_STYLE } : e);
+
+  return { nodes: applyPositions(nodes, positions), edges: laidOutEdges };
+};
+
+/**
+ * Bow-tie with the top event in the middle: one row per threat on the left and per consequence
+ * on the right, barriers in columns between them and the top event. Both wings are centred on the
+ * top event, and path edges leave each node from its right-hand side.
+ */
+export const layoutBowTie = (nodes: Node[], edges: Edge[]): FishboneLayout => {
+  const topEvent = findTopEvent(nodes);
+  if (!topEvent) return { nodes, edges };
+  const { threats, consequences } = bowTiePaths(nodes, edges);
+  const positions = new Map<string, { x: number; y: number }>();
+
+  const columnWidth = Math.max(nodeWidth(topEvent), ...nodes.filter(n => n.data.type !== NodeType.SPINE).map(nodeWidth)) + COLUMN_GAP;
+  const leftColumns = Math.max(0, ...threats.map(p => p.barriers.length));
+  const rightColumns = Math.max(0, ...consequences.map(p => p.barriers.length));
+  const topEventX = ORIGIN_X + (leftColumns + 1) * columnWidth;
+
+  const rowHeight = (path: { end: Node; barriers: Node[] }) => Math.max(...[path.end, ...path.barriers].map(nodeHeight)) + ROW_GAP;
+  const wingHeight = (paths: { end: Node; barriers: Node[] }[]) => paths.reduce((sum, p) => sum + rowHeight(p), 0) - (paths.length ? ROW_GAP : 0);
+  const height = Math.max(wingHeight(threats), wingHeight(consequences), nodeHeight(topEvent));
+
+  const placeWing = (paths: { end: Node; barriers: Node[] }[], columnX: (step: number, path: { barriers: Node[] }) => number) => {
+    let y = ORIGIN_Y + (height - wingHeight(paths)) / 2;
+    paths.forEach(path => {
+      const rowMiddle = y + (rowHeight(path) - ROW_GAP) / 2;
+      // Step 0 is the barrier next to the top event; the threat or consequence sits past the last column
+      [...path.barriers, path.end].forEach((node, step) => {
+        if (positions.has(node.id)) return; // Shared barrier: placed with its first path
+        positions.set(node.id, { x: columnX(step, path), y: rowMiddle - nodeHeight(node) / 2 });
+      });
+      y += rowHeight(path);
+    });
+  };
+  placeWing(threats, (step, path) => step === path.barriers.length ? ORIGIN_X : topEventX - (step + 1) * columnWidth);
+  placeWing(consequences, (step, path) => topEventX + (step === path.barriers.length ? rightColumns + 1 : step + 1) * columnWidth);
+  positions.set(topEvent.id, { x: topEventX, y: ORIGIN_Y + (height - nodeHeight(topEvent)) / 2 });
+
+  // Every hop along a path runs left to right
+  const onPath = new Set([...threats, ...consequences].flatMap(p => [p.end.id, ...p.barriers.map(b => b.id)]));
+  onPath.add(topEvent.id);
+  const laidOutEdges = edges.map(e => onPath.has(e.source) && onPath.has(e.target)
+    ? { ...e, sourceHandle: 'right', targetHandle: undefined, type: 'straight', style: e.style || TREE_STYLE }
+    : e);
+
+  return { nodes: applyPositions(nodes, positions), edges: laidOutEdges };
+};
+
+// Lays out any diagram with the layout of the method it uses
+export const layoutDiagram = (nodes: Node[], edges: Edge[], view: DiagramView = DiagramView.CARDS): FishboneLayout => {
+  switch (getRcaMethod(nodes)) {
+    case RcaMethod.FAULT_TREE: return layoutFaultTree(nodes, edges);
+    case RcaMethod.BOW_TIE: return layoutBowTie(nodes, edges);
+    default: return layoutFishbone(nodes, edges, view);
+  }
+};
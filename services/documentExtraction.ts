@@ -0,0 +1,132 @@
+import { DocumentKind, ExtractedDocument } from '../types';
+import { ATTACHMENT_LIMITS } from '../constants';
+import { readZip, ZipEntry } from './zipArchive';
+import { extractPdfText } from './pdfText';
+
+// Reads chat attachments in the browser so the file itself never leaves the machine.
+// Office files are ZIP archives of XML parts; PDFs go through the best-effort reader in pdfText.
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const documentKind = (fileName: string): DocumentKind => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'pdf') return DocumentKind.PDF;
+  if (extension === 'docx') return DocumentKind.DOCX;
+  if (extension === 'xlsx') return DocumentKind.XLSX;
+  return DocumentKind.TEXT;
+};
+
+const parseXml = (entries: ZipEntry[], path: string): Document | undefined => {
+  const entry = entries.find(e => e.name === path);
+  return entry && new DOMParser().parseFromString(new TextDecoder().decode(entry.data), 'application/xml');
+};
+
+const children = (element: Element, ns: string, localName: string) =>
+  Array.from(element.children).filter(c => c.namespaceURI === ns && c.localName === localName);
+
+// One paragraph's text, keeping tabs and manual line breaks
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (element: Element) => {
+    Array.from(element.children).forEach(child => {
+      if (child.namespaceURI === WORD_NS) {
+        if (child.localName === 't') text += child.textContent || '';
+        else if (child.localName === 'tab') text += '\t';
+        else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+      }
+      walk(child);
+    });
+  };
+  walk(paragraph);
+  return text;
+};
+
+// Paragraphs become lines; each table row becomes one line with its cells separated by " | "
+const extractDocx = (entries: ZipEntry[]): string => {
+  const body = parseXml(entries, 'word/document.xml')?.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) throw new Error('No document body found — is this a Word (.docx) file?');
+
+  const lines: string[] = [];
+  const readBlock = (element: Element) => {
+    if (element.localName === 'p') lines.push(paragraphText(element));
+    else if (element.localName === 'tbl') {
+      children(element, WORD_NS, 'tr').forEach(row => {
+        lines.push(children(row, WORD_NS, 'tc')
+          .map(cell => children(cell, WORD_NS, 'p').map(paragraphText).join(' ').trim())
+          .join(' | '));
+      });
+    }
+    else if (element.localName === 'sdt') Array.from(element.getElementsByTagNameNS(WORD_NS, 'sdtContent')[0]?.children || []).forEach(readBlock);
+  };
+  Array.from(body.children).forEach(readBlock);
+  return lines.join('\n');
+};
+
+// Resolves a relationship target against the part that owns it ("xl/workbook.xml" → "xl/...")
+const resolvePart = (target: string, base: string) =>
+  target.startsWith('/') ? target.slice(1) : `${base}${target}`.replace(/[^/]+\/\.\.\//g, '');
+
+// Each sheet under a "Sheet: name" header, one line per row with cells separated by " | "
+const extractXlsx = (entries: ZipEntry[]): string => {
+  const workbook = parseXml(entries, 'xl/workbook.xml');
+  if (!workbook) throw new Error('No workbook found — is this an Excel (.xlsx) file?');
+
+  const sharedStrings = Array.from(parseXml(entries, 'xl/sharedStrings.xml')?.getElementsByTagNameNS(SHEET_NS, 'si') || [])
+    .map(si => Array.from(si.getElementsByTagNameNS(SHEET_NS, 't')).map(t => t.textContent || '').join(''));
+  const targets = new Map(Array.from(parseXml(entries, 'xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+    .map(r => [r.getAttribute('Id'), resolvePart(r.getAttribute('Target') || '', 'xl/')]));
+
+  const cellValue = (cell: Element): string => {
+    const type = cell.getAttribute('t');
+    const value = cell.getElementsByTagNameNS(SHEET_NS, 'v')[0]?.textContent ?? '';
+    if (type === 's') return sharedStrings[Number(value)] ?? '';
+    if (type === 'inlineStr') return Array.from(cell.getElementsByTagNameNS(SHEET_NS, 't')).map(t => t.textContent || '').join('');
+    if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+    return value;
+  };
+
+  const sections = Array.from(workbook.getElementsByTagNameNS(SHEET_NS, 'sheet')).map(sheet => {
+    const path = targets.get(sheet.getAttributeNS(RELATIONSHIP_NS, 'id'));
+    const rows = path ? Array.from(parseXml(entries, path)?.getElementsByTagNameNS(SHEET_NS, 'row') || []) : [];
+    const lines = rows
+      .map(row => children(row, SHEET_NS, 'c').map(cellValue))
+      .filter(cells => cells.some(Boolean))
+      .map(cells => cells.join(' | '));
+    return [`Sheet: ${sheet.getAttribute('name') || 'Untitled'}`, ...lines].join('\n');
+  });
+  return sections.join('\n\n');
+};
+
+/**
+ * Extracts the text of one attachment. Throws for files that are too large or cannot be read;
+ * a readable file with little or no text comes back with a warning instead.
+ */
+export const extractDocumentText = async (file: File): Promise<ExtractedDocument> => {
+  if (file.size > ATTACHMENT_LIMITS.maxFileBytes) {
+    throw new Error(`${file.name} is larger than ${ATTACHMENT_LIMITS.maxFileBytes / (1024 * 1024)} MB.`);
+  }
+  const kind = documentKind(file.name);
+  let text: string;
+  let warning: string | undefined;
+
+  if (kind === DocumentKind.TEXT) {
+    text = await file.text();
+  } else if (kind === DocumentKind.PDF) {
+    text = (await extractPdfText(await file.arrayBuffer())).text;
+    if (text.length < 20) warning = 'Little or no text found — the PDF may be scanned or use fonts this reader cannot decode.';
+  } else {
+    let entries: ZipEntry[];
+    try {
+      entries = await readZip(await file.arrayBuffer());
+    } catch (error) {
+      throw new Error(`${file.name} could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    text = kind === DocumentKind.DOCX ? extractDocx(entries) : extractXlsx(entries);
+  }
+
+  text = text.replace(/\r\n?/g, '\n');
+  if (!warning && !text.trim()) warning = 'The file contains no text.';
+  return { fileName: file.name, kind, size: file.size, text, ...(warning ? { warning } : {}) };
+};
@@ -0,0 +1,17 @@
+// Triggers a browser download for generated content
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string) =>
+  downloadBlob(new Blob([content], { type: mimeType }), filename);
+
+export const dateStamp = () => new Date().toISOString().split('T')[0];
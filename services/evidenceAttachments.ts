@@ -0,0 +1,51 @@
+import { Node, Edge } from 'reactflow';
+import { AttachmentKind, Cause, Evidence, EvidenceAttachment } from '../types';
+import { flattenCauses } from './causeTree';
+
+// Pure helpers for evidence attachments; storage and browser actions live in evidenceFiles.ts
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const formatBytes = (bytes: number = 0): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const allEvidence = (nodes: Node[], edges: Edge[]): Evidence[] =>
+  [...nodes.map(n => n.data?.causes), ...edges.map(e => e.data?.causes)]
+    .flatMap((causes: Cause[] | undefined) => flattenCauses(causes || []))
+    .flatMap(c => c.evidence);
+
+// The extracted text a citation points into is stored like an attached plain-text file
+const citedSources = (ev: Evidence): EvidenceAttachment[] =>
+  (ev.citations || []).filter(c => c.sha256).map(c => ({
+    kind: AttachmentKind.FILE,
+    fileName: `${c.fileName}.txt`,
+    mimeType: 'text/plain',
+    sha256: c.sha256
+  }));
+
+// Stored files referenced anywhere in the graph, one entry per distinct hash
+export const collectFileAttachments = (nodes: Node[], edges: Edge[]): EvidenceAttachment[] => {
+  const byHash = new Map<string, EvidenceAttachment>();
+  allEvidence(nodes, edges).forEach(ev => {
+    [ev.attachment, ...citedSources(ev)].forEach(a => {
+      if (a?.kind === AttachmentKind.FILE && a.sha256 && !byHash.has(a.sha256)) byHash.set(a.sha256, a);
+    });
+  });
+  return [...byHash.values()];
+};
+
+// One-line description for reports and tooltips
+export const describeAttachment = (attachment?: EvidenceAttachment): string | undefined => {
+  if (!attachment) return undefined;
+  if (attachment.kind === AttachmentKind.FILE) {
+    return `${attachment.fileName} (${formatBytes(attachment.size)}, SHA-256 ${attachment.sha256?.slice(0, 12)}…)`;
+  }
+  if (attachment.kind === AttachmentKind.URL) return attachment.url;
+  return attachment.reference;
+};
@@ -0,0 +1,82 @@
+import { EvidenceCitation, ExtractedDocument } from '../types';
+
+// Citations from evidence back to the passage of an attached document it was drawn from.
+// Line numbers count lines of the extracted text, which is what the assistant was shown.
+
+export const formatLineRange = (start: number, end: number = start) =>
+  start === end ? `line ${start}` : `lines ${start}–${end}`;
+
+export const describeCitation = (citation: EvidenceCitation): string =>
+  citation.startLine ? `${citation.fileName}, ${formatLineRange(citation.startLine, citation.endLine)}` : citation.fileName;
+
+// Case and whitespace are ignored: extraction reflows text and models rarely copy spacing exactly
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Lines the quote spans, or undefined when the document does not contain it
+export const findQuote = (text: string, quote: string): { startLine: number; endLine: number } | undefined => {
+  const target = normalize(quote);
+  if (!target) return undefined;
+  const lineStarts: number[] = [];
+  let flat = '';
+  text.split('\n').forEach(line => {
+    lineStarts.push(flat.length);
+    const normalized = normalize(line);
+    if (normalized) flat += `${normalized} `;
+  });
+  const at = flat.indexOf(target);
+  if (at === -1) return undefined;
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line + 1;
+  };
+  return { startLine: lineAt(at), endLine: lineAt(at + target.length - 1) };
+};
+
+export interface CitationRequest {
+  sourceFile?: string;
+  quote?: string;
+  startLine?: number | string;
+  endLine?: number | string;
+}
+
+const MAX_LINE_EXCERPT = 400;
+
+const toLine = (value: unknown) => value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Checks a citation against the attached documents. A quote is located in the text and its line
+ * range recorded; without a quote (or when the quote is not in the document) the given line range
+ * is used and the quote becomes the text of those lines, so every stored citation is verbatim.
+ */
+export const resolveCitation = (sources: ExtractedDocument[], request: CitationRequest): { citation: EvidenceCitation } | { error: string } => {
+  const { sourceFile, quote } = request;
+  const names = sources.map(d => `"${d.fileName}"`).join(', ');
+  if (sources.length === 0) return { error: 'No attached documents to cite. Ask the user to attach the source document' };
+  const source = sourceFile
+    ? sources.find(d => d.fileName.toLowerCase() === String(sourceFile).trim().toLowerCase())
+    : sources.length === 1 ? sources[0] : undefined;
+  if (!source) return { error: sourceFile ? `No attached document named "${sourceFile}". Attached: ${names}` : `Pass sourceFile: one of ${names}` };
+
+  const base: EvidenceCitation = { fileName: source.fileName, ...(source.sha256 ? { sha256: source.sha256 } : {}) };
+  if (quote?.trim()) {
+    // Models sometimes copy the "12: " line-number prefixes along with the text
+    const unnumbered = quote.replace(/^\s*\d+: ?/gm, '').trim();
+    const found = findQuote(source.text, quote) || findQuote(source.text, unnumbered);
+    if (found) return { citation: { ...base, quote: findQuote(source.text, quote) ? quote.trim() : unnumbered, ...found } };
+  }
+
+  const startLine = toLine(request.startLine);
+  if (startLine === undefined) {
+    return { error: quote?.trim()
+      ? `Quote not found in "${source.fileName}". Copy the passage verbatim, or pass startLine/endLine`
+      : 'Cite the passage: pass a verbatim quote and/or startLine' };
+  }
+  const lines = source.text.split('\n');
+  const endLine = toLine(request.endLine) ?? startLine;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine || endLine > lines.length) {
+    return { error: `Line range ${startLine}–${endLine} is outside "${source.fileName}" (lines 1–${lines.length})` };
+  }
+  const excerpt = lines.slice(startLine - 1, endLine).join('\n').trim().slice(0, MAX_LINE_EXCERPT);
+  return { citation: { ...base, quote: excerpt, startLine, endLine } };
+};
@@ -0,0 +1,63 @@
+import { AttachmentKind, EvidenceAttachment, ExtractedDocument } from '../types';
+import { hashBlob } from './evidenceAttachments';
+import { getArtifact, putArtifact } from './storage';
+
+// Storing, opening and verifying the artifacts behind evidence
+
+export const createFileAttachment = async (file: File): Promise<EvidenceAttachment> => {
+  const sha256 = await hashBlob(file);
+  await putArtifact({ sha256, blob: file });
+  return {
+    kind: AttachmentKind.FILE,
+    fileName: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    sha256
+  };
+};
+
+// Keeps the text extracted from a chat attachment, so evidence citing it can show the passage later
+export const storeSourceText = async (doc: ExtractedDocument): Promise<ExtractedDocument> => {
+  if (doc.sha256) return doc;
+  const blob = new Blob([doc.text], { type: 'text/plain' });
+  const sha256 = await hashBlob(blob);
+  try {
+    await putArtifact({ sha256, blob });
+  } catch (error) {
+    console.error('Could not store source text:', error);
+  }
+  return { ...doc, sha256 };
+};
+
+// The stored text behind a citation, or undefined when this browser does not have it
+export const loadSourceText = async (sha256: string): Promise<string | undefined> => {
+  const artifact = await getArtifact(sha256);
+  return artifact ? artifact.blob.text() : undefined;
+};
+
+export type IntegrityStatus = 'verified' | 'mismatch' | 'missing';
+
+// Re-hashes the stored content so a tampered or corrupted artifact is caught before it is relied on
+export const verifyArtifact = async (sha256: string): Promise<IntegrityStatus> => {
+  const artifact = await getArtifact(sha256);
+  if (!artifact) return 'missing';
+  return (await hashBlob(artifact.blob)) === sha256 ? 'verified' : 'mismatch';
+};
+
+// Opens the attachment in a new tab; returns false when there is nothing to open
+export const openAttachment = async (attachment: EvidenceAttachment): Promise<boolean> => {
+  if (attachment.kind === AttachmentKind.URL && attachment.url) {
+    window.open(attachment.url, '_blank', 'noopener,noreferrer');
+    return true;
+  }
+  if (attachment.kind !== AttachmentKind.FILE || !attachment.sha256) return false;
+
+  const artifact = await getArtifact(attachment.sha256);
+  if (!artifact) return false;
+  const blob = artifact.blob.type ? artifact.blob : new Blob([artifact.blob], { type: attachment.mimeType });
+  const url = URL.createObjectURL(blob);
+  window.open(url, '_blank');
+  // The new tab has loaded the content by then; release the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return true;
+};
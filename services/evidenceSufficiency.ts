@@ -0,0 +1,155 @@
+import { Node, Edge } from 'reactflow';
+import { AttachmentKind, Cause, CauseStatus, Evidence, EvidenceSufficiency, EvidenceType } from '../types';
+import { EVIDENCE_TYPE_LABELS, SUFFICIENCY_LABELS } from '../constants';
+import { getCauseStatus, walkGraphCauses } from './causeAssessment';
+
+// Evidence sufficiency: how well each cause is supported, and which causes still need support
+
+// Objective, recorded sources weigh more than recollection
+const TYPE_WEIGHTS: Record<EvidenceType, number> = {
+  [EvidenceType.SYSTEM_LOG]: 3,
+  [EvidenceType.RECORD]: 3,
+  [EvidenceType.DATA_ANALYSIS]: 2,
+  [EvidenceType.OBSERVATION]: 2,
+  [EvidenceType.INTERVIEW]: 1,
+  [EvidenceType.OTHER]: 1
+};
+
+const ADEQUATE_POINTS = 3;
+const STRONG_POINTS = 5;
+const STRONG_MIN_TYPES = 2;
+
+// A hashed file, a link or a quoted passage can be checked by a reviewer, a bare statement cannot
+const ATTACHMENT_BONUS = 1;
+
+const isCheckable = (evidence: Evidence) =>
+  (!!evidence.attachment && evidence.attachment.kind !== AttachmentKind.DOCUMENT) || (evidence.citations?.length || 0) > 0;
+
+export const evidenceWeight = (evidence: Evidence): number =>
+  TYPE_WEIGHTS[evidence.evidenceType || EvidenceType.OTHER] + (isCheckable(evidence) ? ATTACHMENT_BONUS : 0);
+
+export interface SufficiencyAssessment {
+  level: EvidenceSufficiency;
+  points: number;
+  count: number;
+  types: EvidenceType[]; // Distinct types among the evidence
+  reason: string;
+}
+
+export const assessSufficiency = (cause: Cause): SufficiencyAssessment => {
+  const evidence = cause.evidence || [];
+  const types = [...new Set(evidence.map(ev => ev.evidenceType || EvidenceType.OTHER))];
+  const points = evidence.reduce((sum, ev) => sum + evidenceWeight(ev), 0);
+  const typeList = types.map(t => EVIDENCE_TYPE_LABELS[t].toLowerCase()).join(', ');
+
+  if (evidence.length === 0) {
+    return { level: EvidenceSufficiency.NONE, points, count: 0, types, reason: 'No evidence recorded' };
+  }
+
+  const summary = `${evidence.length} item(s): ${typeList}`;
+  if (points >= STRONG_POINTS && types.length >= STRONG_MIN_TYPES) {
+    return { level: EvidenceSufficiency.STRONG, points, count: evidence.length, types, reason: `${summary}; corroborated by independent sources` };
+  }
+  if (points >= ADEQUATE_POINTS) {
+    return { level: EvidenceSufficiency.ADEQUATE, points, count: evidence.length, types, reason: summary };
+  }
+  return {
+    level: EvidenceSufficiency.WEAK,
+    points,
+    count: evidence.length,
+    types,
+    reason: `${summary}; corroborate with a log, record or data analysis`
+  };
+};
+
+export const isSupported = (level: EvidenceSufficiency) =>
+  level === EvidenceSufficiency.ADEQUATE || level === EvidenceSufficiency.STRONG;
+
+export interface EvidenceGap {
+  cause: Cause;
+  assessment: SufficiencyAssessment;
+  chain: Cause[]; // Top-level factor down to this cause
+}
+
+export interface GapCategory {
+  domain: string;
+  total: number;
+  gaps: EvidenceGap[];
+}
+
+export interface GapReport {
+  total: number; // Causes that count towards readiness (everything except rejected)
+  supported: number;
+  levels: Record<EvidenceSufficiency, number>;
+  categories: GapCategory[]; // Only categories that have gaps
+  readyForQa: boolean;
+}
+
+/**
+ * Lists unsupported and weakly supported causes by category. Rejected causes are left out:
+ * they need no further evidence. The analysis is ready for QA review when it has causes
+ * and none of them is a gap.
+ */
+export const buildGapReport = (nodes: Node[], edges: Edge[]): GapReport => {
+  const levels = {
+    [EvidenceSufficiency.NONE]: 0,
+    [EvidenceSufficiency.WEAK]: 0,
+    [EvidenceSufficiency.ADEQUATE]: 0,
+    [EvidenceSufficiency.STRONG]: 0
+  };
+  const byDomain = new Map<string, GapCategory>();
+  let total = 0;
+
+  walkGraphCauses(nodes, edges, (cause, domain, chain) => {
+    if (getCauseStatus(cause) === CauseStatus.REJECTED) return;
+    const assessment = assessSufficiency(cause);
+    total++;
+    levels[assessment.level]++;
+
+    const category = byDomain.get(domain) || { domain, total: 0, gaps: [] };
+    category.total++;
+    if (!isSupported(assessment.level)) category.gaps.push({ cause, assessment, chain });
+    byDomain.set(domain, category);
+  });
+
+  const supported = levels[EvidenceSufficiency.ADEQUATE] + levels[EvidenceSufficiency.STRONG];
+  return {
+    total,
+    supported,
+    levels,
+    categories: [...byDomain.values()].filter(c => c.gaps.length > 0),
+    readyForQa: total > 0 && supported === total
+  };
+};
+
+export const renderGapReportMarkdown = (report: GapReport, title: string): string => {
+  const lines = [
+    `# Evidence Gap Report: ${title}`,
+    '',
+    `**Status:** ${report.readyForQa ? 'Ready for QA review' : 'Not ready for QA review'}`,
+    '',
+    `**Supported causes:** ${report.supported} of ${report.total}`,
+    '',
+    Object.values(EvidenceSufficiency)
+      .map(level => `- ${SUFFICIENCY_LABELS[level]}: ${report.levels[level]}`)
+      .join('\n'),
+    ''
+  ];
+
+  if (report.total === 0) {
+    lines.push('_No causes recorded yet._');
+  } else if (report.categories.length === 0) {
+    lines.push('_Every cause has adequate evidence._');
+  }
+
+  report.categories.forEach(category => {
+    lines.push(`## ${category.domain} (${category.gaps.length} of ${category.total} need evidence)`, '');
+    category.gaps.forEach(({ cause, assessment, chain }) => {
+      const path = chain.length > 1 ? ` _(via ${chain.slice(0, -1).map(c => c.name).join(' → ')})_` : '';
+      lines.push(`- **${cause.name}**${path}: ${SUFFICIENCY_LABELS[assessment.level]}. ${assessment.reason}`);
+    });
+    lines.push('');
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisRecord, Cause, CauseStatus, NodeType } from '../types';
+import { buildFindingsIndex, clusterCauses, searchFindings, suggestCauses } from './findingsIndex';
+
+const record = (id: string, problem: string, causes: Cause[]): AnalysisRecord => ({
+  id,
+  name: `Analysis ${id}`,
+  createdAt: 0,
+  updatedAt: 0,
+  nodes: [
+    { id: 'problem', position: { x: 0, y: 0 }, data: { type: NodeType.PROBLEM, title: problem } },
+    { id: 'people', position: { x: 0, y: 0 }, data: { type: NodeType.CATEGORY, title: 'People', causes } }
+  ],
+  edges: [{ id: 'e', source: 'people', target: 'problem' }],
+  messages: []
+});
+
+const cause = (id: string, name: string, status?: CauseStatus): Cause => ({ id, name, evidence: [], ...(status ? { status } : {}) });
+
+const index = buildFindingsIndex([
+  record('a', 'Duplicate vendor payments', [cause('a1', 'Lack of segregation of duties', CauseStatus.ROOT_CAUSE), cause('a2', 'Outdated vendor master')]),
+  record('b', 'Unapproved journal entries', [cause('b1', 'No segregation of duties in posting')]),
+  record('c', 'Payroll overpayment', [cause('c1', 'Lack of SoD'), cause('c2', 'Manual timesheets')])
+]);
+
+describe('findingsIndex', () => {
+  it('groups differently worded causes, including abbreviations, across analyses', () => {
+    const [recurring] = clusterCauses(index);
+
+    expect(recurring.analysisIds.sort()).toEqual(['a', 'b', 'c']);
+    expect(recurring.rootCauseCount).toBe(1);
+    expect(recurring.label).toBe('Lack of segregation of duties');
+  });
+
+  it('finds past findings despite a typo', () => {
+    const hits = searchFindings(index, 'timesheet', { kinds: ['cause'] });
+    expect(hits.map(h => h.finding.text)).toEqual(['Manual timesheets']);
+    expect(searchFindings(index, 'segregaton').length).toBeGreaterThan(0);
+  });
+
+  it('suggests recurring causes that are not on the canvas yet', () => {
+    const suggestions = suggestCauses(index, 'Duplicate vendor payments', { existing: ['Outdated vendor master'] });
+    const names = suggestions.map(s => s.name);
+
+    expect(names).toContain('Lack of segregation of duties');
+    expect(names).not.toContain('Outdated vendor master');
+  });
+});
@@ -0,0 +1,303 @@
+import { Node, Edge } from 'reactflow';
+import { AnalysisRecord, CauseStatus } from '../types';
+import { getCauseStatus, walkGraphCauses } from './causeAssessment';
+import { findTopEvent } from './rcaMethods';
+
+// A local index over every saved analysis, so recurring root causes can be found across
+// investigations. Matching is keyword based with light stemming, a few audit abbreviations
+// and typo tolerance; nothing leaves the browser.
+
+export type FindingKind = 'problem' | 'cause' | 'evidence';
+
+export interface Finding {
+  id: string; // Unique within the index
+  analysisId: string;
+  analysisName: string;
+  updatedAt: number;
+  kind: FindingKind;
+  text: string;
+  domain?: string; // Category or event the cause sits on
+  causeName?: string; // Evidence: the cause it supports
+  status?: CauseStatus; // Causes only
+  terms: string[]; // Normalized, unique
+}
+
+export interface FindingsIndex {
+  findings: Finding[];
+  documentFrequency: Map<string, number>;
+  analysisCount: number;
+}
+
+// Deficiency words say nothing about the theme: "no segregation of duties" and
+// "inadequate segregation of duties" are the same finding
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'by', 'with', 'at', 'from', 'as', 'is', 'are', 'was', 'were',
+  'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'not', 'no', 'non', 'lack', 'lacking', 'missing', 'absent',
+  'absence', 'insufficient', 'inadequate', 'ineffective', 'poor', 'weak', 'without', 'did', 'does', 'do', 'has', 'have', 'had',
+  'there', 'their', 'which', 'who', 'when', 'due', 'into', 'than', 'but', 'so', 'any', 'all', 'some', 'such'
+]);
+
+// Shorthand auditors use for findings, expanded so it matches the written-out form
+const ABBREVIATIONS: Record<string, string> = {
+  sod: 'segregation duties',
+  uar: 'user access review',
+  kyc: 'know your customer',
+  aml: 'anti money laundering',
+  sop: 'standard operating procedure',
+  sla: 'service level agreement',
+  'maker-checker': 'dual approval',
+  'four-eyes': 'dual approval',
+  '4-eyes': 'dual approval'
+};
+
+// Plural and tense endings, enough for "duties" to meet "duty" and "reviewed" to meet "review"
+const stem = (word: string) => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (/(ss|sh|ch|x)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] => {
+  const words = (text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || [])
+    .flatMap(word => (ABBREVIATIONS[word] || word).split(/[\s-]+/));
+  return [...new Set(words.filter(w => w.length > 1 && !STOP_WORDS.has(w)).map(stem))];
+};
+
+const findingId = (analysisId: string, kind: FindingKind, key: string) => `${analysisId}:${kind}:${key}`;
+
+// Problem statement, causes at every depth, and their evidence, for each analysis
+export const buildFindingsIndex = (records: AnalysisRecord[]): FindingsIndex => {
+  const findings: Finding[] = [];
+  records.forEach(record => {
+    const base = { analysisId: record.id, analysisName: record.name, updatedAt: record.updatedAt };
+    const nodes = record.nodes || [];
+    const problem = findTopEvent(nodes);
+    const statement = problem ? [problem.data.title, problem.data.description].filter(Boolean).join(' — ') : '';
+    if (statement) {
+      findings.push({ ...base, id: findingId(record.id, 'problem', problem!.id), kind: 'problem', text: statement, terms: tokenize(statement) });
+    }
+    walkGraphCauses(nodes, record.edges || [], (cause, domain) => {
+      const causeText = [cause.name, cause.description].filter(Boolean).join(' — ');
+      findings.push({
+        ...base, id: findingId(record.id, 'cause', cause.id), kind: 'cause', text: cause.name, domain,
+        status: getCauseStatus(cause), terms: tokenize(causeText)
+      });
+      (cause.evidence || []).forEach(ev => {
+        const evidenceText = [ev.name, ev.description].filter(Boolean).join(' — ');
+        findings.push({ ...base, id: findingId(record.id, 'evidence', ev.id), kind: 'evidence', text: ev.name, domain, causeName: cause.name, terms: tokenize(evidenceText) });
+      });
+    });
+  });
+
+  const documentFrequency = new Map<string, number>();
+  findings.forEach(f => f.terms.forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+  return { findings, documentFrequency, analysisCount: records.length };
+};
+
+// Rare terms decide a match; a term in every finding hardly counts
+const idf = (index: FindingsIndex, term: string) =>
+  Math.log(1 + (index.findings.length || 1) / (index.documentFrequency.get(term) || 1));
+
+const withinOneEdit = (a: string, b: string) => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+};
+
+// 1 for the same term, less for a prefix ("reconcil" / "reconciliation") or a one-letter typo
+const termMatch = (query: string, term: string) => {
+  if (query === term) return 1;
+  if (query.length >= 4 && term.startsWith(query)) return 0.8;
+  if (term.length >= 4 && query.startsWith(term)) return 0.8;
+  if (query.length >= 5 && term.length >= 5 && withinOneEdit(query, term)) return 0.7;
+  return 0;
+};
+
+/**
+ * Cosine similarity of two term sets, each term weighted by its rarity in the index.
+ * Used to group causes and to compare problem statements.
+ */
+export const termSimilarity = (index: FindingsIndex, a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const weight = (t: string) => idf(index, t) ** 2;
+  const inB = new Set(b);
+  const shared = a.filter(t => inB.has(t)).reduce((sum, t) => sum + weight(t), 0);
+  if (shared === 0) return 0;
+  const norm = (terms: string[]) => Math.sqrt(terms.reduce((sum, t) => sum + weight(t), 0));
+  return shared / (norm(a) * norm(b));
+};
+
+export interface FindingHit {
+  finding: Finding;
+  score: number;
+}
+
+interface SearchOptions {
+  kinds?: FindingKind[];
+  limit?: number;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Keyword search with typo tolerance: a finding matches when it covers at least half of the
+ * query's weight. Exact phrase matches and confirmed root causes rank first.
+ */
+export const searchFindings = (index: FindingsIndex, query: string, options: SearchOptions = {}): FindingHit[] => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+  const phrase = normalize(query);
+  const total = queryTerms.reduce((sum, t) => sum + idf(index, t), 0);
+
+  return index.findings
+    .filter(f => !options.kinds || options.kinds.includes(f.kind))
+    .map(finding => {
+      const covered = queryTerms.reduce((sum, q) =>
+        sum + idf(index, q) * Math.max(0, ...finding.terms.map(t => termMatch(q, t))), 0);
+      const coverage = covered / total;
+      const bonus = (normalize(finding.text).includes(phrase) ? 0.25 : 0)
+        + (finding.status === CauseStatus.ROOT_CAUSE ? 0.05 : 0);
+      return { finding, coverage, score: coverage + bonus };
+    })
+    .filter(hit => hit.coverage >= 0.5)
+    .sort((a, b) => b.score - a.score || b.finding.updatedAt - a.finding.updatedAt)
+    .slice(0, options.limit ?? 50)
+    .map(({ finding, score }) => ({ finding, score }));
+};
+
+export interface CauseCluster {
+  id: string;
+  label: string; // The wording used most often
+  members: Finding[];
+  analysisIds: string[];
+  rootCauseCount: number; // Members confirmed as root causes
+}
+
+// Similarity at which two cause wordings are treated as the same finding
+const CLUSTER_THRESHOLD = 0.5;
+
+/**
+ * Groups similarly worded causes across analyses. Each cause joins the group whose first member
+ * it most resembles, or starts a new one. Recurring clusters (in two or more analyses) come first,
+ * most widespread first.
+ */
+export const clusterCauses = (index: FindingsIndex, options: { minAnalyses?: number; threshold?: number } = {}): CauseCluster[] => {
+  const threshold = options.threshold ?? CLUSTER_THRESHOLD;
+  const groups: Finding[][] = [];
+  index.findings
+    .filter(f => f.kind === 'cause' && f.terms.length > 0 && f.status !== CauseStatus.REJECTED)
+    .forEach(cause => {
+      let best: Finding[] | undefined;
+      let bestScore = threshold;
+      groups.forEach(group => {
+        const score = termSimilarity(index, cause.terms, group[0].terms);
+        if (score >= bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      });
+      if (best) best.push(cause);
+      else groups.push([cause]);
+    });
+
+  return groups
+    .map((members): CauseCluster => {
+      // The most used wording; on a tie, one confirmed as a root cause, then the first recorded
+      const wordings = new Map<string, { text: string; count: number; confirmed: boolean }>();
+      members.forEach(m => {
+        const key = normalize(m.text);
+        const seen = wordings.get(key);
+        wordings.set(key, { text: m.text, count: (seen?.count || 0) + 1, confirmed: !!seen?.confirmed || m.status === CauseStatus.ROOT_CAUSE });
+      });
+      const label = [...wordings.values()]
+        .sort((a, b) => b.count - a.count || Number(b.confirmed) - Number(a.confirmed))[0].text;
+      return {
+        id: members[0].id,
+        label,
+        members,
+        analysisIds: [...new Set(members.map(m => m.analysisId))],
+        rootCauseCount: members.filter(m => m.status === CauseStatus.ROOT_CAUSE).length
+      };
+    })
+    .filter(c => c.analysisIds.length >= (options.minAnalyses ?? 2))
+    .sort((a, b) => b.analysisIds.length - a.analysisIds.length || b.rootCauseCount - a.rootCauseCount || b.members.length - a.members.length);
+};
+
+export interface SimilarFindings {
+  problems: FindingHit[]; // Past problem statements like this one
+  causes: { causeId: string; causeName: string; matches: FindingHit[] }[]; // Per cause on the canvas
+}
+
+// Lower than the cluster threshold: a shared theme is worth showing even when the wording differs
+const SIMILAR_THRESHOLD = 0.35;
+
+// Past findings that resemble the open analysis: its problem statement, then each of its causes
+export const findSimilarFindings = (index: FindingsIndex, nodes: Node[], edges: Edge[], limit = 5): SimilarFindings => {
+  const problem = findTopEvent(nodes);
+  const statement = problem ? tokenize(`${problem.data.title || ''} ${problem.data.description || ''}`) : [];
+  const ranked = (terms: string[], kind: FindingKind) => index.findings
+    .filter(f => f.kind === kind)
+    .map(finding => ({ finding, score: termSimilarity(index, terms, finding.terms) }))
+    .filter(hit => hit.score >= SIMILAR_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const causes: SimilarFindings['causes'] = [];
+  walkGraphCauses(nodes, edges, cause => {
+    const matches = ranked(tokenize([cause.name, cause.description].filter(Boolean).join(' ')), 'cause');
+    if (matches.length) causes.push({ causeId: cause.id, causeName: cause.name, matches });
+  });
+  return { problems: ranked(statement, 'problem'), causes };
+};
+
+export interface CauseSuggestion {
+  name: string;
+  domain?: string; // Where it was most often recorded
+  analysisNames: string[];
+  rootCauseCount: number;
+  score: number;
+}
+
+/**
+ * Candidate causes for a problem, drawn from past analyses. A cause scores for resembling the
+ * query itself, or for coming from an analysis whose problem resembles it; confirmed root causes
+ * and findings that recur across analyses rank higher. Causes already on the canvas are left out.
+ */
+export const suggestCauses = (
+  index: FindingsIndex,
+  query: string,
+  options: { existing?: string[]; limit?: number } = {}
+): CauseSuggestion[] => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+  const existing = (options.existing || []).map(tokenize);
+  const problemTerms = new Map(index.findings.filter(f => f.kind === 'problem').map(f => [f.analysisId, f.terms]));
+
+  return clusterCauses(index, { minAnalyses: 1 })
+    .filter(cluster => !existing.some(terms => termSimilarity(index, terms, cluster.members[0].terms) >= CLUSTER_THRESHOLD))
+    .map((cluster): CauseSuggestion => {
+      const relevance = Math.max(...cluster.members.map(m => Math.max(
+        termSimilarity(index, queryTerms, m.terms),
+        0.8 * termSimilarity(index, queryTerms, problemTerms.get(m.analysisId) || [])
+      )));
+      const domains = new Map<string, number>();
+      cluster.members.forEach(m => m.domain && domains.set(m.domain, (domains.get(m.domain) || 0) + 1));
+      const analysisNames = [...new Set(cluster.members.map(m => m.analysisName))];
+      return {
+        name: cluster.label,
+        domain: [...domains.entries()].sort((a, b) => b[1] - a[1])[0]?.[0],
+        analysisNames,
+        rootCauseCount: cluster.rootCauseCount,
+        score: relevance === 0 ? 0 : relevance + 0.1 * Math.log(cluster.analysisIds.length) + (cluster.rootCauseCount ? 0.15 : 0)
+      };
+    })
+    .filter(s => s.score >= 0.15)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 8);
+};
@@ -0,0 +1,290 @@
+import { Node, Edge } from 'reactflow';
+import { Cause, DiagramView, NodeType } from '../types';
+import { countCauses, getSubCauses } from './causeTree';
+import { getCauseStatus } from './causeAssessment';
+
+// Fishbone layout: lays the spine out left to right from the tail to the problem (head),
+// with one pair of category ribs per spine segment, top rib first. Rib length grows with the
+// number of factors a category holds, and segments widen so neighbouring cards never overlap.
+
+const SPINE_Y = 300;
+const TAIL_X = 50;
+const MIN_SEGMENT = 350;  // Spine spacing of the starter diagram
+const HEAD_GAP = 250;     // Last spine point to the problem card
+const COLUMN_GAP = 40;    // Minimum space between cards in the same row
+
+// Rib length is the vertical clearance between the spine and the card's near edge
+const RIB_MIN_LENGTH = 120;
+const RIB_LENGTH_PER_FACTOR = 12;
+const RIB_MAX_LENGTH = 260;
+const RIB_SLANT = 0.3; // Horizontal offset of the card centre per unit of rib length
+
+// Used until React Flow has measured a card
+const CARD_WIDTH = 224;
+const CARD_BASE_HEIGHT = 70;
+const CARD_LINE_HEIGHT = 20;
+
+// Bone view: each cause is a horizontal bone whose right end sits on the rib; each "why"
+// hangs off its parent bone, shifted left by one indent per level
+export const BONE_NODE_TYPE = 'boneNode';
+export const BONE_EDGE_TYPE = 'boneEdge';
+export const BONE_ID_PREFIX = 'bone:';
+export const BONE_LABEL_HEIGHT = 18; // Bone node height; the bone line runs along its bottom edge
+export const SUB_BONE_INDENT = 36;
+const BONE_ROW_HEIGHT = 26;
+const BONE_WIDTH = 170;
+const SUB_BONE_WIDTH = 140;
+
+export const TAIL_ID = 'spine_tail';
+
+const SPINE_STYLE = { strokeWidth: 4, stroke: '#475569' };
+const RIB_STYLE = { strokeWidth: 2, stroke: '#64748b' };
+
+export const cardWidth = (node: Node) => node.width ?? CARD_WIDTH;
+export const cardHeight = (node: Node) => node.height ?? CARD_BASE_HEIGHT + CARD_LINE_HEIGHT * (node.data.causes?.length || 0);
+
+// Cards lose their cause list in the bone view; their measured height may still be the card view's
+const layoutCardHeight = (node: Node, view: DiagramView) =>
+  view === DiagramView.BONES && node.data.type === NodeType.CATEGORY ? CARD_BASE_HEIGHT : cardHeight(node);
+
+// In the bone view every cause and "why" takes a row along the rib, so the rib is as long as it needs
+const ribLength = (node: Node, view: DiagramView) => view === DiagramView.BONES
+  ? Math.max(RIB_MIN_LENGTH, (countCauses(node.data.causes) + 1) * BONE_ROW_HEIGHT)
+  : Math.min(RIB_MAX_LENGTH, RIB_MIN_LENGTH + RIB_LENGTH_PER_FACTOR * countCauses(node.data.causes));
+
+interface BoneRow {
+  cause: Cause;
+  depth: number;
+  parent?: Cause;
+}
+
+const boneRows = (causes: Cause[] = [], depth = 0, parent?: Cause): BoneRow[] =>
+  causes.flatMap(cause => [{ cause, depth, parent }, ...boneRows(getSubCauses(cause), depth + 1, cause)]);
+
+const boneWidth = (depth: number) => (depth === 0 ? BONE_WIDTH : SUB_BONE_WIDTH);
+
+// How far a category's bones reach left of the rib
+const boneReach = (node: Node) =>
+  Math.max(0, ...boneRows(node.data.causes).map(row => row.depth * SUB_BONE_INDENT + boneWidth(row.depth)));
+
+const isSpine = (node: Node) => node.data.type === NodeType.SPINE;
+
+const spinePoints = (nodes: Node[]) =>
+  nodes.filter(n => isSpine(n) && n.id !== TAIL_ID).sort((a, b) => a.position.x - b.position.x);
+
+const minSegments = (ribCount: number) => Math.max(1, Math.ceil(ribCount / 2));
+
+export interface FishboneLayout {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+/**
+ * Computes spine, rib and head positions from the graph's structure. Every category becomes a
+ * rib: ribs already attached to the spine keep their order, unattached categories are appended
+ * towards the head. Spine points are added to fit, and the spine and rib edges are rebuilt; all
+ * other edges (connections between categories) are left untouched. Ribs fill the slots from the
+ * tail, so any free slots are on the segments nearest the head.
+ */
+export const layoutFishbone = (nodes: Node[], edges: Edge[], view: DiagramView = DiagramView.CARDS): FishboneLayout => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const problem = nodes.find(n => n.id === 'problem' && n.data.type === NodeType.PROBLEM)
+    || nodes.find(n => n.data.type === NodeType.PROBLEM);
+  const existingSpines = spinePoints(nodes);
+  const categories = nodes.filter(n => n.data.type === NodeType.CATEGORY);
+  if (!problem && categories.length === 0) return { nodes, edges }; // Nothing to hang a spine on
+
+  const isRibEdge = (e: Edge) => byId.get(e.source)?.data.type === NodeType.CATEGORY && !!byId.get(e.target) && isSpine(byId.get(e.target)!);
+  const isSpineEdge = (e: Edge) => {
+    const source = byId.get(e.source);
+    const target = byId.get(e.target);
+    return !!source && !!target && isSpine(source) && (isSpine(target) || target === problem);
+  };
+
+  // Current rib order: spine position, top before bottom; unattached categories follow
+  const spineRank = new Map(existingSpines.map((s, i) => [s.id, i]));
+  const ribEdgeOf = new Map<string, Edge>();
+  edges.filter(isRibEdge).forEach(e => {
+    if (!ribEdgeOf.has(e.source) && spineRank.has(e.target)) ribEdgeOf.set(e.source, e);
+  });
+  const slotOf = (category: Node) => {
+    const rib = ribEdgeOf.get(category.id);
+    if (!rib) return Number.MAX_SAFE_INTEGER;
+    return spineRank.get(rib.target)! * 2 + (category.position.y < SPINE_Y ? 0 : 1);
+  };
+  const ribs = categories
+    .map((category, index) => ({ category, slot: slotOf(category), index }))
+    .sort((a, b) => a.slot - b.slot || a.index - b.index)
+    .map(r => r.category);
+
+  // One spine point per pair of ribs; reuse existing points in order, then mint new ones.
+  // Empty segments added by hand stay until they are removed
+  const segmentCount = Math.max(minSegments(ribs.length), existingSpines.length);
+  const spineIds = existingSpines.slice(0, segmentCount).map(s => s.id);
+  for (let k = 1; spineIds.length < segmentCount; k++) {
+    const id = `spine_${k}`;
+    if (!byId.has(id) && !spineIds.includes(id)) spineIds.push(id);
+  }
+
+  // Walk the segments tail to head, pushing each one right until its cards clear the previous ones
+  const positions = new Map<string, { x: number; y: number }>();
+  const spineXs: number[] = [];
+  const rowRight = [-Infinity, -Infinity]; // Right edge of the last card in the top and bottom rows
+  for (let i = 0; i < segmentCount; i++) {
+    const pair = [ribs[i * 2], ribs[i * 2 + 1]];
+    let x = i === 0 ? TAIL_X + MIN_SEGMENT : spineXs[i - 1] + MIN_SEGMENT;
+    pair.forEach((rib, row) => {
+      if (!rib) return;
+      const centreOffset = ribLength(rib, view) * RIB_SLANT;
+      x = Math.max(x, rowRight[row] + COLUMN_GAP + cardWidth(rib) / 2 + centreOffset);
+      // Bones start at the rib's card end and reach left; keep them clear of the previous segment
+      if (view === DiagramView.BONES && i > 0) x = Math.max(x, spineXs[i - 1] + COLUMN_GAP + centreOffset + boneReach(rib));
+    });
+    spineXs.push(x);
+
+    pair.forEach((rib, row) => {
+      if (!rib) return;
+      const left = x - ribLength(rib, view) * RIB_SLANT - cardWidth(rib) / 2;
+      const y = row === 0 ? SPINE_Y - ribLength(rib, view) - layoutCardHeight(rib, view) : SPINE_Y + ribLength(rib, view);
+      positions.set(rib.id, { x: left, y });
+      rowRight[row] = left + cardWidth(rib);
+    });
+  }
+
+  positions.set(TAIL_ID, { x: TAIL_X, y: SPINE_Y });
+  spineIds.forEach((id, i) => positions.set(id, { x: spineXs[i], y: SPINE_Y }));
+  if (problem) {
+    positions.set(problem.id, { x: spineXs[spineXs.length - 1] + HEAD_GAP, y: SPINE_Y - cardHeight(problem) / 2 });
+  }
+
+  // Nodes: keep the originals unless they move; drop surplus spine points, add missing ones
+  const keptSpines = new Set([TAIL_ID, ...spineIds]);
+  const spineNode = (id: string): Node => ({
+    id,
+    type: 'processNode',
+    position: positions.get(id)!,
+    data: { id, type: NodeType.SPINE, title: '', causes: [] }
+  });
+  const laidOutNodes = nodes
+    .filter(n => !isSpine(n) || keptSpines.has(n.id))
+    .map(n => {
+      const position = positions.get(n.id);
+      return !position || (position.x === n.position.x && position.y === n.position.y) ? n : { ...n, position };
+    });
+  [...keptSpines].filter(id => !byId.has(id)).forEach(id => laidOutNodes.push(spineNode(id)));
+
+  // Edges: rebuild the spine chain and one rib per category, reusing edges that already match
+  const chain = [TAIL_ID, ...spineIds, ...(problem ? [problem.id] : [])];
+  const spineEdges: Edge[] = chain.slice(1).map((target, i) => {
+    const source = chain[i];
+    return edges.find(e => e.source === source && e.target === target && isSpineEdge(e))
+      || { id: `s-${source}-${target}`, source, target, style: SPINE_STYLE, type: 'straight' };
+  });
+  const ribEdges: Edge[] = ribs.map((rib, index) => {
+    const isTop = index % 2 === 0;
+    const wiring = {
+      target: spineIds[Math.floor(index / 2)],
+      sourceHandle: isTop ? 'bottom' : 'top',
+      targetHandle: isTop ? 'rib-top' : 'rib-bottom'
+    };
+    const existing = edges.find(e => e.source === rib.id && isRibEdge(e));
+    return existing
+      ? { ...existing, ...wiring }
+      : { id: `e-rib-${rib.id}`, source: rib.id, style: RIB_STYLE, type: 'straight', ...wiring };
+  });
+  const nodeIds = new Set(laidOutNodes.map(n => n.id));
+  const otherEdges = edges.filter(e => !isSpineEdge(e) && !isRibEdge(e) && nodeIds.has(e.source) && nodeIds.has(e.target));
+
+  return { nodes: laidOutNodes, edges: [...spineEdges, ...ribEdges, ...otherEdges] };
+};
+
+// Rib slots along the spine: a top and a bottom slot per segment
+export const spineSlots = (nodes: Node[]) => {
+  const ribs = nodes.filter(n => n.data.type === NodeType.CATEGORY).length;
+  const segments = Math.max(minSegments(ribs), spinePoints(nodes).length);
+  return { segments, freeSlots: segments * 2 - ribs, canRemoveSegment: segments > minSegments(ribs) };
+};
+
+// Adds an empty segment at the head end of the spine
+export const addSpineSegment = (nodes: Node[], edges: Edge[], view: DiagramView = DiagramView.CARDS): FishboneLayout => {
+  const points = spinePoints(nodes);
+  let k = points.length + 1;
+  while (nodes.some(n => n.id === `spine_${k}`)) k++;
+  const id = `spine_${k}`;
+  // Placed past the last point so the layout keeps it last
+  const x = (points[points.length - 1]?.position.x ?? TAIL_X) + MIN_SEGMENT;
+  const point: Node = { id, type: 'processNode', position: { x, y: SPINE_Y }, data: { id, type: NodeType.SPINE, title: '', causes: [] } };
+  return layoutFishbone([...nodes, point], edges, view);
+};
+
+// Removes the segment nearest the head, as long as the remaining slots still hold every rib
+export const removeSpineSegment = (nodes: Node[], edges: Edge[], view: DiagramView = DiagramView.CARDS): FishboneLayout | null => {
+  if (!spineSlots(nodes).canRemoveSegment) return null;
+  const points = spinePoints(nodes);
+  const last = points[points.length - 1].id;
+  return layoutFishbone(nodes.filter(n => n.id !== last), edges.filter(e => e.source !== last && e.target !== last), view);
+};
+
+const SPINE_POINT_SIZE = 16; // Spine nodes render as a 16px square
+
+/**
+ * Derives the bone view's display-only nodes and edges from the current positions: one bone per
+ * cause of each category that hangs on the spine, spread evenly along its rib from the card to the
+ * spine. Causes on connections between categories stay in the connection editor.
+ */
+export const buildBoneView = (nodes: Node[], edges: Edge[]): { nodes: Node[]; edges: Edge[]; ribbed: Set<string> } => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const boneNodes: Node[] = [];
+  const boneEdges: Edge[] = [];
+  const ribbed = new Set<string>();
+
+  edges.forEach(edge => {
+    const category = byId.get(edge.source);
+    const spine = byId.get(edge.target);
+    if (category?.data.type !== NodeType.CATEGORY || !spine || !isSpine(spine) || ribbed.has(category.id)) return;
+    ribbed.add(category.id);
+
+    const isTop = category.position.y < spine.position.y;
+    const cardX = category.position.x + cardWidth(category) / 2;
+    const card = { x: cardX, y: isTop ? category.position.y + cardHeight(category) : category.position.y };
+    const spinePoint = { x: spine.position.x + SPINE_POINT_SIZE / 2, y: spine.position.y + (isTop ? 0 : SPINE_POINT_SIZE) };
+
+    const rows = boneRows(category.data.causes);
+    const rightEnds = new Map<string, number>();
+    rows.forEach(({ cause, depth, parent }, index) => {
+      const t = (index + 1) / (rows.length + 1);
+      const lineY = card.y + (spinePoint.y - card.y) * t;
+      const right = parent ? rightEnds.get(parent.id)! - SUB_BONE_INDENT : card.x + (spinePoint.x - card.x) * t;
+      const width = boneWidth(depth);
+      rightEnds.set(cause.id, right);
+
+      boneNodes.push({
+        id: `${BONE_ID_PREFIX}${cause.id}`,
+        type: BONE_NODE_TYPE,
+        position: { x: right - width, y: lineY - BONE_LABEL_HEIGHT },
+        draggable: false,
+        selectable: false,
+        deletable: false,
+        data: { cause, depth, width }
+      });
+      if (parent) {
+        boneEdges.push({
+          id: `${BONE_ID_PREFIX}${parent.id}-${cause.id}`,
+          type: BONE_EDGE_TYPE,
+          source: `${BONE_ID_PREFIX}${parent.id}`,
+          sourceHandle: 'branch',
+          target: `${BONE_ID_PREFIX}${cause.id}`,
+          targetHandle: 'end',
+          focusable: false,
+          deletable: false,
+          data: { status: getCauseStatus(cause) }
+        });
+      }
+    });
+  });
+
+  return { nodes: boneNodes, edges: boneEdges, ribbed };
+};
+
+export const isBoneId = (id: string) => id.startsWith(BONE_ID_PREFIX);
+export const causeIdOfBone = (id: string) => id.slice(BONE_ID_PREFIX.length);
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Node } from 'reactflow';
+import { Cause, ChangeKind, NodeType } from '../types';
+import { buildProposedChanges, diffGraphs } from './graphDiff';
+
+const category = (id: string, title: string, causes: Cause[] = []): Node => ({
+  id,
+  position: { x: 0, y: 0 },
+  data: { id, type: NodeType.CATEGORY, title, description: '', causes }
+});
+
+const cause = (id: string, name: string, subCauses?: Cause[]): Cause => ({ id, name, evidence: [], ...(subCauses ? { subCauses } : {}) });
+
+describe('diffGraphs', () => {
+  it('reports a renamed category without moving its causes', () => {
+    const causes = [cause('c1', 'Insufficient training', [cause('c2', 'No onboarding plan')])];
+    const diff = diffGraphs(
+      { nodes: [category('people', 'People', causes)], edges: [] },
+      { nodes: [category('people', 'Staff', causes)], edges: [] }
+    );
+
+    expect(diff).toEqual([{ kind: ChangeKind.CHANGED, entity: 'node', label: 'Staff', detail: 'was "People"' }]);
+  });
+
+  it('sees a move between two categories with the same title', () => {
+    const moving = cause('c1', 'Manual reconciliation');
+    const diff = diffGraphs(
+      { nodes: [category('a', 'Process', [moving]), category('b', 'Process')], edges: [] },
+      { nodes: [category('a', 'Process'), category('b', 'Process', [moving])], edges: [] }
+    );
+
+    expect(diff).toEqual([{ kind: ChangeKind.CHANGED, entity: 'cause', label: 'Manual reconciliation', detail: 'moved to Process' }]);
+  });
+
+  it('reports a sub-cause moved under another cause', () => {
+    const before = [cause('a', 'A', [cause('x', 'X')]), cause('b', 'B')];
+    const after = [cause('a', 'A'), cause('b', 'B', [cause('x', 'X')])];
+    const diff = diffGraphs(
+      { nodes: [category('people', 'People', before)], edges: [] },
+      { nodes: [category('people', 'People', after)], edges: [] }
+    );
+
+    expect(diff).toEqual([{ kind: ChangeKind.CHANGED, entity: 'cause', label: 'X', detail: 'moved to under "B"' }]);
+  });
+
+  it('reports added and removed causes and evidence', () => {
+    const withEvidence = { ...cause('c1', 'Stale access'), evidence: [{ id: 'e1', name: 'Access review' }] };
+    const diff = diffGraphs(
+      { nodes: [category('people', 'People', [cause('c0', 'Old'), cause('c1', 'Stale access')])], edges: [] },
+      { nodes: [category('people', 'People', [withEvidence])], edges: [] }
+    );
+
+    expect(diff).toContainEqual({ kind: ChangeKind.ADDED, entity: 'evidence', label: 'Access review', detail: 'Stale access' });
+    expect(diff).toContainEqual({ kind: ChangeKind.REMOVED, entity: 'cause', label: 'Old', detail: 'People' });
+  });
+});
+
+describe('buildProposedChanges', () => {
+  it('previews each call on top of the ones before it', () => {
+    const nodes = [category('people', 'People')];
+    const changes = buildProposedChanges(nodes, [], [
+      { name: 'update_node', args: { id: 'people', title: 'Staff' } },
+      { name: 'add_cause', args: { targetId: 'people', targetType: 'NODE', name: 'Key person dependency' } }
+    ]);
+
+    expect(changes.map(c => c.diff)).toEqual([
+      [{ kind: ChangeKind.CHANGED, entity: 'node', label: 'Staff', detail: 'was "People"' }],
+      [{ kind: ChangeKind.ADDED, entity: 'cause', label: 'Key person dependency', detail: 'Staff' }]
+    ]);
+  });
+
+  it('marks a call that would fail as having no effect', () => {
+    const [change] = buildProposedChanges([category('people', 'People')], [], [
+      { name: 'add_cause', args: { targetId: 'nowhere', targetType: 'NODE', name: 'Lost' } }
+    ]);
+
+    expect(change.diff).toEqual([]);
+    expect(change.summary).toBe('add_cause (no effect on current diagram)');
+  });
+});
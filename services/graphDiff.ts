@@ -0,0 +1,189 @@
+import { Node, Edge } from 'reactflow';
+import { v4 as uuidv4 } from 'uuid';
+import { Cause, ChangeKind, CorrectiveAction, DiffEntry, ExtractedDocument, NodeType, ProposedChange, ToolCall } from '../types';
+import { ACTION_STATUS_LABELS, CAUSE_STATUS_LABELS } from '../constants';
+import { getCauseStatus, riskScore } from './causeAssessment';
+import { getSubCauses } from './causeTree';
+import { getActions, getActionStatus } from './correctiveActions';
+import { applyToolCalls } from './toolExecutor';
+import { describeCitation } from './evidenceCitations';
+
+interface CauseContainer {
+  label: string;
+  causes: Cause[];
+}
+
+const isStructural = (node?: Node) => node?.data?.type === NodeType.SPINE;
+
+// Collect cause containers (category nodes and edges carrying causes) keyed by ID
+const collectContainers = (nodes: Node[], edges: Edge[]): Map<string, CauseContainer> => {
+  const containers = new Map<string, CauseContainer>();
+  nodes.forEach(n => {
+    if (!isStructural(n)) containers.set(n.id, { label: n.data.title, causes: n.data.causes || [] });
+  });
+  edges.forEach(e => {
+    const causes = (e.data?.causes as Cause[]) || [];
+    if (causes.length > 0) containers.set(e.id, { label: (e.label as string) || `${e.source} → ${e.target}`, causes });
+  });
+  return containers;
+};
+
+interface PlacedCause {
+  cause: Cause;
+  containerId: string; // Node or edge ID; moves are detected on this, so renaming a category is not a move
+  container: string; // Its label, for display
+  parent?: Cause; // For sub-causes
+}
+
+// Every cause in the graph keyed by ID, with where it sits, so moves can be told apart from add + remove
+const placeCauses = (containers: Map<string, CauseContainer>): Map<string, PlacedCause> => {
+  const placed = new Map<string, PlacedCause>();
+  const visit = (causes: Cause[], containerId: string, container: string, parent?: Cause) => causes.forEach(c => {
+    placed.set(c.id, { cause: c, containerId, container, parent });
+    visit(getSubCauses(c), containerId, container, c);
+  });
+  containers.forEach(({ label, causes }, id) => visit(causes, id, label));
+  return placed;
+};
+
+const locationOf = (p: PlacedCause) => p.parent ? `under "${p.parent.name}"` : p.container;
+
+const describeAssessment = (c: Cause) => {
+  const score = riskScore(c);
+  return `${CAUSE_STATUS_LABELS[getCauseStatus(c)]}${score ? `, score ${score}` : ''}`;
+};
+
+const diffCauses = (before: Map<string, PlacedCause>, after: Map<string, PlacedCause>): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+
+  after.forEach((placed, id) => {
+    const c = placed.cause;
+    const prevPlaced = before.get(id);
+    const prev = prevPlaced?.cause;
+    if (!prevPlaced) {
+      entries.push({ kind: ChangeKind.ADDED, entity: 'cause', label: c.name, detail: placed.container });
+    } else if (prevPlaced.parent?.id !== placed.parent?.id || prevPlaced.containerId !== placed.containerId) {
+      entries.push({ kind: ChangeKind.CHANGED, entity: 'cause', label: c.name, detail: `moved to ${locationOf(placed)}` });
+    } else if (prev!.name !== c.name || prev!.description !== c.description) {
+      entries.push({ kind: ChangeKind.CHANGED, entity: 'cause', label: c.name, detail: prev!.name !== c.name ? `was "${prev!.name}"` : placed.container });
+    } else if (getCauseStatus(prev!) !== getCauseStatus(c) || prev!.likelihood !== c.likelihood || prev!.impact !== c.impact) {
+      entries.push({ kind: ChangeKind.CHANGED, entity: 'cause', label: c.name, detail: describeAssessment(c) });
+    }
+
+    const prevEvidence = new Map((prev?.evidence || []).map(ev => [ev.id, ev]));
+    c.evidence.forEach(ev => {
+      const prevEv = prevEvidence.get(ev.id);
+      if (!prevEv) {
+        const citation = ev.citations?.[0];
+        entries.push({
+          kind: ChangeKind.ADDED,
+          entity: 'evidence',
+          label: ev.name,
+          detail: citation ? `${c.name} · ${describeCitation(citation)}` : c.name,
+          ...(citation?.quote ? { quote: citation.quote } : {})
+        });
+      } else if (prevEv.name !== ev.name || prevEv.description !== ev.description) {
+        entries.push({ kind: ChangeKind.CHANGED, entity: 'evidence', label: ev.name, detail: c.name });
+      }
+    });
+    (prev?.evidence || []).forEach(ev => {
+      if (!c.evidence.some(x => x.id === ev.id)) {
+        entries.push({ kind: ChangeKind.REMOVED, entity: 'evidence', label: ev.name, detail: c.name });
+      }
+    });
+  });
+
+  before.forEach((placed, id) => {
+    if (!after.has(id)) entries.push({ kind: ChangeKind.REMOVED, entity: 'cause', label: placed.cause.name, detail: placed.container });
+  });
+
+  return entries;
+};
+
+const diffActions = (before: CorrectiveAction[], after: CorrectiveAction[]): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  const previous = new Map(before.map(a => [a.id, a]));
+  after.forEach(action => {
+    const prev = previous.get(action.id);
+    if (!prev) {
+      entries.push({ kind: ChangeKind.ADDED, entity: 'action', label: action.title, detail: action.owner });
+    } else if (JSON.stringify(prev) !== JSON.stringify(action)) {
+      entries.push({ kind: ChangeKind.CHANGED, entity: 'action', label: action.title, detail: ACTION_STATUS_LABELS[getActionStatus(action)] });
+    }
+  });
+  before.forEach(action => {
+    if (!after.some(a => a.id === action.id)) entries.push({ kind: ChangeKind.REMOVED, entity: 'action', label: action.title });
+  });
+  return entries;
+};
+
+/**
+ * Describes what changed between two graph states in terms an auditor cares about:
+ * category/problem nodes, user-facing links, causes (any depth), evidence and the action plan.
+ * Spine nodes and the rib edges that attach to them are structural and left out.
+ */
+export const diffGraphs = (
+  before: { nodes: Node[]; edges: Edge[] },
+  after: { nodes: Node[]; edges: Edge[] }
+): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  const beforeNodes = new Map(before.nodes.map(n => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map(n => [n.id, n]));
+
+  after.nodes.forEach(n => {
+    if (isStructural(n)) return;
+    const prev = beforeNodes.get(n.id);
+    if (!prev) {
+      entries.push({ kind: ChangeKind.ADDED, entity: 'node', label: n.data.title });
+    } else if (prev.data.title !== n.data.title || prev.data.description !== n.data.description) {
+      entries.push({ kind: ChangeKind.CHANGED, entity: 'node', label: n.data.title, detail: prev.data.title !== n.data.title ? `was "${prev.data.title}"` : undefined });
+    }
+  });
+  before.nodes.forEach(n => {
+    if (!isStructural(n) && !afterNodes.has(n.id)) entries.push({ kind: ChangeKind.REMOVED, entity: 'node', label: n.data.title });
+  });
+
+  const touchesSpine = (e: Edge, lookup: Map<string, Node>) => isStructural(lookup.get(e.source)) || isStructural(lookup.get(e.target));
+  const edgeLabel = (e: Edge, lookup: Map<string, Node>) =>
+    `${lookup.get(e.source)?.data.title || e.source} → ${lookup.get(e.target)?.data.title || e.target}`;
+  const beforeEdgeIds = new Set(before.edges.map(e => e.id));
+  const afterEdgeIds = new Set(after.edges.map(e => e.id));
+  after.edges.forEach(e => {
+    if (!beforeEdgeIds.has(e.id) && !touchesSpine(e, afterNodes)) {
+      entries.push({ kind: ChangeKind.ADDED, entity: 'edge', label: edgeLabel(e, afterNodes) });
+    }
+  });
+  before.edges.forEach(e => {
+    if (!afterEdgeIds.has(e.id) && !touchesSpine(e, beforeNodes)) {
+      entries.push({ kind: ChangeKind.REMOVED, entity: 'edge', label: edgeLabel(e, beforeNodes) });
+    }
+  });
+
+  entries.push(...diffCauses(
+    placeCauses(collectContainers(before.nodes, before.edges)),
+    placeCauses(collectContainers(after.nodes, after.edges))
+  ));
+  entries.push(...diffActions(getActions(before.nodes), getActions(after.nodes)));
+
+  return entries;
+};
+
+/**
+ * Turns a batch of tool calls into reviewable proposals. Each call is previewed on top of
+ * the calls before it, so its diff reads the way it would if the whole batch were accepted.
+ */
+export const buildProposedChanges = (nodes: Node[], edges: Edge[], toolCalls: ToolCall[], sources: ExtractedDocument[] = []): ProposedChange[] => {
+  let state = { nodes, edges };
+  return toolCalls.map(toolCall => {
+    const result = applyToolCalls(state.nodes, state.edges, [toolCall], undefined, { sources });
+    const next = { nodes: result.nodes, edges: result.edges };
+    const change: ProposedChange = {
+      id: uuidv4(),
+      toolCall,
+      summary: result.changeLog.replace(/^•\s*/, '').trim() || `${toolCall.name} (no effect on current diagram)`,
+      diff: diffGraphs(state, next),
+    };
+    state = next;
+    return change;
+  });
+};
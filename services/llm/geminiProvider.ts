@@ -0,0 +1,99 @@
+import { GoogleGenAI, Content, FunctionDeclaration, Schema, Type } from "@google/genai";
+import { LLMProvider, LLMRequest, LLMResponse, ParameterSchema, StreamHandlers, ToolDeclaration, ToolRound } from './types';
+
+const SCHEMA_TYPES: Record<ParameterSchema['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+};
+
+const toGeminiSchema = (schema: ParameterSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties &&
+    Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  required: schema.required,
+});
+
+export const toGeminiDeclaration = (tool: ToolDeclaration): FunctionDeclaration => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: toGeminiSchema(tool.parameters),
+});
+
+// A round replays as the model's function calls followed by a user turn of function responses
+const toGeminiRound = (round: ToolRound): Content[] => [
+  {
+    role: 'model',
+    parts: [
+      ...(round.text ? [{ text: round.text }] : []),
+      ...round.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+    ]
+  },
+  {
+    role: 'user',
+    parts: round.calls.map((call, i) => {
+      const { ok, message, data } = round.results[i];
+      return {
+        functionResponse: { id: call.id, name: call.name, response: ok ? { output: { message, ...data } } : { error: message } }
+      };
+    })
+  }
+];
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+export const createGeminiProvider = ({ apiKey, model }: GeminiProviderConfig): LLMProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    isConfigured: !!ai,
+    generate: async (request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> => {
+      if (!ai) {
+        return { text: "API Key not configured. Please ensure process.env.API_KEY is set. The diagram can still be built by hand: use the canvas toolbar, double-click a card to edit it, or press C to add a category." };
+      }
+
+      const contents: Content[] = [
+        ...request.history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        { role: 'user', parts: [{ text: request.prompt }] },
+        ...(request.toolRounds || []).flatMap(toGeminiRound)
+      ];
+
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          tools: [{ functionDeclarations: request.tools.map(toGeminiDeclaration) }],
+          abortSignal: handlers.signal
+        }
+      });
+
+      const result: LLMResponse = { text: "", toolCalls: [] };
+
+      for await (const chunk of stream) {
+        const delta = chunk.text || "";
+        if (delta) {
+          result.text += delta;
+          handlers.onTextDelta?.(delta);
+        }
+        (chunk.functionCalls || []).forEach(call => {
+          const toolCall = { id: call.id, name: call.name, args: call.args };
+          result.toolCalls!.push(toolCall);
+          handlers.onToolCall?.(toolCall);
+        });
+      }
+
+      return result;
+    }
+  };
+};
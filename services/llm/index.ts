@@ -0,0 +1,62 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+import { LLMProvider, ProviderId } from './types';
+
+export * from './types';
+
+const PROVIDER_STORAGE_KEY = 'rca:llmProvider';
+
+// Build-time configuration (see vite.config.ts)
+const config = {
+  provider: (process.env.LLM_PROVIDER || '') as ProviderId | '',
+  geminiApiKey: process.env.API_KEY || '',
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+  openAiBaseUrl: process.env.OPENAI_BASE_URL || '',
+  openAiApiKey: process.env.OPENAI_API_KEY || '',
+  openAiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+};
+
+const providers: Record<ProviderId, LLMProvider> = {
+  gemini: createGeminiProvider({ apiKey: config.geminiApiKey, model: config.geminiModel }),
+  openai: createOpenAiProvider({ baseUrl: config.openAiBaseUrl, apiKey: config.openAiApiKey, model: config.openAiModel }),
+  mock: createMockProvider(),
+};
+
+// Providers that can serve requests in this build; the mock is always available
+export const listProviders = (): LLMProvider[] =>
+  Object.values(providers).filter(p => p.isConfigured);
+
+const defaultProviderId = (): ProviderId => {
+  if (config.provider && providers[config.provider]) return config.provider;
+  if (providers.gemini.isConfigured) return 'gemini';
+  if (providers.openai.isConfigured) return 'openai';
+  return 'gemini'; // Unconfigured: surfaces the "API Key not configured" message
+};
+
+let activeId: ProviderId = (() => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY) as ProviderId | null;
+    if (stored && providers[stored]?.isConfigured) return stored;
+  } catch {
+    // Storage unavailable (e.g. privacy mode)
+  }
+  return defaultProviderId();
+})();
+
+export const getActiveProvider = (): LLMProvider => providers[activeId];
+
+export const setActiveProvider = (id: ProviderId) => {
+  if (!providers[id]) return;
+  activeId = id;
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch {
+    // Selection just won't persist
+  }
+};
+
+// Swap in a custom provider, e.g. a scripted mock in tests
+export const registerProvider = (provider: LLMProvider) => {
+  providers[provider.id] = provider;
+};
@@ -0,0 +1,108 @@
+import { ToolCall } from '../../types';
+import { LLMProvider, LLMRequest, LLMResponse, StreamHandlers, ToolRound } from './types';
+
+const MOCK_TOKEN_DELAY_MS = 15;
+
+const tick = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    setTimeout(resolve, MOCK_TOKEN_DELAY_MS);
+  });
+
+// Deterministic scripted provider: no network, same input → same output.
+// Used in air-gapped environments and for exercising the tool pipeline in tests.
+
+export interface MockScriptStep {
+  match: RegExp; // Tested against the user's query (not the full prompt)
+  text: string;
+  toolCalls?: ToolCall[] | ((request: LLMRequest) => ToolCall[]);
+}
+
+interface ContextCause {
+  id: string;
+  name: string;
+}
+
+// First cause on any node in the serialized graph context, for scripts that drill down
+const firstCause = (graphContext: string): ContextCause | undefined => {
+  try {
+    const graph = JSON.parse(graphContext);
+    for (const node of graph.nodes || []) {
+      if (node.causes?.length > 0) return node.causes[0];
+    }
+  } catch {
+    // Not JSON: nothing to drill into
+  }
+  return undefined;
+};
+
+export const DEFAULT_MOCK_SCRIPT: MockScriptStep[] = [
+  {
+    match: /problem statement|define/i,
+    text: "Mock assistant: I've drafted a placeholder Problem Statement. Tell me the specific control failure, business unit and timeframe.",
+    toolCalls: [{ name: 'update_node', args: { id: 'problem', title: 'Control Failure Under Review', description: 'Replace with the specific failure, unit and timeframe' } }]
+  },
+  {
+    match: /5 whys|why/i,
+    text: "Mock assistant: Drilling into the first factor with one level of 'Why?'.",
+    toolCalls: request => {
+      const cause = firstCause(request.graphContext);
+      if (!cause) return [];
+      return [{
+        name: 'add_sub_cause',
+        args: { parentCauseId: cause.id, name: `Why: ${cause.name} was not prevented` }
+      }];
+    }
+  },
+  {
+    match: /domain|factor|explore/i,
+    text: "Mock assistant: Added example factors to People and Process.",
+    toolCalls: [
+      { name: 'add_cause', args: { targetId: 'people', targetType: 'NODE', name: 'Insufficient training', description: 'Example factor (mock)' } },
+      { name: 'add_cause', args: { targetId: 'process', targetType: 'NODE', name: 'Approval step not enforced', description: 'Example factor (mock)' } }
+    ]
+  },
+  {
+    match: /summary|root cause/i,
+    text: "Mock assistant: Root Cause Summary (placeholder). Use the report export for the structured audit document."
+  }
+];
+
+// Reply once the scripted calls have come back: report what applied and what failed, call nothing more
+const followUp = (rounds: ToolRound[]): string => {
+  const results = rounds[rounds.length - 1].results;
+  const failures = results.filter(r => !r.ok);
+  const applied = `Mock assistant: ${results.length - failures.length} of ${results.length} change(s) applied.`;
+  return failures.length === 0 ? applied : `${applied} Failed: ${failures.map(r => r.message).join('; ')}.`;
+};
+
+export const createMockProvider = (script: MockScriptStep[] = DEFAULT_MOCK_SCRIPT): LLMProvider & { requests: LLMRequest[] } => {
+  const requests: LLMRequest[] = [];
+
+  return {
+    id: 'mock',
+    label: 'Offline mock',
+    isConfigured: true,
+    requests,
+    generate: async (request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> => {
+      requests.push(request);
+      const isFollowUp = (request.toolRounds?.length || 0) > 0;
+      const step = isFollowUp ? undefined : script.find(s => s.match.test(request.userQuery));
+      const text = isFollowUp ? followUp(request.toolRounds!)
+        : step ? step.text : `Mock assistant received: "${request.userQuery}". No scripted action matched.`;
+      const toolCalls = !step ? [] : typeof step.toolCalls === 'function' ? step.toolCalls(request) : step.toolCalls || [];
+
+      // Emit word by word so the streaming UI behaves as it does with a real model
+      for (const word of text.split(/(?<= )/)) {
+        await tick(handlers.signal);
+        handlers.onTextDelta?.(word);
+      }
+      for (const call of toolCalls) {
+        await tick(handlers.signal);
+        handlers.onToolCall?.(call);
+      }
+
+      return { text, toolCalls };
+    }
+  };
+};
@@ -0,0 +1,141 @@
+import { MessageRole } from '../../types';
+import { LLMProvider, LLMRequest, LLMResponse, StreamHandlers, ToolDeclaration, ToolRound } from './types';
+
+// Any endpoint speaking the OpenAI Chat Completions API (e.g. an on-prem vLLM / Ollama gateway)
+
+export interface OpenAiProviderConfig {
+  baseUrl: string; // e.g. "http://llm.internal:8000/v1"
+  apiKey?: string;
+  model: string;
+}
+
+const toOpenAiTool = (tool: ToolDeclaration) => ({
+  type: 'function',
+  function: {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  }
+});
+
+// A round replays as an assistant message carrying tool_calls, then one tool message per result
+const toOpenAiRound = (round: ToolRound) => [
+  {
+    role: 'assistant',
+    content: round.text || null,
+    tool_calls: round.calls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.args || {}) }
+    }))
+  },
+  ...round.calls.map((call, i) => ({
+    role: 'tool',
+    tool_call_id: call.id,
+    content: JSON.stringify(round.results[i])
+  }))
+];
+
+const parseArguments = (raw: unknown) => {
+  if (typeof raw !== 'string') return raw || {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+};
+
+export const createOpenAiProvider = ({ baseUrl, apiKey, model }: OpenAiProviderConfig): LLMProvider => ({
+  id: 'openai',
+  label: `${model} (OpenAI-compatible)`,
+  isConfigured: !!baseUrl,
+  generate: async (request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> => {
+    if (!baseUrl) {
+      return { text: "OpenAI-compatible endpoint not configured. Please set OPENAI_BASE_URL." };
+    }
+
+    const messages = [
+      { role: 'system', content: request.systemInstruction },
+      ...request.history.map(turn => ({ role: turn.role === MessageRole.MODEL ? 'assistant' : 'user', content: turn.text })),
+      { role: 'user', content: request.prompt },
+      ...(request.toolRounds || []).flatMap(toOpenAiRound)
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        tools: request.tools.map(toOpenAiTool),
+        tool_choice: 'auto',
+        stream: true
+      }),
+      signal: handlers.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}`);
+    }
+
+    const result: LLMResponse = { text: "", toolCalls: [] };
+    // Tool call fragments arrive keyed by index; arguments are streamed as partial JSON
+    const pending = new Map<number, { id?: string; name: string; arguments: string }>();
+    const flushBefore = (index: number) => {
+      [...pending.keys()].filter(i => i < index).sort((a, b) => a - b).forEach(i => {
+        const call = pending.get(i)!;
+        pending.delete(i);
+        const toolCall = { id: call.id, name: call.name, args: parseArguments(call.arguments) };
+        result.toolCalls!.push(toolCall);
+        handlers.onToolCall?.(toolCall);
+      });
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') continue;
+
+        let delta: any;
+        try {
+          delta = JSON.parse(payload).choices?.[0]?.delta;
+        } catch {
+          continue;
+        }
+        if (!delta) continue;
+
+        if (delta.content) {
+          result.text += delta.content;
+          handlers.onTextDelta?.(delta.content);
+        }
+        (delta.tool_calls || []).forEach((fragment: any) => {
+          const index = fragment.index ?? 0;
+          flushBefore(index);
+          const call = pending.get(index) || { name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          pending.set(index, call);
+        });
+      }
+    }
+
+    flushBefore(Infinity);
+    return result;
+  }
+});
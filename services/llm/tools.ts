@@ -0,0 +1,407 @@
+import { ActionStatus, ActionType, CauseStatus, Effectiveness, EvidenceType, GateType, RcaMethod } from '../../types';
+import { ParameterSchema, ToolDeclaration } from './types';
+
+// --- Tool Definitions ---
+// Declared once in a provider-neutral schema; each provider converts them to its wire format.
+
+const addNodeTool: ToolDeclaration = {
+  name: 'add_node',
+  description: 'Add a new Category (Bone) or Node to the Fishbone diagram.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Title of the Category (e.g. "Governance")' },
+      description: { type: 'string', description: 'Optional details' },
+      id: { type: 'string', description: 'Optional unique ID. Use "problem" for the head.' }
+    },
+    required: ['title']
+  }
+};
+
+const connectNodesTool: ToolDeclaration = {
+  name: 'connect_nodes',
+  description: 'Connect a category to the problem statement or another category',
+  parameters: {
+    type: 'object',
+    properties: {
+      sourceId: { type: 'string', description: 'ID of the category' },
+      targetId: { type: 'string', description: 'ID of the problem or parent category' },
+      label: { type: 'string', description: 'Optional label' },
+    },
+    required: ['sourceId', 'targetId']
+  }
+};
+
+const updateNodeTool: ToolDeclaration = {
+  name: 'update_node',
+  description: 'Update a Category or Problem Statement text',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'ID of the node to update' },
+      title: { type: 'string', description: 'New title' },
+      description: { type: 'string', description: 'New description' },
+    },
+    required: ['id']
+  }
+};
+
+const addCauseTool: ToolDeclaration = {
+  name: 'add_cause',
+  description: 'Add a Contributing Factor (Cause) to a specific Category Node.',
+  parameters: {
+    type: 'object',
+    properties: {
+      targetId: { type: 'string', description: 'ID of the Category Node (e.g. "people", "process")' },
+      targetType: { type: 'string', description: 'Usually "NODE"' },
+      name: { type: 'string', description: 'The contributing factor or cause' },
+      description: { type: 'string', description: 'Details about the factor' },
+    },
+    required: ['targetId', 'targetType', 'name']
+  }
+};
+
+const addSubCauseTool: ToolDeclaration = {
+  name: 'add_sub_cause',
+  description: 'Add a deeper "Why" (Sub-cause) beneath an existing Cause or Sub-cause. Use this for each step of a 5 Whys chain.',
+  parameters: {
+    type: 'object',
+    properties: {
+      parentCauseId: { type: 'string', description: 'ID of the parent Cause / Sub-cause, from the graph context or an earlier tool result' },
+      name: { type: 'string', description: 'The answer to "Why?" for the parent cause' },
+      description: { type: 'string', description: 'Details about the sub-cause' },
+    },
+    required: ['parentCauseId', 'name']
+  }
+};
+
+// Objective sources (system logs, records) count for more than interviews in the sufficiency rating
+const evidenceTypeParam: ParameterSchema = {
+  type: 'string',
+  enum: Object.values(EvidenceType),
+  description: 'Kind of source: system_log, record, data_analysis, observation, interview or other'
+};
+
+const addEvidenceTool: ToolDeclaration = {
+  name: 'add_evidence',
+  description: 'Add Evidence, Artifacts, or Mitigations to a specific Cause.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of the Cause or Sub-cause to attach this evidence to' },
+      name: { type: 'string', description: 'Name of the evidence/artifact' },
+      description: { type: 'string', description: 'Description' },
+      url: { type: 'string', description: 'Optional link to the artifact' },
+      reference: { type: 'string', description: 'Optional document reference (e.g. DMS ID, policy number) when there is no URL' },
+      evidenceType: evidenceTypeParam
+    },
+    required: ['causeId', 'name']
+  }
+};
+
+// One call per finding, so each one can be reviewed and accepted on its own
+const extractEvidenceTool: ToolDeclaration = {
+  name: 'extract_evidence',
+  description: 'Record a finding from an attached document as evidence citing the exact passage. Supports an existing Cause (causeId), or creates a new Cause on a node (targetId + causeName) backed by the evidence.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of an existing Cause or Sub-cause the passage supports' },
+      targetId: { type: 'string', description: 'ID of the Category or event to add a new Cause to, when no existing Cause fits' },
+      causeName: { type: 'string', description: 'Name of the new Cause (with targetId)' },
+      causeDescription: { type: 'string', description: 'Details of the new Cause' },
+      name: { type: 'string', description: 'Name of the evidence, e.g. "Access review log, March"' },
+      description: { type: 'string', description: 'What the passage shows' },
+      evidenceType: evidenceTypeParam,
+      sourceFile: { type: 'string', description: 'File name of the attached document' },
+      quote: { type: 'string', description: 'The supporting text, copied verbatim from the document' },
+      startLine: { type: 'number', description: 'First line of the passage' },
+      endLine: { type: 'number', description: 'Last line of the passage' },
+    },
+    required: ['name', 'sourceFile', 'quote']
+  }
+};
+
+const updateCauseTool: ToolDeclaration = {
+  name: 'update_cause',
+  description: 'Rename or re-describe an existing Cause or Sub-cause.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of the Cause or Sub-cause' },
+      name: { type: 'string', description: 'New name' },
+      description: { type: 'string', description: 'New description' },
+    },
+    required: ['causeId']
+  }
+};
+
+const deleteCauseTool: ToolDeclaration = {
+  name: 'delete_cause',
+  description: 'Remove a Cause or Sub-cause, together with its sub-causes and evidence.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of the Cause or Sub-cause' },
+    },
+    required: ['causeId']
+  }
+};
+
+const moveCauseTool: ToolDeclaration = {
+  name: 'move_cause',
+  description: 'Move a Cause (with its sub-causes and evidence) beneath another cause, or to a Category Node as a top-level factor. Pass either parentCauseId or targetId.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of the Cause or Sub-cause to move' },
+      parentCauseId: { type: 'string', description: 'ID of the new parent cause' },
+      targetId: { type: 'string', description: 'ID of the Category Node (or Edge) to move it to' },
+      targetType: { type: 'string', description: 'Usually "NODE"' },
+    },
+    required: ['causeId']
+  }
+};
+
+const assessCauseTool: ToolDeclaration = {
+  name: 'assess_cause',
+  description: 'Record the assessment of a Cause or Sub-cause: its status and likelihood/impact scores. Omitted fields are left unchanged.',
+  parameters: {
+    type: 'object',
+    properties: {
+      causeId: { type: 'string', description: 'ID of the Cause or Sub-cause' },
+      status: { type: 'string', enum: Object.values(CauseStatus), description: 'hypothesis, validated (supported by evidence), rejected (ruled out) or root_cause' },
+      likelihood: { type: 'number', description: 'How likely this cause contributed, 1 (rare) to 5 (almost certain)' },
+      impact: { type: 'number', description: 'How much it contributed to the problem, 1 (minor) to 5 (severe)' },
+    },
+    required: ['causeId']
+  }
+};
+
+const updateEvidenceTool: ToolDeclaration = {
+  name: 'update_evidence',
+  description: 'Rename or re-describe an existing piece of Evidence.',
+  parameters: {
+    type: 'object',
+    properties: {
+      evidenceId: { type: 'string', description: 'ID of the evidence item' },
+      name: { type: 'string', description: 'New name' },
+      description: { type: 'string', description: 'New description' },
+      evidenceType: evidenceTypeParam
+    },
+    required: ['evidenceId']
+  }
+};
+
+const deleteEvidenceTool: ToolDeclaration = {
+  name: 'delete_evidence',
+  description: 'Remove a piece of Evidence from its Cause.',
+  parameters: {
+    type: 'object',
+    properties: {
+      evidenceId: { type: 'string', description: 'ID of the evidence item' },
+    },
+    required: ['evidenceId']
+  }
+};
+
+const clearGraphTool: ToolDeclaration = {
+  name: 'clear_graph',
+  description: 'Delete all nodes and edges to start with an empty canvas.',
+  parameters: {
+    type: 'object',
+    properties: {},
+  }
+};
+
+// --- Fault tree ---
+
+const gateParam: ParameterSchema = {
+  type: 'string',
+  enum: Object.values(GateType),
+  description: 'AND: every input must occur. OR: any one input is enough'
+};
+
+const addGateTool: ToolDeclaration = {
+  name: 'add_gate',
+  description: 'Add a logic gate below the top event or an intermediate event. Each event has at most one gate.',
+  parameters: {
+    type: 'object',
+    properties: {
+      parentId: { type: 'string', description: 'ID of the event the gate explains ("problem" for the top event)' },
+      gate: gateParam,
+      id: { type: 'string', description: 'Optional unique ID' }
+    },
+    required: ['parentId', 'gate']
+  }
+};
+
+const setGateTool: ToolDeclaration = {
+  name: 'set_gate',
+  description: 'Switch an existing gate between AND and OR.',
+  parameters: {
+    type: 'object',
+    properties: {
+      gateId: { type: 'string', description: 'ID of the gate' },
+      gate: gateParam
+    },
+    required: ['gateId', 'gate']
+  }
+};
+
+const addFaultEventTool: ToolDeclaration = {
+  name: 'add_fault_event',
+  description: 'Add an input event to a gate. Intermediate events can be explained further by their own gate; basic events are leaves.',
+  parameters: {
+    type: 'object',
+    properties: {
+      parentId: { type: 'string', description: 'ID of the gate this event feeds' },
+      title: { type: 'string', description: 'What happens (e.g. "Reconciliation not reviewed")' },
+      description: { type: 'string', description: 'Optional details' },
+      basic: { type: 'boolean', description: 'True for a basic event that is not developed further' },
+      id: { type: 'string', description: 'Optional unique ID' }
+    },
+    required: ['parentId', 'title']
+  }
+};
+
+// --- Bow-tie ---
+
+const addThreatTool: ToolDeclaration = {
+  name: 'add_threat',
+  description: 'Add a Threat on the left of the bow-tie, with a path to the top event.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'What could lead to the top event' },
+      description: { type: 'string', description: 'Optional details' },
+      id: { type: 'string', description: 'Optional unique ID' }
+    },
+    required: ['title']
+  }
+};
+
+const addConsequenceTool: ToolDeclaration = {
+  name: 'add_consequence',
+  description: 'Add a Consequence on the right of the bow-tie, with a path from the top event.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'What the top event could lead to' },
+      description: { type: 'string', description: 'Optional details' },
+      id: { type: 'string', description: 'Optional unique ID' }
+    },
+    required: ['title']
+  }
+};
+
+const addBarrierTool: ToolDeclaration = {
+  name: 'add_barrier',
+  description: 'Add a Barrier (control) on the path of a threat (preventive) or consequence (mitigative), next to the top event.',
+  parameters: {
+    type: 'object',
+    properties: {
+      pathNodeId: { type: 'string', description: 'ID of the threat or consequence whose path the barrier sits on' },
+      title: { type: 'string', description: 'Name of the control' },
+      description: { type: 'string', description: 'Optional details, e.g. whether it worked' },
+      id: { type: 'string', description: 'Optional unique ID' }
+    },
+    required: ['pathNodeId', 'title']
+  }
+};
+
+// --- Action plan (CAPA) ---
+
+const actionFields: Record<string, ParameterSchema> = {
+  description: { type: 'string', description: 'What will be done, and how it removes or contains the cause' },
+  type: { type: 'string', enum: Object.values(ActionType), description: 'corrective (fixes this problem) or preventive (stops it recurring elsewhere). Defaults to corrective' },
+  owner: { type: 'string', description: 'Person or role accountable for the action' },
+  dueDate: { type: 'string', description: 'Target date, YYYY-MM-DD' },
+};
+
+const proposeActionTool: ToolDeclaration = {
+  name: 'propose_action',
+  description: 'Add a corrective or preventive action to the management action plan, linked to the causes it addresses. New actions are open.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Short statement of the action' },
+      causeIds: { type: 'array', items: { type: 'string' }, description: 'IDs of the Causes or Sub-causes the action addresses' },
+      ...actionFields,
+      id: { type: 'string', description: 'Optional unique ID for the action' },
+    },
+    required: ['title', 'causeIds']
+  }
+};
+
+const updateActionTool: ToolDeclaration = {
+  name: 'update_action',
+  description: 'Update an action on the plan: its details, linked causes, progress, or the verification of its effectiveness. Omitted fields are left unchanged.',
+  parameters: {
+    type: 'object',
+    properties: {
+      actionId: { type: 'string', description: 'ID of the action' },
+      title: { type: 'string', description: 'New title' },
+      causeIds: { type: 'array', items: { type: 'string' }, description: 'Replaces the linked Cause IDs' },
+      ...actionFields,
+      status: { type: 'string', enum: Object.values(ActionStatus), description: 'open, in_progress, implemented, verified (checked for effectiveness) or cancelled' },
+      effectiveness: { type: 'string', enum: Object.values(Effectiveness), description: 'Outcome of the effectiveness check' },
+      verificationMethod: { type: 'string', description: 'How effectiveness was checked, e.g. re-performance on a sample' },
+      verifiedBy: { type: 'string', description: 'Who checked effectiveness' },
+      verifiedAt: { type: 'string', description: 'Date of the check, YYYY-MM-DD' },
+    },
+    required: ['actionId']
+  }
+};
+
+// --- Past analyses ---
+
+// Read-only: looks up findings from other saved analyses and changes nothing
+const suggestCausesTool: ToolDeclaration = {
+  name: 'suggest_causes',
+  description: 'Look up candidate causes recorded in past root cause analyses saved in this workspace, ranked by how closely they match the problem and how often they recurred. Changes nothing on the diagram.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to match, e.g. a theme or failure. Defaults to the current problem statement' },
+      limit: { type: 'number', description: 'Maximum suggestions to return (default 8)' },
+    },
+  }
+};
+
+// Tools that only read; they run straight away even when edits are held for review
+export const LOOKUP_TOOLS = [suggestCausesTool.name];
+export const isLookupTool = (name: string) => LOOKUP_TOOLS.includes(name);
+
+// Factor, "why" and evidence tools work the same in every method, as does the action plan
+const CAUSE_TOOLS: ToolDeclaration[] = [
+  addCauseTool,
+  addSubCauseTool,
+  addEvidenceTool,
+  extractEvidenceTool,
+  updateCauseTool,
+  deleteCauseTool,
+  moveCauseTool,
+  assessCauseTool,
+  updateEvidenceTool,
+  deleteEvidenceTool,
+  proposeActionTool,
+  updateActionTool,
+  suggestCausesTool
+];
+
+export const RCA_TOOLS: ToolDeclaration[] = [
+  addNodeTool,
+  connectNodesTool,
+  updateNodeTool,
+  clearGraphTool,
+  ...CAUSE_TOOLS
+];
+
+const METHOD_TOOLS: Record<RcaMethod, ToolDeclaration[]> = {
+  [RcaMethod.FISHBONE]: RCA_TOOLS,
+  [RcaMethod.FAULT_TREE]: [updateNodeTool, addGateTool, setGateTool, addFaultEventTool, ...CAUSE_TOOLS],
+  [RcaMethod.BOW_TIE]: [updateNodeTool, addThreatTool, addConsequenceTool, addBarrierTool, ...CAUSE_TOOLS]
+};
+
+export const getToolsForMethod = (method: RcaMethod): ToolDeclaration[] => METHOD_TOOLS[method];
@@ -0,0 +1,63 @@
+import { MessageRole, ToolCall, ToolResult } from '../../types';
+
+// Provider-neutral contracts for the assistant's language model backends
+
+export interface ParameterSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: string[];
+  items?: ParameterSchema;
+  properties?: Record<string, ParameterSchema>;
+  required?: string[];
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ParameterSchema & { type: 'object' };
+}
+
+export interface ChatTurn {
+  role: MessageRole;
+  text: string;
+}
+
+// One completed round of the tool loop: what the model said and called, and what happened
+export interface ToolRound {
+  text: string;
+  calls: ToolCall[]; // Every call carries an id
+  results: ToolResult[]; // Same order as calls
+}
+
+export interface LLMRequest {
+  systemInstruction: string;
+  history: ChatTurn[];
+  prompt: string; // Final user turn, including graph context and attachments
+  tools: ToolDeclaration[];
+  toolRounds?: ToolRound[]; // Earlier rounds of this turn, replayed after the prompt
+  // Raw parts of the prompt, for providers that script on them (e.g. the mock)
+  userQuery: string;
+  graphContext: string;
+}
+
+export interface LLMResponse {
+  text: string;
+  toolCalls?: ToolCall[];
+  aborted?: boolean; // Set when the user stopped the response
+}
+
+// Providers stream by default; callbacks fire as text and function calls arrive
+export interface StreamHandlers {
+  signal?: AbortSignal;
+  onTextDelta?: (delta: string) => void;
+  onToolCall?: (call: ToolCall) => void;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string; // Shown in the chat header
+  isConfigured: boolean;
+  generate: (request: LLMRequest, handlers?: StreamHandlers) => Promise<LLMResponse>;
+}
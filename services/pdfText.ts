@@ -0,0 +1,192 @@
+// Best-effort text extraction from PDFs, without a PDF library: inflates each page content stream
+// and reads the strings its text operators show. Enough for reports and exports produced by office
+// tools; scanned PDFs and fonts with custom encodings yield little or no text.
+
+const decodeLatin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Streams that never hold page text: fonts, images, object and cross-reference streams, metadata
+const NON_CONTENT = /\/(Subtype\s*\/Image|Type\s*\/(ObjStm|XRef|Metadata|XObject)|Length1|Length2)\b/;
+
+// Finds every stream whose filters we can undo (none, or Flate alone) and returns its decoded bytes
+const contentStreams = async (bytes: Uint8Array): Promise<Uint8Array[]> => {
+  const text = decodeLatin1(bytes); // One character per byte, so indexes line up
+  const streams: Uint8Array[] = [];
+  const marker = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(text))) {
+    if (text.slice(match.index - 3, match.index) === 'end') continue;
+    const dictionary = text.slice(text.lastIndexOf(' obj', match.index), match.index);
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end === -1) break;
+    marker.lastIndex = end + 'endstream'.length;
+    if (NON_CONTENT.test(dictionary)) continue;
+
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+    const names = filters.match(/\/\w+/g) || [];
+    if (names.some(n => n !== '/FlateDecode')) continue;
+
+    // A direct /Length is exact; otherwise trim the line break before "endstream"
+    const length = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1];
+    const stop = length ? Math.min(start + Number(length), end) : end - (text[end - 2] === '\r' ? 2 : text[end - 1] === '\n' ? 1 : 0);
+    const raw = bytes.subarray(start, stop);
+    try {
+      streams.push(names.length > 0 ? await inflate(raw) : raw);
+    } catch {
+      // Damaged or encrypted stream: skip it
+    }
+  }
+  return streams;
+};
+
+// PDF strings are PDFDocEncoding (close enough to Latin-1) or UTF-16BE with a byte order mark
+const decodePdfString = (bytes: number[]): string => {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let out = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return out;
+  }
+  // Two-byte glyph codes from Identity-encoded fonts often map straight to Unicode
+  if (bytes.length >= 2 && bytes.length % 2 === 0 && bytes.every((b, i) => i % 2 === 1 || b === 0)) {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 2) out += String.fromCharCode(bytes[i + 1]);
+    return out;
+  }
+  return String.fromCharCode(...bytes);
+};
+
+type Operand = number | string | Operand[];
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+/**
+ * Reads the text a content stream shows. Strings are joined in drawing order; a line break is
+ * inserted when the text position moves down (Td/TD/T*, ' and ", or a Tm with a new baseline) and
+ * a space for wide kerning gaps inside TJ arrays.
+ */
+const readContentText = (content: string): string => {
+  let out = '';
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let lastY: number | undefined;
+  const push = (value: Operand) => (arrays.length ? arrays[arrays.length - 1] : operands).push(value);
+  const newLine = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const show = (value: Operand | undefined) => {
+    if (typeof value === 'string') out += value;
+    else if (Array.isArray(value)) value.forEach(part => {
+      if (typeof part === 'string') out += part;
+      else if (typeof part === 'number' && part < -200 && !out.endsWith(' ')) out += ' ';
+    });
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '%') { while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++; continue; }
+
+    if (ch === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === '\\') {
+          const next = content[i + 1];
+          if (next in ESCAPES) { bytes.push(ESCAPES[next]); i += 2; }
+          else if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+          }
+          else if (next === '\r' || next === '\n') { i += next === '\r' && content[i + 2] === '\n' ? 3 : 2; }
+          else { bytes.push(next.charCodeAt(0)); i += 2; }
+          continue;
+        }
+        if (c === '(') depth++;
+        if (c === ')' && --depth === 0) { i++; break; }
+        bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      push(decodePdfString(bytes));
+      continue;
+    }
+    if (ch === '<' && content[i + 1] !== '<') {
+      const close = content.indexOf('>', i);
+      const hex = content.slice(i + 1, close === -1 ? undefined : close).replace(/\s+/g, '');
+      const bytes = (hex.length % 2 ? hex + '0' : hex).match(/../g)?.map(h => parseInt(h, 16)) || [];
+      push(decodePdfString(bytes));
+      i = close === -1 ? content.length : close + 1;
+      continue;
+    }
+    if (ch === '[') { arrays.push([]); i++; continue; }
+    if (ch === ']') {
+      const array = arrays.pop();
+      if (array) push(array);
+      i++;
+      continue;
+    }
+
+    const word = content.slice(i).match(/^(<<|>>|\/?[^\s()<>[\]{}/%]+|.)/)![0];
+    i += word.length;
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) { push(Number(word)); continue; }
+    if (word.startsWith('/') || word === '<<' || word === '>>' || arrays.length) { push(word); continue; }
+
+    // An operator: act on the text ones, then clear the operand stack
+    const number = (index: number) => {
+      const value = operands[operands.length + index];
+      return typeof value === 'number' ? value : 0;
+    };
+    switch (word) {
+      case 'Tj': show(operands[operands.length - 1]); break;
+      case 'TJ': show(operands[operands.length - 1]); break;
+      case "'": newLine(); show(operands[operands.length - 1]); break;
+      case '"': newLine(); show(operands[operands.length - 1]); break;
+      case 'T*': newLine(); break;
+      case 'Td':
+      case 'TD':
+        if (number(-1) !== 0) newLine();
+        else if (number(-2) > 0 && !out.endsWith(' ')) out += ' ';
+        break;
+      case 'Tm': {
+        const y = number(-1);
+        if (lastY !== undefined && Math.abs(y - lastY) > 0.5) newLine();
+        else if (out && !/\s$/.test(out)) out += ' '; // Next run on the same baseline
+        lastY = y;
+        break;
+      }
+      case 'ET':
+        if (out && !/\s$/.test(out)) out += ' ';
+        break;
+    }
+    operands = [];
+  }
+  return out;
+};
+
+export interface PdfText {
+  text: string;
+  streams: number; // Content streams read
+}
+
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<PdfText> => {
+  const streams = await contentStreams(new Uint8Array(buffer));
+  const pages = streams
+    .map(stream => decodeLatin1(stream))
+    .filter(content => /\bBT\b/.test(content) && /T[Jj]\b|['"]/.test(content))
+    .map(readContentText);
+  const text = pages
+    .join('\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+  return { text, streams: pages.length };
+};
@@ -0,0 +1,94 @@
+// Minimal PDF 1.4 writer for image-only pages (JPEG via DCTDecode) with a text footer.
+// Enough for offline diagram export without a PDF library.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Placement on the page in points, origin bottom-left
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  footer?: string;
+}
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export const A4_LANDSCAPE: PdfPageSize = { width: 842, height: 595 };
+
+const encoder = new TextEncoder();
+
+// PDF string literal escaping; non-Latin-1 characters are replaced since we use a base-14 font
+const pdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\x7E]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+
+export const createImagePdf = (pages: PdfImagePage[], pageSize: PdfPageSize = A4_LANDSCAPE): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbering: 1 catalog, 2 pages, 3 font, then 3 objects per page (page, content, image)
+  const pageObjectId = (i: number) => 4 + i * 3;
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n');
+
+  pages.forEach((page, i) => {
+    const pageId = pageObjectId(i);
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    beginObject(pageId);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.width} ${pageSize.height}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    let content = `q ${page.width.toFixed(2)} 0 0 ${page.height.toFixed(2)} ${page.x.toFixed(2)} ${page.y.toFixed(2)} cm /Im0 Do Q\n`;
+    if (page.footer) {
+      content += `BT /F1 8 Tf 0.4 0.45 0.55 rg 36 20 Td ${pdfString(page.footer)} Tj ET\n`;
+    }
+    const contentBytes = encoder.encode(content);
+    beginObject(contentId);
+    push(`<< /Length ${contentBytes.length} >>\nstream\n`);
+    push(contentBytes);
+    push('\nendstream\nendobj\n');
+
+    beginObject(imageId);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    push(page.jpeg);
+    push('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 4 + pages.length * 3;
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  push(xref);
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Edge, Node } from 'reactflow';
+import { AnalysisRecord, Cause, CauseStatus, NodeType } from '../types';
+import { buildPortfolioTrends, filterAnalyses, portfolioCsv, toCsvRows, trendTableCsv } from './portfolioTrends';
+
+const rootCause = (id: string, name: string): Cause => ({ id, name, evidence: [], status: CauseStatus.ROOT_CAUSE });
+
+// A fishbone with the given categories, each holding that many confirmed root causes
+const analysis = (id: string, createdAt: Date, categories: Record<string, number>, extra: Partial<AnalysisRecord> = {}): AnalysisRecord => {
+  const nodes: Node[] = [{ id: 'problem', position: { x: 0, y: 0 }, data: { type: NodeType.PROBLEM, title: 'Problem' } }];
+  const edges: Edge[] = [];
+  Object.entries(categories).forEach(([title, count], i) => {
+    const causes = Array.from({ length: count }, (_, j) => rootCause(`${id}-${i}-${j}`, `${title} cause ${j}`));
+    nodes.push({ id: `cat-${i}`, position: { x: 0, y: 0 }, data: { type: NodeType.CATEGORY, title, causes } });
+    edges.push({ id: `e-${i}`, source: `cat-${i}`, target: 'problem' });
+  });
+  return { id, name: id, createdAt: createdAt.getTime(), updatedAt: createdAt.getTime(), nodes, edges, messages: [], ...extra };
+};
+
+describe('buildPortfolioTrends', () => {
+  it('keeps a category named "period" or "Other" apart from the month and the overflow series', () => {
+    const trends = buildPortfolioTrends([
+      analysis('a', new Date(2025, 2, 10), { period: 7, Other: 6, A: 5, B: 4, C: 3, D: 2, E: 1 })
+    ]);
+
+    expect(trends.categories.map(c => c.label)).toEqual(['period', 'Other', 'A', 'B', 'C', 'Other categories']);
+    expect(trends.rootCausesByCategory).toEqual([{
+      period: '2025-03',
+      counts: { 'category:period': 7, 'category:Other': 6, 'category:A': 5, 'category:B': 4, 'category:C': 3, other: 3 }
+    }]);
+  });
+
+  it('fills quiet months between analyses', () => {
+    const trends = buildPortfolioTrends([
+      analysis('a', new Date(2024, 11, 5), { People: 1 }),
+      analysis('b', new Date(2025, 1, 5), { People: 2 })
+    ]);
+
+    expect(trends.rootCausesByCategory.map(r => [r.period, r.counts['category:People']])).toEqual([
+      ['2024-12', 1], ['2025-01', 0], ['2025-02', 2]
+    ]);
+    expect(trends.evidenceCoverage[1].share).toBeNull();
+  });
+});
+
+describe('filterAnalyses', () => {
+  it('compares dates in local time', () => {
+    const justAfterMidnight = analysis('a', new Date(2025, 0, 1, 0, 30), {});
+
+    expect(filterAnalyses([justAfterMidnight], { from: '2025-01-01', to: '2025-01-01' })).toHaveLength(1);
+    expect(filterAnalyses([justAfterMidnight], { to: '2024-12-31' })).toHaveLength(0);
+  });
+
+  it('filters by business unit and template', () => {
+    const records = [
+      analysis('a', new Date(2025, 0, 1), {}, { businessUnit: 'Treasury', template: 'Audit' }),
+      analysis('b', new Date(2025, 0, 1), {}, { businessUnit: 'Payroll', template: 'Audit' })
+    ];
+
+    expect(filterAnalyses(records, { businessUnit: 'Payroll' }).map(r => r.id)).toEqual(['b']);
+    expect(filterAnalyses(records, { template: 'Audit' })).toHaveLength(2);
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes separators and neutralises spreadsheet formulas', () => {
+    expect(toCsvRows(['Factor'], [['=1+2'], ['+SUM(A1)'], ['-2'], ['@cmd'], ['\tx'], ['a, "b"'], [-2], ['plain']])).toBe(
+      ['Factor', `"'=1+2"`, `"'+SUM(A1)"`, `"'-2"`, `"'@cmd"`, `"'\tx"`, '"a, ""b"""', '-2', 'plain'].join('\r\n')
+    );
+  });
+
+  it('writes the category table with one column per series', () => {
+    const trends = buildPortfolioTrends([analysis('a', new Date(2025, 2, 10), { '=HYPERLINK()': 1, People: 2 })]);
+
+    expect(trendTableCsv(trends, 'rootCausesByCategory')).toBe(`Month,People,"'=HYPERLINK()"\r\n2025-03,2,1`);
+  });
+
+  it('heads the full export with the filter it was built with', () => {
+    const trends = buildPortfolioTrends([]);
+    const csv = portfolioCsv(trends, { businessUnit: 'Treasury' }, new Date(2025, 5, 30, 23, 30));
+
+    expect(csv.split('\r\n').slice(0, 3)).toEqual(['Portfolio trends,2025-06-30', 'Business unit,Treasury', 'Template,All']);
+  });
+});
@@ -0,0 +1,245 @@
+import { ActionStatus, AnalysisRecord, CauseStatus, RcaMethod } from '../types';
+import { RCA_METHOD_LABELS } from '../constants';
+import { getCauseStatus, walkGraphCauses } from './causeAssessment';
+import { getActions, getActionStatus, isOverdue } from './correctiveActions';
+import { getRcaMethod } from './rcaMethods';
+import { buildFindingsIndex, clusterCauses } from './findingsIndex';
+
+// Trends across the whole portfolio of saved analyses, for the dashboard and the audit committee pack.
+// Analyses are placed in time by the month they were opened.
+
+export interface PortfolioFilter {
+  businessUnit?: string; // Unset: all units
+  template?: string; // Unset: all templates
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export const NOT_RECORDED = 'Not recorded';
+
+export const businessUnitOf = (record: AnalysisRecord) => record.businessUnit?.trim() || NOT_RECORDED;
+
+// Older analyses did not record their template; other methods are named after the method
+export const templateOf = (record: AnalysisRecord) => {
+  if (record.template) return record.template;
+  const method = getRcaMethod(record.nodes || []);
+  return method === RcaMethod.FISHBONE ? NOT_RECORDED : RCA_METHOD_LABELS[method].label;
+};
+
+// Local dates, to match the date pickers and what the user saw when they opened the analysis
+const dayOf = (ts: number) => {
+  const date = new Date(ts);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+const periodOf = (ts: number) => dayOf(ts).slice(0, 7);
+
+// Every month from the first to the last, so quiet months show as gaps rather than vanish
+const monthsSpanning = (periods: string[]) => {
+  if (periods.length === 0) return [];
+  const sorted = [...periods].sort();
+  const last = sorted[sorted.length - 1];
+  let [year, month] = sorted[0].split('-').map(Number);
+  const months: string[] = [];
+  for (let period = sorted[0]; period <= last; period = `${year}-${String(month).padStart(2, '0')}`) {
+    months.push(period);
+    if (++month > 12) {
+      year++;
+      month = 1;
+    }
+  }
+  return months;
+};
+
+export const filterAnalyses = (records: AnalysisRecord[], filter: PortfolioFilter) => records.filter(r =>
+  (!filter.businessUnit || businessUnitOf(r) === filter.businessUnit)
+  && (!filter.template || templateOf(r) === filter.template)
+  && (!filter.from || dayOf(r.createdAt) >= filter.from)
+  && (!filter.to || dayOf(r.createdAt) <= filter.to)
+);
+
+export interface CategorySeries {
+  key: string; // Into CategoryTrendRow.counts
+  label: string;
+}
+
+export interface CategoryTrendRow {
+  period: string; // YYYY-MM
+  counts: Record<string, number>; // Series key -> confirmed root causes
+}
+
+export interface FactorFrequency {
+  factor: string;
+  analyses: number; // Distinct analyses it appears in
+  occurrences: number;
+  rootCauses: number; // Times confirmed as a root cause
+}
+
+export interface EvidenceCoverageRow {
+  period: string;
+  withEvidence: number;
+  withoutEvidence: number;
+  share: number | null; // Percent of causes with at least one evidence item; null in a month without causes
+}
+
+export interface ActionStatusRow {
+  period: string;
+  open: number; // Open or in progress, not past due
+  overdue: number;
+  closed: number; // Implemented or verified; cancelled actions are left out
+}
+
+export interface PortfolioTrends {
+  analyses: number;
+  causes: number;
+  rootCauses: number;
+  categories: CategorySeries[]; // Series of rootCausesByCategory, most frequent first
+  rootCausesByCategory: CategoryTrendRow[];
+  frequentFactors: FactorFrequency[];
+  evidenceCoverage: EvidenceCoverageRow[];
+  actionStatus: ActionStatusRow[];
+}
+
+// Categories beyond this many are folded into "Other" so the stacked bars stay readable
+const MAX_CATEGORY_SERIES = 6;
+// Category keys are prefixed, so a category the user called "Other" stays its own series
+const categoryKey = (category: string) => `category:${category}`;
+const OTHER_SERIES_KEY = 'other';
+
+/**
+ * Monthly series of the filtered analyses: confirmed root causes by category, evidence coverage
+ * of the causes still in play (rejected ones are left out), and the state of the action plans.
+ * Contributing factors are grouped by wording across analyses, as in the past findings panel.
+ */
+export const buildPortfolioTrends = (records: AnalysisRecord[], options: { topFactors?: number } = {}): PortfolioTrends => {
+  const periods = monthsSpanning(records.map(r => periodOf(r.createdAt)));
+  const rootCounts = new Map<string, Map<string, number>>(); // period -> category -> count
+  const categoryTotals = new Map<string, number>();
+  const coverage = new Map(periods.map(p => [p, { period: p, withEvidence: 0, withoutEvidence: 0 }]));
+  const actions = new Map(periods.map(p => [p, { period: p, open: 0, overdue: 0, closed: 0 }]));
+  let causes = 0;
+  let rootCauses = 0;
+
+  records.forEach(record => {
+    const period = periodOf(record.createdAt);
+    walkGraphCauses(record.nodes || [], record.edges || [], (cause, domain) => {
+      const status = getCauseStatus(cause);
+      if (status === CauseStatus.REJECTED) return;
+      causes++;
+      const row = coverage.get(period)!;
+      if ((cause.evidence || []).length > 0) row.withEvidence++;
+      else row.withoutEvidence++;
+      if (status !== CauseStatus.ROOT_CAUSE) return;
+      rootCauses++;
+      const byCategory = rootCounts.get(period) || new Map<string, number>();
+      byCategory.set(domain, (byCategory.get(domain) || 0) + 1);
+      rootCounts.set(period, byCategory);
+      categoryTotals.set(domain, (categoryTotals.get(domain) || 0) + 1);
+    });
+    getActions(record.nodes || []).forEach(action => {
+      const status = getActionStatus(action);
+      const row = actions.get(period)!;
+      if (status === ActionStatus.CANCELLED) return;
+      if (status === ActionStatus.IMPLEMENTED || status === ActionStatus.VERIFIED) row.closed++;
+      else if (isOverdue(action)) row.overdue++;
+      else row.open++;
+    });
+  });
+
+  const ranked = [...categoryTotals.entries()].sort((a, b) => b[1] - a[1]).map(([category]) => category);
+  const shown = ranked.length > MAX_CATEGORY_SERIES ? ranked.slice(0, MAX_CATEGORY_SERIES - 1) : ranked;
+  const seriesOf = (category: string) => shown.includes(category) ? categoryKey(category) : OTHER_SERIES_KEY;
+  const categories: CategorySeries[] = shown.map(category => ({ key: categoryKey(category), label: category }));
+  if (ranked.length > shown.length) {
+    categories.push({ key: OTHER_SERIES_KEY, label: shown.includes('Other') ? 'Other categories' : 'Other' });
+  }
+
+  const rootCausesByCategory = periods.map(period => {
+    const counts: Record<string, number> = Object.fromEntries(categories.map(c => [c.key, 0]));
+    rootCounts.get(period)?.forEach((count, category) => {
+      counts[seriesOf(category)] += count;
+    });
+    return { period, counts };
+  });
+
+  const frequentFactors = clusterCauses(buildFindingsIndex(records), { minAnalyses: 1 })
+    .slice(0, options.topFactors ?? 10)
+    .map(cluster => ({
+      factor: cluster.label,
+      analyses: cluster.analysisIds.length,
+      occurrences: cluster.members.length,
+      rootCauses: cluster.rootCauseCount
+    }));
+
+  return {
+    analyses: records.length,
+    causes,
+    rootCauses,
+    categories,
+    rootCausesByCategory,
+    frequentFactors,
+    evidenceCoverage: [...coverage.values()].map(row => {
+      const total = row.withEvidence + row.withoutEvidence;
+      return { ...row, share: total ? Math.round((row.withEvidence / total) * 100) : null };
+    }),
+    actionStatus: [...actions.values()]
+  };
+};
+
+// --- CSV ---
+
+// Text a spreadsheet would run as a formula; cause names and titles come from users and the model
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  const isFormula = typeof value === 'string' && FORMULA_START.test(text);
+  const safe = isFormula ? `'${text}` : text;
+  return isFormula || /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsvRows = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export type TrendChart = 'rootCausesByCategory' | 'frequentFactors' | 'evidenceCoverage' | 'actionStatus';
+
+export const TREND_CHART_TITLES: Record<TrendChart, string> = {
+  rootCausesByCategory: 'Root causes by category',
+  frequentFactors: 'Most frequent contributing factors',
+  evidenceCoverage: 'Causes with evidence',
+  actionStatus: 'Open vs. closed actions'
+};
+
+// One chart's data as a table: a column per series, as plotted
+export const trendTableCsv = (trends: PortfolioTrends, chart: TrendChart): string => {
+  switch (chart) {
+    case 'rootCausesByCategory':
+      return toCsvRows(['Month', ...trends.categories.map(c => c.label)],
+        trends.rootCausesByCategory.map(r => [r.period, ...trends.categories.map(c => r.counts[c.key])]));
+    case 'frequentFactors':
+      return toCsvRows(['Contributing factor', 'Analyses', 'Occurrences', 'Confirmed root cause'],
+        trends.frequentFactors.map(f => [f.factor, f.analyses, f.occurrences, f.rootCauses]));
+    case 'evidenceCoverage':
+      return toCsvRows(['Month', 'Causes with evidence', 'Causes without evidence', 'Share with evidence (%)'],
+        trends.evidenceCoverage.map(r => [r.period, r.withEvidence, r.withoutEvidence, r.share]));
+    case 'actionStatus':
+      return toCsvRows(['Month', 'Open', 'Overdue', 'Closed'], trends.actionStatus.map(r => [r.period, r.open, r.overdue, r.closed]));
+  }
+};
+
+const describeFilter = (filter: PortfolioFilter) => [
+  ['Business unit', filter.businessUnit || 'All'],
+  ['Template', filter.template || 'All'],
+  ['Opened from', filter.from || 'Any'],
+  ['Opened to', filter.to || 'Any']
+];
+
+// Every chart in one file, each under its title, after the filter it was built with
+export const portfolioCsv = (trends: PortfolioTrends, filter: PortfolioFilter, generatedAt = new Date()): string => [
+  toCsvRows(['Portfolio trends', dayOf(generatedAt.getTime())], [
+    ...describeFilter(filter),
+    ['Analyses', trends.analyses],
+    ['Causes (excluding rejected)', trends.causes],
+    ['Confirmed root causes', trends.rootCauses]
+  ]),
+  ...(Object.keys(TREND_CHART_TITLES) as TrendChart[]).map(chart => `${csvCell(TREND_CHART_TITLES[chart])}\r\n${trendTableCsv(trends, chart)}`)
+].join('\r\n\r\n');
@@ -0,0 +1,77 @@
+import { Node, Edge } from 'reactflow';
+import { NodeType, RcaMethod } from '../types';
+
+// Analysis methods: which one a diagram uses, and how its nodes relate
+
+const FAULT_TREE_TYPES = [NodeType.GATE, NodeType.EVENT, NodeType.BASIC_EVENT];
+const BOW_TIE_TYPES = [NodeType.THREAT, NodeType.BARRIER, NodeType.CONSEQUENCE];
+
+// The method is never stored: a diagram is a fault tree or bow-tie as soon as it holds one of their nodes
+export const getRcaMethod = (nodes: Node[]): RcaMethod => {
+  if (nodes.some(n => FAULT_TREE_TYPES.includes(n.data.type))) return RcaMethod.FAULT_TREE;
+  if (nodes.some(n => BOW_TIE_TYPES.includes(n.data.type))) return RcaMethod.BOW_TIE;
+  return RcaMethod.FISHBONE;
+};
+
+// Nodes that carry contributing factors: categories, events, threats, barriers and consequences
+export const holdsCauses = (node: Node) =>
+  ![NodeType.PROBLEM, NodeType.SPINE, NodeType.GATE].includes(node.data.type);
+
+export const findTopEvent = (nodes: Node[]) =>
+  nodes.find(n => n.id === 'problem' && n.data.type === NodeType.PROBLEM) || nodes.find(n => n.data.type === NodeType.PROBLEM);
+
+// --- Fault tree ---
+
+/**
+ * Fault tree edges run from an input up to the gate or event it feeds. Returns each node's
+ * inputs, reached from the top event; a node feeding several parents is drawn under the first.
+ */
+export const faultTreeInputs = (nodes: Node[], edges: Edge[], rootId: string): Map<string, string[]> => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const inputs = new Map<string, string[]>();
+  const visited = new Set([rootId]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    const children = edges
+      .filter(e => e.target === parent && FAULT_TREE_TYPES.includes(byId.get(e.source)?.data.type) && !visited.has(e.source))
+      .map(e => e.source);
+    children.forEach(id => { visited.add(id); queue.push(id); });
+    inputs.set(parent, [...new Set(children)]);
+  }
+  return inputs;
+};
+
+// --- Bow-tie ---
+
+export interface BowTiePath {
+  end: Node; // Threat or consequence
+  barriers: Node[]; // Ordered outward from the top event
+}
+
+/**
+ * Follows each threat forward and each consequence backward through barriers to the top event.
+ * A path that never reaches the top event keeps the barriers found along the way.
+ */
+export const bowTiePaths = (nodes: Node[], edges: Edge[]): { threats: BowTiePath[]; consequences: BowTiePath[] } => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const trace = (end: Node, forward: boolean): BowTiePath => {
+    const barriers: Node[] = [];
+    let current = end;
+    for (;;) {
+      const edge = edges.find(e => (forward ? e.source : e.target) === current.id
+        && [NodeType.BARRIER, NodeType.PROBLEM].includes(byId.get(forward ? e.target : e.source)?.data.type));
+      const next = edge && byId.get(forward ? edge.target : edge.source);
+      if (!next || next.data.type === NodeType.PROBLEM || barriers.includes(next)) break;
+      barriers.push(next);
+      current = next;
+    }
+    return { end, barriers: barriers.reverse() };
+  };
+
+  return {
+    threats: nodes.filter(n => n.data.type === NodeType.THREAT).map(n => trace(n, true)),
+    consequences: nodes.filter(n => n.data.type === NodeType.CONSEQUENCE).map(n => trace(n, false))
+  };
+};
+
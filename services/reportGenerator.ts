@@ -0,0 +1,391 @@
+import { Node, Edge } from 'reactflow';
+import { Cause, CauseStatus, NodeType } from '../types';
+import { ACTION_STATUS_LABELS, ACTION_TYPE_LABELS, CAUSE_STATUS_LABELS, EFFECTIVENESS_LABELS } from '../constants';
+import { getCauseStatus, riskScore } from './causeAssessment';
+import { flattenCauses, getSubCauses, whyDepth } from './causeTree';
+import { getActions, getActionStatus, getActionType, isOverdue } from './correctiveActions';
+import { describeAttachment } from './evidenceAttachments';
+import { describeCitation } from './evidenceCitations';
+import { holdsCauses } from './rcaMethods';
+
+// Builds an audit-ready RCA report from the diagram and renders it as
+// Markdown, printable HTML or a Word-compatible document.
+
+export type ReportFormat = 'markdown' | 'html' | 'word';
+
+export interface ReportEvidence {
+  ref: string; // "E1", "E2", ... cited from the analysis section
+  name: string;
+  description?: string;
+  cause: string;
+  domain: string;
+  source?: string; // Attached file (with hash), URL or document reference; else the cited document and lines
+  quote?: string; // Cited passage, when the evidence was drawn from a document
+  collected?: string; // "by <name> on <date>"
+}
+
+export interface ReportCause {
+  name: string;
+  description?: string;
+  evidenceRefs: string[];
+  subCauses: ReportCause[];
+  assessment?: string; // e.g. "Validated; L4 × I3 = 12", omitted for unscored hypotheses
+}
+
+export interface ReportDomain {
+  title: string;
+  description?: string;
+  causes: ReportCause[];
+}
+
+export interface ReportRootCause {
+  name: string;
+  description?: string;
+  domain: string;
+  chain: string[]; // Top-level factor down to the root cause
+  evidenceRefs: string[];
+  designated: boolean; // Marked as root cause by the analyst rather than inferred
+}
+
+export interface ReportAction {
+  ref: string; // "A1", "A2", ...
+  title: string;
+  description?: string;
+  type: string;
+  addresses: string[]; // Names of the linked causes
+  owner?: string;
+  dueDate?: string;
+  status: string; // e.g. "In progress (overdue)"
+  verification?: string; // e.g. "Effective: re-performed on 25 samples, by J. Doe on 2024-05-01"
+}
+
+export interface RcaReport {
+  title: string;
+  generatedAt: string;
+  problem: { title: string; description?: string };
+  domains: ReportDomain[];
+  evidenceIndex: ReportEvidence[];
+  rootCause?: ReportRootCause;
+  validationNote: string;
+  actions: ReportAction[];
+}
+
+interface ChainCandidate {
+  cause: Cause;
+  domain: string;
+  chain: Cause[];
+}
+
+// A cause marked as root cause wins (highest likelihood × impact if several); without one,
+// the candidate is the bottom of the deepest 5 Whys chain that has not been rejected
+const findCandidateRootCause = (domains: { title: string; causes: Cause[] }[]): ChainCandidate | undefined => {
+  let best: ChainCandidate | undefined;
+  let bestDepth = 0;
+  let designated: ChainCandidate | undefined;
+
+  const walk = (cause: Cause, domain: string, chain: Cause[]) => {
+    const status = getCauseStatus(cause);
+    if (status === CauseStatus.REJECTED) return;
+    const path = [...chain, cause];
+    if (status === CauseStatus.ROOT_CAUSE && (!designated || (riskScore(cause) || 0) > (riskScore(designated.cause) || 0))) {
+      designated = { cause, domain, chain: path };
+    }
+    const subs = getSubCauses(cause);
+    if (subs.length === 0) {
+      const depth = path.length + (cause.evidence.length > 0 ? 0.5 : 0); // evidence breaks ties
+      if (depth > bestDepth) {
+        best = { cause, domain, chain: path };
+        bestDepth = depth;
+      }
+      return;
+    }
+    subs.forEach(sub => walk(sub, domain, path));
+  };
+
+  domains.forEach(d => d.causes.forEach(c => walk(c, d.title, [])));
+  return designated || best;
+};
+
+const describeAssessment = (cause: Cause): string | undefined => {
+  const status = getCauseStatus(cause);
+  const score = riskScore(cause);
+  if (status === CauseStatus.HYPOTHESIS && !score) return undefined;
+  return [CAUSE_STATUS_LABELS[status], score ? `L${cause.likelihood} × I${cause.impact} = ${score}` : ''].filter(Boolean).join('; ');
+};
+
+export const buildReport = (nodes: Node[], edges: Edge[]): RcaReport => {
+  const problemNode = nodes.find(n => n.data.type === NodeType.PROBLEM);
+  const nodeTitle = (id: string) => nodes.find(n => n.id === id)?.data.title || id;
+
+  const sources: { title: string; description?: string; causes: Cause[] }[] = [
+    ...nodes
+      .filter(holdsCauses)
+      .sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y)
+      .map(n => ({ title: n.data.title, description: n.data.description, causes: (n.data.causes as Cause[]) || [] })),
+    ...edges
+      .filter(e => ((e.data?.causes as Cause[]) || []).length > 0)
+      .map(e => ({
+        title: (e.label as string) || `${nodeTitle(e.source)} → ${nodeTitle(e.target)}`,
+        description: 'Factors recorded on a connection',
+        causes: e.data.causes as Cause[]
+      }))
+  ];
+
+  const evidenceIndex: ReportEvidence[] = [];
+  const refsByCauseId = new Map<string, string[]>();
+
+  const toReportCause = (cause: Cause, domain: string): ReportCause => {
+    const evidenceRefs = cause.evidence.map(ev => {
+      const ref = `E${evidenceIndex.length + 1}`;
+      const collected = [ev.collectedBy && `by ${ev.collectedBy}`, ev.collectedAt && `on ${ev.collectedAt}`].filter(Boolean).join(' ');
+      evidenceIndex.push({
+        ref, name: ev.name, description: ev.description, cause: cause.name, domain,
+        source: [describeAttachment(ev.attachment), ...(ev.citations || []).map(describeCitation)].filter(Boolean).join('; ') || undefined,
+        quote: ev.citations?.[0]?.quote,
+        collected: collected ? `Collected ${collected}` : undefined
+      });
+      return ref;
+    });
+    refsByCauseId.set(cause.id, evidenceRefs);
+    return {
+      name: cause.name,
+      description: cause.description,
+      evidenceRefs,
+      subCauses: getSubCauses(cause).map(sub => toReportCause(sub, domain)),
+      assessment: describeAssessment(cause)
+    };
+  };
+
+  const domains: ReportDomain[] = sources.map(src => ({
+    title: src.title,
+    description: src.description,
+    causes: src.causes.map(c => toReportCause(c, src.title))
+  }));
+
+  const candidate = findCandidateRootCause(sources);
+  const rootCause: ReportRootCause | undefined = candidate && {
+    name: candidate.cause.name,
+    description: candidate.cause.description,
+    domain: candidate.domain,
+    chain: candidate.chain.map(c => c.name),
+    evidenceRefs: candidate.chain.flatMap(c => refsByCauseId.get(c.id) || []),
+    designated: getCauseStatus(candidate.cause) === CauseStatus.ROOT_CAUSE
+  };
+
+  const totalCauses = domains.reduce((acc, d) => acc + d.causes.length, 0);
+  const unsupported = sources.flatMap(s => s.causes).filter(c => c.evidence.length === 0).length;
+
+  const validationNote = !rootCause
+    ? 'No contributing factors have been recorded yet; a root cause cannot be validated.'
+    : [
+        `The ${rootCause.designated ? 'designated' : 'candidate'} root cause "${rootCause.name}" (${rootCause.domain}) was reached through a ${candidate!.chain.length}-level why-chain` +
+          (candidate!.chain.length > 1 ? ` starting from "${rootCause.chain[0]}".` : '.'),
+        rootCause.evidenceRefs.length > 0
+          ? `The chain is supported by ${rootCause.evidenceRefs.length} evidence item(s): ${rootCause.evidenceRefs.join(', ')}.`
+          : 'No evidence has been attached to this chain; the conclusion should be corroborated before the report is finalized.',
+        `${totalCauses - unsupported} of ${totalCauses} top-level factors have supporting evidence.`,
+        whyDepth(candidate!.chain[0]) < 3 ? 'The why-chain is shallow; consider further drill-down before sign-off.' : ''
+      ].filter(Boolean).join(' ');
+
+  const causeNames = new Map(sources.flatMap(s => flattenCauses(s.causes)).map(c => [c.id, c.name]));
+  const actions: ReportAction[] = getActions(nodes).map((action, i) => {
+    const v = action.verification;
+    const checked = [v?.method, v?.verifiedBy && `by ${v.verifiedBy}`, v?.verifiedAt && `on ${v.verifiedAt}`].filter(Boolean).join(', ');
+    return {
+      ref: `A${i + 1}`,
+      title: action.title,
+      description: action.description,
+      type: ACTION_TYPE_LABELS[getActionType(action)],
+      addresses: action.causeIds.map(id => causeNames.get(id) || 'Removed factor'),
+      owner: action.owner,
+      dueDate: action.dueDate,
+      status: `${ACTION_STATUS_LABELS[getActionStatus(action)]}${isOverdue(action) ? ' (overdue)' : ''}`,
+      verification: v?.result || checked ? [v?.result && EFFECTIVENESS_LABELS[v.result], checked].filter(Boolean).join(': ') : undefined
+    };
+  });
+
+  return {
+    title: `Root Cause Analysis: ${problemNode?.data.title || 'Untitled Problem'}`,
+    generatedAt: new Date().toISOString(),
+    problem: { title: problemNode?.data.title || 'Problem Statement', description: problemNode?.data.description },
+    domains,
+    evidenceIndex,
+    rootCause,
+    validationNote,
+    actions
+  };
+};
+
+// --- Markdown ---
+
+const mdCause = (cause: ReportCause, depth: number): string[] => {
+  const indent = '  '.repeat(depth);
+  const refs = cause.evidenceRefs.length > 0 ? ` [${cause.evidenceRefs.join(', ')}]` : '';
+  const prefix = depth === 0 ? '' : 'Why: ';
+  const assessment = cause.assessment ? ` _(${cause.assessment})_` : '';
+  const lines = [`${indent}- ${prefix}**${cause.name}**${refs}${assessment}${cause.description ? ` — ${cause.description}` : ''}`];
+  cause.subCauses.forEach(sub => lines.push(...mdCause(sub, depth + 1)));
+  return lines;
+};
+
+// One table cell: pipes would start a new column and line breaks a new row
+const cell = (text: string = '') => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export const renderMarkdown = (report: RcaReport): string => {
+  const lines: string[] = [
+    `# ${report.title}`,
+    '',
+    `_Generated ${new Date(report.generatedAt).toLocaleString()}_`,
+    '',
+    '## 1. Problem Statement',
+    '',
+    `**${report.problem.title}**`,
+    '',
+    report.problem.description || '_No description provided._',
+    '',
+    '## 2. Analysis by Domain',
+    ''
+  ];
+
+  report.domains.forEach(domain => {
+    lines.push(`### ${domain.title}`, '');
+    if (domain.description) lines.push(`_${domain.description}_`, '');
+    if (domain.causes.length === 0) {
+      lines.push('No contributing factors identified.', '');
+    } else {
+      domain.causes.forEach(c => lines.push(...mdCause(c, 0)));
+      lines.push('');
+    }
+  });
+
+  lines.push('## 3. Evidence Index', '');
+  if (report.evidenceIndex.length === 0) {
+    lines.push('No evidence recorded.', '');
+  } else {
+    lines.push('| Ref | Evidence | Source | Supports | Domain |', '| --- | --- | --- | --- | --- |');
+    report.evidenceIndex.forEach(ev => {
+      const name = [ev.name, ev.description, ev.quote && `“${ev.quote.replace(/\s+/g, ' ')}”`].filter(Boolean).join(' — ');
+      const source = [ev.source, ev.collected].filter(Boolean).join('; ');
+      lines.push(`| ${cell(ev.ref)} | ${cell(name)} | ${cell(source) || '—'} | ${cell(ev.cause)} | ${cell(ev.domain)} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## 4. Root Cause', '');
+  if (report.rootCause) {
+    lines.push(`**${report.rootCause.name}** (${report.rootCause.domain})`, '');
+    if (report.rootCause.description) lines.push(report.rootCause.description, '');
+    lines.push(`Why-chain: ${report.rootCause.chain.join(' → ')}`, '');
+  } else {
+    lines.push('No root cause identified.', '');
+  }
+
+  lines.push('## 5. Validation Note', '', report.validationNote, '');
+
+  lines.push('## 6. Management Action Plan', '');
+  if (report.actions.length === 0) {
+    lines.push('No actions agreed yet.', '');
+  } else {
+    lines.push('| Ref | Action | Type | Addresses | Owner | Due | Status | Effectiveness |', '| --- | --- | --- | --- | --- | --- | --- | --- |');
+    report.actions.forEach(a => {
+      const action = a.description ? `${a.title} — ${a.description}` : a.title;
+      lines.push(`| ${cell(a.ref)} | ${cell(action)} | ${cell(a.type)} | ${cell(a.addresses.join('; '))} | ${cell(a.owner) || '—'} | ${cell(a.dueDate) || '—'} | ${cell(a.status)} | ${cell(a.verification) || '—'} |`);
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+// --- HTML (printable and Word-compatible) ---
+
+const esc = (text: string = '') =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlCause = (cause: ReportCause, depth: number): string => {
+  const refs = cause.evidenceRefs.length > 0 ? ` <span class="refs">[${cause.evidenceRefs.join(', ')}]</span>` : '';
+  const desc = cause.description ? ` &mdash; ${esc(cause.description)}` : '';
+  const assessment = cause.assessment ? ` <span class="meta">(${esc(cause.assessment)})</span>` : '';
+  const subs = cause.subCauses.length > 0 ? `<ul>${cause.subCauses.map(s => htmlCause(s, depth + 1)).join('')}</ul>` : '';
+  return `<li>${depth > 0 ? '<span class="why">Why:</span> ' : ''}<strong>${esc(cause.name)}</strong>${refs}${assessment}${desc}${subs}</li>`;
+};
+
+const REPORT_CSS = `
+  body { font-family: Calibri, Arial, sans-serif; color: #1e293b; max-width: 800px; margin: 40px auto; line-height: 1.5; font-size: 11pt; }
+  h1 { font-size: 20pt; border-bottom: 2px solid #1e293b; padding-bottom: 6px; }
+  h2 { font-size: 14pt; margin-top: 28px; color: #1d4ed8; }
+  h3 { font-size: 12pt; margin-bottom: 4px; }
+  .meta, .domain-desc { color: #64748b; font-size: 9pt; }
+  .refs { color: #1d4ed8; font-size: 9pt; }
+  .why { color: #c2410c; font-size: 9pt; font-weight: bold; }
+  table { border-collapse: collapse; width: 100%; font-size: 10pt; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .root { border: 2px solid #dc2626; background: #fef2f2; padding: 10px 14px; }
+  @media print { body { margin: 0; max-width: none; } h2 { page-break-after: avoid; } }
+`;
+
+const renderHtmlBody = (report: RcaReport): string => {
+  const domains = report.domains.map(d => `
+    <h3>${esc(d.title)}</h3>
+    ${d.description ? `<div class="domain-desc">${esc(d.description)}</div>` : ''}
+    ${d.causes.length > 0 ? `<ul>${d.causes.map(c => htmlCause(c, 0)).join('')}</ul>` : '<p>No contributing factors identified.</p>'}
+  `).join('');
+
+  const evidence = report.evidenceIndex.length === 0
+    ? '<p>No evidence recorded.</p>'
+    : `<table><thead><tr><th>Ref</th><th>Evidence</th><th>Source</th><th>Supports</th><th>Domain</th></tr></thead><tbody>${
+        report.evidenceIndex.map(ev => `<tr><td>${ev.ref}</td><td>${esc(ev.name)}${ev.description ? `<br/><span class="meta">${esc(ev.description)}</span>` : ''}${ev.quote ? `<br/><span class="meta">“${esc(ev.quote)}”</span>` : ''}</td><td>${esc(ev.source || '—')}${ev.collected ? `<br/><span class="meta">${esc(ev.collected)}</span>` : ''}</td><td>${esc(ev.cause)}</td><td>${esc(ev.domain)}</td></tr>`).join('')
+      }</tbody></table>`;
+
+  const root = report.rootCause
+    ? `<div class="root"><strong>${esc(report.rootCause.name)}</strong> (${esc(report.rootCause.domain)})
+        ${report.rootCause.description ? `<p>${esc(report.rootCause.description)}</p>` : ''}
+        <p class="meta">Why-chain: ${report.rootCause.chain.map(esc).join(' &rarr; ')}</p></div>`
+    : '<p>No root cause identified.</p>';
+
+  const actions = report.actions.length === 0
+    ? '<p>No actions agreed yet.</p>'
+    : `<table><thead><tr><th>Ref</th><th>Action</th><th>Type</th><th>Addresses</th><th>Owner</th><th>Due</th><th>Status</th><th>Effectiveness</th></tr></thead><tbody>${
+        report.actions.map(a => `<tr><td>${a.ref}</td><td>${esc(a.title)}${a.description ? `<br/><span class="meta">${esc(a.description)}</span>` : ''}</td><td>${a.type}</td><td>${a.addresses.map(esc).join('<br/>')}</td><td>${esc(a.owner || '—')}</td><td>${a.dueDate || '—'}</td><td>${a.status}</td><td>${esc(a.verification || '—')}</td></tr>`).join('')
+      }</tbody></table>`;
+
+  return `
+    <h1>${esc(report.title)}</h1>
+    <div class="meta">Generated ${esc(new Date(report.generatedAt).toLocaleString())}</div>
+    <h2>1. Problem Statement</h2>
+    <p><strong>${esc(report.problem.title)}</strong></p>
+    <p>${esc(report.problem.description || 'No description provided.')}</p>
+    <h2>2. Analysis by Domain</h2>
+    ${domains}
+    <h2>3. Evidence Index</h2>
+    ${evidence}
+    <h2>4. Root Cause</h2>
+    ${root}
+    <h2>5. Validation Note</h2>
+    <p>${esc(report.validationNote)}</p>
+    <h2>6. Management Action Plan</h2>
+    ${actions}
+  `;
+};
+
+export const renderHtml = (report: RcaReport): string =>
+  `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><title>${esc(report.title)}</title><style>${REPORT_CSS}</style></head><body>${renderHtmlBody(report)}</body></html>`;
+
+// Word opens HTML carrying the Office namespaces as a native document (.doc)
+export const renderWordDocument = (report: RcaReport): string =>
+  `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">
+<head><meta charset="UTF-8" /><title>${esc(report.title)}</title>
+<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View><w:Zoom>100</w:Zoom></w:WordDocument></xml><![endif]-->
+<style>${REPORT_CSS}</style></head><body>${renderHtmlBody(report)}</body></html>`;
+
+export const REPORT_FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  word: { extension: 'doc', mimeType: 'application/msword' }
+};
+
+export const renderReport = (report: RcaReport, format: ReportFormat): string => {
+  if (format === 'markdown') return renderMarkdown(report);
+  if (format === 'word') return '\uFEFF' + renderWordDocument(report); // BOM so Word detects UTF-8
+  return renderHtml(report);
+};
@@ -0,0 +1,135 @@
+import { AnalysisRecord, AnalysisSummary, CategoryTemplate } from '../types';
+import { collectFileAttachments } from './evidenceAttachments';
+import { toStoredNodes, toStoredEdges } from './analysisSchema';
+
+// IndexedDB persistence for the multi-analysis workspace
+
+const DB_NAME = 'root-cause-fishbone';
+const DB_VERSION = 3;
+const ANALYSES_STORE = 'analyses';
+const META_STORE = 'meta';
+const ARTIFACTS_STORE = 'artifacts'; // Evidence file content, keyed by SHA-256
+const TEMPLATES_STORE = 'templates'; // User-saved category templates
+const LAST_OPENED_KEY = 'lastAnalysisId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(ARTIFACTS_STORE)) {
+          db.createObjectStore(ARTIFACTS_STORE, { keyPath: 'sha256' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listAnalyses = async (): Promise<AnalysisSummary[]> => {
+  const records = await runRequest<AnalysisRecord[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(({ id, name, createdAt, updatedAt, businessUnit, template }) => ({ id, name, createdAt, updatedAt, businessUnit, template }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Every analysis in full, for looking across investigations
+export const listAnalysisRecords = (): Promise<AnalysisRecord[]> =>
+  runRequest<AnalysisRecord[]>(ANALYSES_STORE, 'readonly', store => store.getAll());
+
+export const loadAnalysis = (id: string): Promise<AnalysisRecord | undefined> =>
+  runRequest<AnalysisRecord | undefined>(ANALYSES_STORE, 'readonly', store => store.get(id));
+
+export const saveAnalysis = async (record: AnalysisRecord): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.put({
+    ...record,
+    nodes: toStoredNodes(record.nodes),
+    edges: toStoredEdges(record.edges),
+  }));
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await runRequest(ANALYSES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const getLastAnalysisId = (): Promise<string | undefined> =>
+  runRequest<string | undefined>(META_STORE, 'readonly', store => store.get(LAST_OPENED_KEY));
+
+export const setLastAnalysisId = async (id: string): Promise<void> => {
+  await runRequest(META_STORE, 'readwrite', store => store.put(id, LAST_OPENED_KEY));
+};
+
+// --- Evidence artifacts ---
+
+export interface StoredArtifact {
+  sha256: string;
+  blob: Blob;
+}
+
+export const putArtifact = async (artifact: StoredArtifact): Promise<void> => {
+  await runRequest(ARTIFACTS_STORE, 'readwrite', store => store.put(artifact));
+};
+
+export const getArtifact = (sha256: string): Promise<StoredArtifact | undefined> =>
+  runRequest<StoredArtifact | undefined>(ARTIFACTS_STORE, 'readonly', store => store.get(sha256));
+
+// Artifacts are shared across analyses (identical files are stored once), so only
+// content no analysis refers to any more is removed
+export const pruneArtifacts = async (): Promise<void> => {
+  const records = await listAnalysisRecords();
+  const referenced = new Set(records.flatMap(r => collectFileAttachments(r.nodes, r.edges).map(a => a.sha256)));
+  const keys = await runRequest<IDBValidKey[]>(ARTIFACTS_STORE, 'readonly', store => store.getAllKeys());
+  const orphaned = keys.filter(key => !referenced.has(String(key)));
+  if (orphaned.length === 0) return;
+  await runRequest(ARTIFACTS_STORE, 'readwrite', store => {
+    orphaned.slice(1).forEach(key => store.delete(key));
+    return store.delete(orphaned[0]);
+  });
+};
+
+// --- Category templates ---
+
+export const listTemplates = async (): Promise<CategoryTemplate[]> => {
+  const templates = await runRequest<CategoryTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+};
+
+export const saveTemplate = async (template: CategoryTemplate): Promise<void> => {
+  await runRequest(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await runRequest(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+};
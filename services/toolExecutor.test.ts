@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_REACTFLOW_EDGES, INITIAL_REACTFLOW_NODES } from '../constants';
+import { NodeType } from '../types';
+import { applyToolCalls } from './toolExecutor';
+
+const run = (...calls: { name: string; args: Record<string, unknown> }[]) =>
+  applyToolCalls(INITIAL_REACTFLOW_NODES, INITIAL_REACTFLOW_EDGES, calls);
+
+describe('applyToolCalls', () => {
+  it('adds a cause and returns its ID for later calls', () => {
+    const result = run({ name: 'add_cause', args: { targetId: 'people', targetType: 'NODE', name: 'Key person dependency' } });
+
+    const cause = result.nodes.find(n => n.id === 'people')!.data.causes.find((c: { name: string }) => c.name === 'Key person dependency');
+    expect(result.results[0]).toMatchObject({ ok: true, data: { id: cause.id } });
+    expect(result.changeLog).toContain('Key person dependency');
+  });
+
+  it.each([
+    ['add_cause', { targetId: 'people', targetType: 'NODE' }],
+    ['add_cause', { targetId: 'people', targetType: 'NODE', name: '   ' }],
+    ['add_sub_cause', { parentCauseId: 'x', name: 42 }],
+    ['add_evidence', { causeId: 'x' }]
+  ])('rejects %s without a name', (name, args) => {
+    const result = run({ name, args });
+    expect(result.results[0]).toEqual({ ok: false, message: 'Missing required argument "name"' });
+    expect(result.nodes).toEqual(INITIAL_REACTFLOW_NODES);
+  });
+
+  it('does not throw on unnamed causes when pointing out a name passed as an ID', () => {
+    const nodes = INITIAL_REACTFLOW_NODES.map(n => n.id === 'people'
+      ? { ...n, data: { ...n.data, causes: [{ id: 'c1', evidence: [] }, { id: 'c2', name: 'Rushed review', evidence: [] }] } }
+      : n);
+    const result = applyToolCalls(nodes, INITIAL_REACTFLOW_EDGES, [{ name: 'add_sub_cause', args: { parentCauseId: 'Rushed review', name: 'Why' } }]);
+
+    expect(result.results[0].ok).toBe(false);
+    expect(result.results[0].message).toContain('"Rushed review" has ID "c2"');
+  });
+
+  it('gives every category added in one batch its own ID', () => {
+    const result = run(
+      { name: 'add_node', args: { title: 'Vendors' } },
+      { name: 'add_node', args: { title: 'Data' } },
+      { name: 'add_node', args: { title: 'Facilities' } }
+    );
+
+    const added = result.nodes.filter(n => n.data.type === NodeType.CATEGORY && !INITIAL_REACTFLOW_NODES.some(i => i.id === n.id));
+    expect(added.map(n => n.data.title).sort()).toEqual(['Data', 'Facilities', 'Vendors']);
+    expect(new Set(added.map(n => n.id)).size).toBe(3);
+  });
+
+  it('applies later calls of a batch to the graph left by earlier ones', () => {
+    const first = run({ name: 'add_cause', args: { targetId: 'process', targetType: 'NODE', name: 'No second approver' } });
+    const causeId = (first.results[0].data as { id: string }).id;
+    const result = applyToolCalls(first.nodes, first.edges, [
+      { name: 'add_sub_cause', args: { parentCauseId: causeId, name: 'Approver role unfilled' } },
+      { name: 'add_evidence', args: { causeId, name: 'Q3 approval log' } }
+    ]);
+
+    const cause = result.nodes.find(n => n.id === 'process')!.data.causes.find((c: { id: string }) => c.id === causeId);
+    expect(result.results.every(r => r.ok)).toBe(true);
+    expect(cause.subCauses.map((c: { name: string }) => c.name)).toEqual(['Approver role unfilled']);
+    expect(cause.evidence.map((e: { name: string }) => e.name)).toEqual(['Q3 approval log']);
+  });
+});
@@ -0,0 +1,623 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Node, Edge, addEdge } from 'reactflow';
+import { NodeType, ProcessNodeData, AttachmentKind, ActionStatus, ActionType, BarrierType, GateType, Cause, CauseStatus, CorrectiveAction, Effectiveness, Evidence, EvidenceAttachment, EvidenceType, ExtractedDocument, ToolCall, ToolResult } from '../types';
+import { ACTION_STATUS_LABELS, CAUSE_STATUS_LABELS } from '../constants';
+import { getCauseStatus, isValidScore, MAX_SCORE, MIN_SCORE, riskScore } from './causeAssessment';
+import {
+  addSubCause, countCauses, findCauseByEvidenceId, findCauseById, flattenCauses, getSubCauses, removeCauseFromTree, updateCauseInTree
+} from './causeTree';
+import { layoutFishbone } from './fishboneLayout';
+import { layoutDiagram } from './diagramLayout';
+import { bowTiePaths, findTopEvent } from './rcaMethods';
+import { getActions, getActionStatus, isIsoDate, setActions } from './correctiveActions';
+import { describeCitation, resolveCitation } from './evidenceCitations';
+import { FindingsIndex, suggestCauses } from './findingsIndex';
+
+export interface ToolExecutionResult {
+  nodes: Node[];
+  edges: Edge[];
+  changeLog: string;
+  results: ToolResult[]; // One per call, in call order
+}
+
+// What some tools read besides the graph
+export interface ToolContext {
+  sources?: ExtractedDocument[]; // Documents attached in this session, for extract_evidence citations
+  history?: FindingsIndex; // Other saved analyses, for suggest_causes
+}
+
+// Short human-readable label for a tool call that has not been applied yet
+export const describeToolCall = (call: ToolCall): string => {
+  const subject = call.args?.name || call.args?.title || call.args?.id || call.args?.targetId
+    || call.args?.causeId || call.args?.evidenceId;
+  return subject ? `${call.name}: ${subject}` : call.name;
+};
+
+/**
+ * Applies a batch of assistant tool calls to a copy of the graph.
+ * Pure with respect to React state: the caller decides whether (and when) to commit the result.
+ */
+export const applyToolCalls = (
+  nodes: Node[],
+  edges: Edge[],
+  toolCalls: ToolCall[],
+  onEdit?: ProcessNodeData['onEdit'],
+  context: ToolContext = {}
+): ToolExecutionResult => {
+  const sources = context.sources || [];
+  let localNodes = [...nodes];
+  let localEdges = [...edges];
+  let changeLog = "";
+
+  // New categories join the fishbone as the next rib; the layout places them and wires the spine
+  const addNodeFishbone = (title?: string, description?: string, desiredId?: string) => {
+    const newNodeId = desiredId || `n-${uuidv4().slice(0, 8)}`;
+    const type = title?.toLowerCase().includes('problem') ? NodeType.PROBLEM : NodeType.CATEGORY;
+
+    localNodes.push({
+      id: newNodeId,
+      type: 'processNode',
+      position: { x: 0, y: 0 },
+      data: {
+        id: newNodeId,
+        type: type,
+        title: title || `Category`,
+        description: description || '',
+        causes: [],
+        onEdit 
+      },
+    });
+    ({ nodes: localNodes, edges: localEdges } = layoutFishbone(localNodes, localEdges));
+    return newNodeId;
+  };
+
+  // Fault tree and bow-tie nodes are wired in by the caller, then the whole diagram is laid out again
+  const addMethodNode = (type: NodeType, title: string, description?: string, desiredId?: string, extra: Partial<ProcessNodeData> = {}) => {
+    const newNodeId = desiredId || `${type.toLowerCase()}-${uuidv4().slice(0, 8)}`;
+    localNodes.push({
+      id: newNodeId,
+      type: 'processNode',
+      position: { x: 0, y: 0 },
+      data: { id: newNodeId, type, title, description: description || '', causes: [], ...extra, onEdit }
+    });
+    return newNodeId;
+  };
+  const link = (source: string, target: string): Edge => ({
+    id: `e-${source}-${target}`,
+    source,
+    target,
+    style: { strokeWidth: 2, stroke: '#64748b' },
+    data: { causes: [] }
+  });
+  const relayout = () => {
+    ({ nodes: localNodes, edges: localEdges } = layoutDiagram(localNodes, localEdges));
+  };
+  const nodeOfType = (id: unknown, types: NodeType[]) => localNodes.find(n => n.id === id && types.includes(n.data.type));
+  const isValidGate = (value: unknown) => Object.values(GateType).includes(value as GateType);
+  const unknownGate = (value: unknown) => failed(`Unknown gate "${value}". Use one of ${Object.values(GateType).join(', ')}`);
+  const takenId = (id: unknown) => !!id && localNodes.some(n => n.id === id);
+
+  const succeeded = (log: string, message: string, data?: ToolResult['data']): ToolResult => {
+    changeLog += `• ${log}\n`;
+    return { ok: true, message, data };
+  };
+  const failed = (message: string): ToolResult => ({ ok: false, message });
+
+  // Resolves the container a cause-level tool targets; causes live on nodes or on edges
+  const findTarget = (targetId: string, targetType?: string) => {
+    if (targetType === 'EDGE') {
+      const index = localEdges.findIndex(e => e.id === targetId);
+      return index === -1 ? undefined : { index, isEdge: true, causes: (localEdges[index].data?.causes as Cause[]) || [] };
+    }
+    const index = localNodes.findIndex(n => n.id === targetId);
+    return index === -1 ? undefined : { index, isEdge: false, causes: (localNodes[index].data.causes as Cause[]) || [] };
+  };
+  const setTargetCauses = (target: { index: number; isEdge: boolean }, causes: Cause[]) => {
+    if (target.isEdge) {
+      const e = localEdges[target.index];
+      localEdges[target.index] = { ...e, data: { ...e.data, causes } };
+    } else {
+      const n = localNodes[target.index];
+      localNodes[target.index] = { ...n, data: { ...n.data, causes } };
+    }
+  };
+  const targetLabel = (target: { index: number; isEdge: boolean }) =>
+    target.isEdge ? 'Link' : localNodes[target.index].data.title;
+  const missingTarget = (targetId: string, targetType?: string) =>
+    failed(`${targetType === 'EDGE' ? 'Edge' : 'Node'} "${targetId}" not found`);
+
+  // Causes and evidence carry graph-wide unique IDs, so tools address them without a container
+  type Target = { index: number; isEdge: boolean; causes: Cause[] };
+  const allTargets = (): Target[] => [
+    ...localNodes.map((n, index) => ({ index, isEdge: false, causes: (n.data.causes as Cause[]) || [] })),
+    ...localEdges.map((e, index) => ({ index, isEdge: true, causes: (e.data?.causes as Cause[]) || [] }))
+  ];
+  const locateCause = (causeId: string) => {
+    for (const target of allTargets()) {
+      const cause = findCauseById(target.causes, causeId);
+      if (cause) return { target, cause };
+    }
+    return undefined;
+  };
+  const locateEvidence = (evidenceId: string) => {
+    for (const target of allTargets()) {
+      const cause = findCauseByEvidenceId(target.causes, evidenceId);
+      if (cause) return { target, cause, evidence: cause.evidence.find(ev => ev.id === evidenceId)! };
+    }
+    return undefined;
+  };
+
+  // Models often pass a name where an ID is expected; say which IDs that name belongs to
+  const missingRef = (kind: 'cause' | 'evidence', param: string, ref: unknown, candidates: { id: string; name: string }[]) => {
+    if (!ref) return failed(`Missing required argument "${param}"`);
+    const named = candidates.filter(c => String(c.name ?? '').toLowerCase() === String(ref).toLowerCase());
+    if (named.length === 1) return failed(`No ${kind} with ID "${ref}". "${named[0].name}" has ID "${named[0].id}"`);
+    if (named.length > 1) return failed(`No ${kind} with ID "${ref}". ${named.length} ${kind === 'cause' ? 'causes' : 'evidence items'} are named "${ref}": ${named.map(c => c.id).join(', ')}`);
+    return failed(`No ${kind} with ID "${ref}". Use the IDs from the graph context`);
+  };
+  const allCauses = () => allTargets().flatMap(t => flattenCauses(t.causes));
+  const missingCause = (param: string, ref: unknown) => missingRef('cause', param, ref, allCauses());
+  const isValidEvidenceType = (value: unknown) => value === undefined || Object.values(EvidenceType).includes(value as EvidenceType);
+  const unknownEvidenceType = (value: unknown) =>
+    failed(`Unknown evidenceType "${value}". Use one of ${Object.values(EvidenceType).join(', ')}`);
+  const missingEvidence = (ref: unknown) => missingRef('evidence', 'evidenceId', ref, allCauses().flatMap(c => c.evidence));
+  const isName = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+
+  // Action plan: values are checked up front so a bad call leaves the plan untouched
+  const checkActionFields = (args: any): ToolResult | undefined => {
+    if (args.type !== undefined && !Object.values(ActionType).includes(args.type)) {
+      return failed(`Unknown type "${args.type}". Use one of ${Object.values(ActionType).join(', ')}`);
+    }
+    if (args.status !== undefined && !Object.values(ActionStatus).includes(args.status)) {
+      return failed(`Unknown status "${args.status}". Use one of ${Object.values(ActionStatus).join(', ')}`);
+    }
+    if (args.effectiveness !== undefined && !Object.values(Effectiveness).includes(args.effectiveness)) {
+      return failed(`Unknown effectiveness "${args.effectiveness}". Use one of ${Object.values(Effectiveness).join(', ')}`);
+    }
+    const badDate = ['dueDate', 'verifiedAt'].find(key => args[key] !== undefined && !isIsoDate(args[key]));
+    if (badDate) return failed(`${badDate} must be a date in YYYY-MM-DD form`);
+    if (args.causeIds !== undefined) {
+      if (!Array.isArray(args.causeIds) || args.causeIds.length === 0) return failed('causeIds must list at least one cause ID');
+      const unknown = args.causeIds.find((id: unknown) => !locateCause(id as string));
+      if (unknown !== undefined) return missingCause('causeIds', unknown);
+    }
+    return undefined;
+  };
+  const causeNames = (causeIds: string[]) => causeIds.map(id => `"${locateCause(id)?.cause.name || id}"`).join(', ');
+
+  const results = toolCalls.map((tool): ToolResult => {
+    const args = tool.args || {};
+
+    if (tool.name === 'clear_graph') {
+      localNodes = [];
+      localEdges = [];
+      return succeeded('Cleared canvas', 'Canvas cleared');
+    }
+    else if (tool.name === 'add_node') {
+      const { title, description, id } = args;
+      if (id && localNodes.some(n => n.id === id)) {
+        return failed(`Node "${id}" already exists`);
+      }
+      const newNodeId = addNodeFishbone(title, description, id);
+      return succeeded(`Added Category: ${title}`, `Added category "${title}"`, { id: newNodeId });
+    } 
+    else if (tool.name === 'connect_nodes') {
+      const { sourceId, targetId, label } = args;
+      const missing = [sourceId, targetId].find(nodeId => !localNodes.some(n => n.id === nodeId));
+      if (missing !== undefined) {
+        return failed(`Node "${missing}" not found`);
+      }
+      const newEdge = {
+        id: `e-ai-${Date.now()}-${Math.random()}`,
+        source: sourceId,
+        target: targetId,
+        label: label || '',
+        style: { strokeWidth: 2, stroke: '#64748b' },
+        data: { causes: [] }
+      };
+      localEdges = addEdge(newEdge, localEdges);
+      return succeeded(`Connected ${sourceId} -> ${targetId}`, `Connected ${sourceId} to ${targetId}`, { id: newEdge.id });
+    }
+    else if (tool.name === 'update_node') {
+       const { id, title, description } = args;
+       const nodeIndex = localNodes.findIndex(n => n.id === id);
+       if (nodeIndex === -1) {
+          return failed(`Node "${id}" not found`);
+       }
+       const n = localNodes[nodeIndex];
+       localNodes[nodeIndex] = {
+          ...n,
+          data: { 
+            ...n.data, 
+            title: title || n.data.title, 
+            description: description !== undefined ? description : n.data.description 
+          }
+       };
+       return succeeded(`Updated: ${title || n.data.title}`, `Updated node "${id}"`, { id });
+    }
+    else if (tool.name === 'add_gate') {
+      const { parentId, gate, id } = args;
+      const parent = nodeOfType(parentId, [NodeType.PROBLEM, NodeType.EVENT]);
+      if (!parent) return failed(`No top event or intermediate event with ID "${parentId}"`);
+      if (!isValidGate(gate)) return unknownGate(gate);
+      if (takenId(id)) return failed(`Node "${id}" already exists`);
+      const existing = localEdges.find(e => e.target === parent.id && nodeOfType(e.source, [NodeType.GATE]));
+      if (existing) return failed(`"${parent.data.title}" already has gate "${existing.source}". Use set_gate to change it`);
+
+      const gateId = addMethodNode(NodeType.GATE, gate, undefined, id, { gate });
+      localEdges = [...localEdges, link(gateId, parent.id)];
+      relayout();
+      return succeeded(`Added ${gate} gate under '${parent.data.title}'`, `Added ${gate} gate below "${parent.data.title}"`, { id: gateId });
+    }
+    else if (tool.name === 'set_gate') {
+      const { gateId, gate } = args;
+      const node = nodeOfType(gateId, [NodeType.GATE]);
+      if (!node) return failed(`No gate with ID "${gateId}"`);
+      if (!isValidGate(gate)) return unknownGate(gate);
+
+      localNodes = localNodes.map(n => n.id === node.id ? { ...n, data: { ...n.data, gate, title: gate } } : n);
+      return succeeded(`Set gate ${node.id} to ${gate}`, `Gate "${node.id}" is now ${gate}`, { id: node.id });
+    }
+    else if (tool.name === 'add_fault_event') {
+      const { parentId, title, description, basic, id } = args;
+      const parent = nodeOfType(parentId, [NodeType.GATE]);
+      if (!parent) {
+        return nodeOfType(parentId, [NodeType.PROBLEM, NodeType.EVENT])
+          ? failed(`"${parentId}" is an event: add a gate below it with add_gate, then add inputs to the gate`)
+          : failed(`No gate with ID "${parentId}"`);
+      }
+      if (takenId(id)) return failed(`Node "${id}" already exists`);
+
+      const eventId = addMethodNode(basic ? NodeType.BASIC_EVENT : NodeType.EVENT, title, description, id);
+      localEdges = [...localEdges, link(eventId, parent.id)];
+      relayout();
+      return succeeded(`Added ${basic ? 'Basic Event' : 'Event'}: ${title}`, `Added ${basic ? 'basic event' : 'event'} "${title}" to gate "${parent.id}"`, { id: eventId });
+    }
+    else if (tool.name === 'add_threat' || tool.name === 'add_consequence') {
+      const { title, description, id } = args;
+      const isThreat = tool.name === 'add_threat';
+      const topEvent = findTopEvent(localNodes);
+      if (!topEvent) return failed('The diagram has no top event');
+      if (takenId(id)) return failed(`Node "${id}" already exists`);
+
+      const nodeId = addMethodNode(isThreat ? NodeType.THREAT : NodeType.CONSEQUENCE, title, description, id);
+      localEdges = [...localEdges, isThreat ? link(nodeId, topEvent.id) : link(topEvent.id, nodeId)];
+      relayout();
+      return succeeded(`Added ${isThreat ? 'Threat' : 'Consequence'}: ${title}`, `Added ${isThreat ? 'threat' : 'consequence'} "${title}"`, { id: nodeId });
+    }
+    else if (tool.name === 'add_barrier') {
+      const { pathNodeId, title, description, id } = args;
+      const end = nodeOfType(pathNodeId, [NodeType.THREAT, NodeType.CONSEQUENCE]);
+      if (!end) return failed(`No threat or consequence with ID "${pathNodeId}"`);
+      if (takenId(id)) return failed(`Node "${id}" already exists`);
+      const topEvent = findTopEvent(localNodes);
+      const isThreat = end.data.type === NodeType.THREAT;
+
+      // The new barrier goes between the top event and the node currently next to it on this path
+      const { threats, consequences } = bowTiePaths(localNodes, localEdges);
+      const path = (isThreat ? threats : consequences).find(p => p.end.id === end.id)!;
+      const neighbour = path.barriers[0] || end;
+      const hop = topEvent && localEdges.find(e => isThreat
+        ? e.source === neighbour.id && e.target === topEvent.id
+        : e.source === topEvent.id && e.target === neighbour.id);
+      if (!hop) return failed(`"${end.data.title}" has no path ${isThreat ? 'to' : 'from'} the top event`);
+
+      const barrier = isThreat ? BarrierType.PREVENTIVE : BarrierType.MITIGATIVE;
+      const barrierId = addMethodNode(NodeType.BARRIER, title, description, id, { barrier });
+      localEdges = [
+        ...localEdges.filter(e => e.id !== hop.id),
+        // Keeps the hop's label and factors on the threat or top event side
+        { ...hop, id: `e-${hop.source}-${barrierId}`, target: barrierId },
+        link(barrierId, hop.target)
+      ];
+      relayout();
+      return succeeded(`Added ${barrier} barrier for '${end.data.title}': ${title}`, `Added ${barrier} barrier "${title}" on the path of "${end.data.title}"`, { id: barrierId });
+    }
+    else if (tool.name === 'add_cause') {
+      const { targetId, targetType, name, description } = args;
+      if (!isName(name)) return failed('Missing required argument "name"');
+      const target = findTarget(targetId, targetType);
+      if (!target) return missingTarget(targetId, targetType);
+
+      const newCause: Cause = { id: uuidv4(), name, description, evidence: [] };
+      setTargetCauses(target, [...target.causes, newCause]);
+      return target.isEdge
+        ? succeeded(`Added Factor to Link: ${name}`, `Added factor "${name}" to edge "${targetId}"`, { id: newCause.id })
+        : succeeded(`Added Factor to ${targetLabel(target)}: ${name}`, `Added factor "${name}" to node "${targetId}"`, { id: newCause.id });
+    }
+    else if (tool.name === 'add_sub_cause') {
+      const { parentCauseId, name, description } = args;
+      if (!isName(name)) return failed('Missing required argument "name"');
+      const located = locateCause(parentCauseId);
+      if (!located) return missingCause('parentCauseId', parentCauseId);
+
+      const { target, cause: parent } = located;
+      const newSubCause: Cause = { id: uuidv4(), name, description, evidence: [] };
+      setTargetCauses(target, addSubCause(target.causes, parent.id, newSubCause));
+      return succeeded(
+        target.isEdge ? `Added Why under Link Factor '${parent.name}': ${name}` : `Added Why under '${parent.name}': ${name}`,
+        `Added "${name}" under cause "${parent.name}"`,
+        { id: newSubCause.id, parentId: parent.id }
+      );
+    }
+    else if (tool.name === 'add_evidence') {
+      const { causeId, name, description, url, reference, evidenceType } = args;
+      if (!isName(name)) return failed('Missing required argument "name"');
+      const located = locateCause(causeId);
+      if (!located) return missingCause('causeId', causeId);
+      if (!isValidEvidenceType(evidenceType)) return unknownEvidenceType(evidenceType);
+
+      const { target, cause } = located;
+      const attachment: EvidenceAttachment | undefined = url ? { kind: AttachmentKind.URL, url }
+        : reference ? { kind: AttachmentKind.DOCUMENT, reference }
+        : undefined;
+      const newEvidence: Evidence = {
+        id: uuidv4(),
+        name,
+        description,
+        ...(evidenceType ? { evidenceType } : {}),
+        ...(attachment ? { attachment } : {})
+      };
+      setTargetCauses(target, updateCauseInTree(target.causes, cause.id, c => ({ ...c, evidence: [...c.evidence, newEvidence] })));
+      return succeeded(
+        target.isEdge ? `Added Evidence to Link Factor '${cause.name}': ${name}` : `Added Evidence to Factor '${cause.name}': ${name}`,
+        `Attached evidence "${name}" to cause "${cause.name}"`,
+        { id: newEvidence.id, causeId: cause.id }
+      );
+    }
+    else if (tool.name === 'extract_evidence') {
+      const { causeId, targetId, causeName, causeDescription, name, description, evidenceType } = args;
+      if (!isName(name)) return failed('Missing required argument "name"');
+      if (!isValidEvidenceType(evidenceType)) return unknownEvidenceType(evidenceType);
+      const resolved = resolveCitation(sources, args);
+      if ('error' in resolved) return failed(resolved.error);
+
+      const newEvidence: Evidence = {
+        id: uuidv4(),
+        name,
+        description,
+        ...(evidenceType ? { evidenceType } : {}),
+        citations: [resolved.citation]
+      };
+      const source = describeCitation(resolved.citation);
+
+      if (causeId) {
+        const located = locateCause(causeId);
+        if (!located) return missingCause('causeId', causeId);
+        const { target, cause } = located;
+        setTargetCauses(target, updateCauseInTree(target.causes, cause.id, c => ({ ...c, evidence: [...c.evidence, newEvidence] })));
+        return succeeded(
+          `Added Evidence to Factor '${cause.name}' from ${source}: ${name}`,
+          `Attached evidence "${name}" citing ${source} to cause "${cause.name}"`,
+          { id: newEvidence.id, causeId: cause.id }
+        );
+      }
+
+      if (!targetId || !causeName) return failed('Pass causeId to support an existing cause, or targetId and causeName to add a new one');
+      const target = findTarget(targetId);
+      if (!target) return missingTarget(targetId);
+      const newCause: Cause = { id: uuidv4(), name: causeName, description: causeDescription, evidence: [newEvidence] };
+      setTargetCauses(target, [...target.causes, newCause]);
+      return succeeded(
+        `Added Factor to ${targetLabel(target)} from ${source}: ${causeName}`,
+        `Added factor "${causeName}" to node "${targetId}" with evidence "${name}" citing ${source}`,
+        { id: newCause.id, evidenceId: newEvidence.id }
+      );
+    }
+    else if (tool.name === 'update_cause') {
+      const { causeId, name, description } = args;
+      const located = locateCause(causeId);
+      if (!located) return missingCause('causeId', causeId);
+      if (name === undefined && description === undefined) return failed('Nothing to update: pass a name and/or description');
+
+      const { target, cause } = located;
+      setTargetCauses(target, updateCauseInTree(target.causes, cause.id, c => ({
+        ...c,
+        name: name || c.name,
+        description: description !== undefined ? description : c.description
+      })));
+      return succeeded(
+        name && name !== cause.name ? `Renamed Factor '${cause.name}' to '${name}'` : `Updated Factor: ${cause.name}`,
+        `Updated cause "${name || cause.name}"`,
+        { id: cause.id }
+      );
+    }
+    else if (tool.name === 'delete_cause') {
+      const { causeId } = args;
+      const located = locateCause(causeId);
+      if (!located) return missingCause('causeId', causeId);
+
+      const { target, cause } = located;
+      const nested = countCauses(getSubCauses(cause));
+      setTargetCauses(target, removeCauseFromTree(target.causes, cause.id));
+      return succeeded(
+        `Removed Factor '${cause.name}'${nested ? ` and ${nested} sub-cause(s)` : ''}`,
+        `Removed cause "${cause.name}", ${nested} sub-cause(s) and ${flattenCauses([cause]).reduce((sum, c) => sum + c.evidence.length, 0)} evidence item(s)`,
+        { id: cause.id }
+      );
+    }
+    else if (tool.name === 'move_cause') {
+      const { causeId, parentCauseId, targetId, targetType } = args;
+      const located = locateCause(causeId);
+      if (!located) return missingCause('causeId', causeId);
+
+      const { cause } = located;
+      if (parentCauseId) {
+        if (parentCauseId === cause.id || findCauseById(getSubCauses(cause), parentCauseId)) {
+          return failed(`Cannot move cause "${cause.name}" beneath itself or one of its own sub-causes`);
+        }
+        if (!locateCause(parentCauseId)) return missingCause('parentCauseId', parentCauseId);
+      } else if (targetId) {
+        if (!findTarget(targetId, targetType)) return missingTarget(targetId, targetType);
+      } else {
+        return failed('Pass parentCauseId (to nest it) or targetId (to make it a top-level factor)');
+      }
+
+      // Detach first, then resolve the destination again: it may live in the same container
+      setTargetCauses(located.target, removeCauseFromTree(located.target.causes, cause.id));
+      if (parentCauseId) {
+        const destination = locateCause(parentCauseId)!;
+        setTargetCauses(destination.target, addSubCause(destination.target.causes, parentCauseId, cause));
+        return succeeded(`Moved Factor '${cause.name}' under '${destination.cause.name}'`, `Moved cause "${cause.name}" under "${destination.cause.name}"`, { id: cause.id });
+      }
+      const destination = findTarget(targetId, targetType)!;
+      setTargetCauses(destination, [...destination.causes, cause]);
+      return succeeded(`Moved Factor '${cause.name}' to ${targetLabel(destination)}`, `Moved cause "${cause.name}" to "${targetId}"`, { id: cause.id });
+    }
+    else if (tool.name === 'assess_cause') {
+      const { causeId, status, likelihood, impact } = args;
+      const located = locateCause(causeId);
+      if (!located) return missingCause('causeId', causeId);
+      if (status !== undefined && !Object.values(CauseStatus).includes(status)) {
+        return failed(`Unknown status "${status}". Use one of ${Object.values(CauseStatus).join(', ')}`);
+      }
+      const badScore = [['likelihood', likelihood], ['impact', impact]].find(([, v]) => v !== undefined && !isValidScore(v));
+      if (badScore) return failed(`${badScore[0]} must be an integer from ${MIN_SCORE} to ${MAX_SCORE}`);
+      if (status === undefined && likelihood === undefined && impact === undefined) {
+        return failed('Nothing to update: pass a status, likelihood and/or impact');
+      }
+
+      const { target, cause } = located;
+      const assessed: Cause = {
+        ...cause,
+        status: status ?? cause.status,
+        likelihood: likelihood ?? cause.likelihood,
+        impact: impact ?? cause.impact
+      };
+      setTargetCauses(target, updateCauseInTree(target.causes, cause.id, () => assessed));
+      const score = riskScore(assessed);
+      return succeeded(
+        `Assessed Factor '${cause.name}': ${CAUSE_STATUS_LABELS[getCauseStatus(assessed)]}${score ? ` (score ${score})` : ''}`,
+        `Cause "${cause.name}" is now ${getCauseStatus(assessed)}${score ? ` with likelihood × impact = ${score}` : ''}`,
+        { id: cause.id, status: getCauseStatus(assessed), score }
+      );
+    }
+    else if (tool.name === 'update_evidence') {
+      const { evidenceId, name, description, evidenceType } = args;
+      const located = locateEvidence(evidenceId);
+      if (!located) return missingEvidence(evidenceId);
+      if (!isValidEvidenceType(evidenceType)) return unknownEvidenceType(evidenceType);
+      if (name === undefined && description === undefined && evidenceType === undefined) {
+        return failed('Nothing to update: pass a name, description and/or evidenceType');
+      }
+
+      const { target, cause, evidence } = located;
+      setTargetCauses(target, updateCauseInTree(target.causes, cause.id, c => ({
+        ...c,
+        evidence: c.evidence.map(ev => ev.id !== evidence.id ? ev : {
+          ...ev,
+          name: name || ev.name,
+          description: description !== undefined ? description : ev.description,
+          evidenceType: evidenceType ?? ev.evidenceType
+        })
+      })));
+      return succeeded(`Updated Evidence on '${cause.name}': ${name || evidence.name}`, `Updated evidence "${name || evidence.name}"`, { id: evidence.id });
+    }
+    else if (tool.name === 'delete_evidence') {
+      const { evidenceId } = args;
+      const located = locateEvidence(evidenceId);
+      if (!located) return missingEvidence(evidenceId);
+
+      const { target, cause, evidence } = located;
+      setTargetCauses(target, updateCauseInTree(target.causes, cause.id, c => ({
+        ...c,
+        evidence: c.evidence.filter(ev => ev.id !== evidence.id)
+      })));
+      return succeeded(`Removed Evidence from '${cause.name}': ${evidence.name}`, `Removed evidence "${evidence.name}" from cause "${cause.name}"`, { id: evidence.id });
+    }
+
+    else if (tool.name === 'propose_action') {
+      const { title, description, type, owner, dueDate, id } = args;
+      if (!title) return failed('Missing required argument "title"');
+      if (!findTopEvent(localNodes)) return failed('The diagram has no problem node to hold the action plan');
+      const invalid = checkActionFields({ causeIds: [], ...args });
+      if (invalid) return invalid;
+      const actions = getActions(localNodes);
+      if (id && actions.some(a => a.id === id)) return failed(`Action "${id}" already exists`);
+
+      const action: CorrectiveAction = {
+        id: id || uuidv4(),
+        title,
+        ...(description ? { description } : {}),
+        ...(type ? { type } : {}),
+        causeIds: [...new Set<string>(args.causeIds)],
+        ...(owner ? { owner } : {}),
+        ...(dueDate ? { dueDate } : {}),
+        status: ActionStatus.OPEN
+      };
+      localNodes = setActions(localNodes, [...actions, action]);
+      return succeeded(
+        `Proposed Action: ${title}`,
+        `Added action "${title}" for ${causeNames(action.causeIds)}`,
+        { id: action.id }
+      );
+    }
+    else if (tool.name === 'update_action') {
+      const { actionId, title, description, type, owner, dueDate, status, effectiveness, verificationMethod, verifiedBy, verifiedAt, causeIds } = args;
+      const actions = getActions(localNodes);
+      const action = actions.find(a => a.id === actionId);
+      if (!action) {
+        const named = actions.filter(a => a.title.toLowerCase() === String(actionId).toLowerCase());
+        return failed(named.length === 1
+          ? `No action with ID "${actionId}". "${named[0].title}" has ID "${named[0].id}"`
+          : `No action with ID "${actionId}". Use the IDs from the action plan in the graph context`);
+      }
+      const invalid = checkActionFields(args);
+      if (invalid) return invalid;
+      const verificationPatch = { result: effectiveness, method: verificationMethod, verifiedBy, verifiedAt };
+      const hasVerification = Object.values(verificationPatch).some(v => v !== undefined);
+      if ([title, description, type, owner, dueDate, status, causeIds].every(v => v === undefined) && !hasVerification) {
+        return failed('Nothing to update: pass the fields to change');
+      }
+
+      const updated: CorrectiveAction = {
+        ...action,
+        title: title || action.title,
+        description: description ?? action.description,
+        type: type ?? action.type,
+        causeIds: causeIds ? [...new Set<string>(causeIds)] : action.causeIds,
+        owner: owner ?? action.owner,
+        dueDate: dueDate ?? action.dueDate,
+        status: status ?? action.status,
+        verification: !hasVerification ? action.verification : {
+          ...action.verification,
+          ...Object.fromEntries(Object.entries(verificationPatch).filter(([, v]) => v !== undefined))
+        }
+      };
+      localNodes = setActions(localNodes, actions.map(a => a.id === action.id ? updated : a));
+      return succeeded(
+        `Updated Action '${updated.title}': ${ACTION_STATUS_LABELS[getActionStatus(updated)]}`,
+        `Action "${updated.title}" is now ${getActionStatus(updated)}`,
+        { id: updated.id, status: getActionStatus(updated) }
+      );
+    }
+
+    else if (tool.name === 'suggest_causes') {
+      const { query, limit } = args;
+      const history = context.history;
+      if (!history || history.analysisCount === 0) {
+        return { ok: true, message: 'No other analyses are saved in this workspace yet', data: { suggestions: [] } };
+      }
+      const problem = findTopEvent(localNodes);
+      const text = String(query || [problem?.data.title, problem?.data.description].filter(Boolean).join(' ')).trim();
+      if (!text) return failed('Pass a query: there is no problem statement to match');
+      const suggestions = suggestCauses(history, text, {
+        existing: allCauses().map(c => c.name),
+        limit: Number(limit) > 0 ? Number(limit) : undefined
+      }).map(({ name, domain, analysisNames, rootCauseCount }) => ({ name, domain, analyses: analysisNames, rootCauseCount }));
+      if (suggestions.length === 0) {
+        return { ok: true, message: `No matching causes in ${history.analysisCount} past analyses`, data: { suggestions } };
+      }
+      // Lookups leave the change log alone: nothing on the diagram changed
+      return {
+        ok: true,
+        message: `${suggestions.length} candidate cause${suggestions.length === 1 ? '' : 's'} from past analyses. Treat them as hypotheses to test with the user, not findings`,
+        data: { suggestions }
+      };
+    }
+
+    return failed(`Unknown tool "${tool.name}"`);
+  });
+
+  return { nodes: localNodes, edges: localEdges, changeLog, results };
+};
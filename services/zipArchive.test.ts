@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zipArchive';
+
+describe('zipArchive', () => {
+  it('reads back the entries it writes', async () => {
+    const entries = [
+      { name: 'analysis.json', data: new TextEncoder().encode('{"nodes":[]}') },
+      { name: 'artifacts/abc/Prüfbericht.pdf', data: new Uint8Array([0, 1, 2, 255]) },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ];
+
+    const read = await readZip(await createZip(entries).arrayBuffer());
+
+    expect(read.map(e => e.name)).toEqual(entries.map(e => e.name));
+    read.forEach((entry, i) => expect(Array.from(entry.data)).toEqual(Array.from(entries[i].data)));
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip').buffer as ArrayBuffer)).rejects.toThrow();
+  });
+});
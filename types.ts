@@ -1,14 +1,100 @@
+import { Node, Edge } from 'reactflow';
 
 export enum NodeType {
-  PROBLEM = 'PROBLEM',
+  PROBLEM = 'PROBLEM', // Fishbone head; the top event of a fault tree or bow-tie
   CATEGORY = 'CATEGORY',
-  SPINE = 'SPINE' // Structural nodes for the fishbone spine
+  SPINE = 'SPINE', // Structural nodes for the fishbone spine
+  // Fault tree
+  GATE = 'GATE',
+  EVENT = 'EVENT', // Intermediate event, explained further by a gate below it
+  BASIC_EVENT = 'BASIC_EVENT', // Leaf: not developed further
+  // Bow-tie
+  THREAT = 'THREAT',
+  BARRIER = 'BARRIER',
+  CONSEQUENCE = 'CONSEQUENCE'
+}
+
+// The analysis method is implied by the node types on the canvas
+export enum RcaMethod {
+  FISHBONE = 'fishbone',
+  FAULT_TREE = 'fault_tree',
+  BOW_TIE = 'bow_tie'
+}
+
+export enum GateType {
+  AND = 'AND', // All inputs must occur
+  OR = 'OR' // Any input is enough
+}
+
+export enum BarrierType {
+  PREVENTIVE = 'preventive', // Between a threat and the top event
+  MITIGATIVE = 'mitigative' // Between the top event and a consequence
+}
+
+// How causes are drawn on the canvas: listed inside category cards, or as bones off each rib
+export enum DiagramView {
+  CARDS = 'cards',
+  BONES = 'bones'
+}
+
+export enum AttachmentKind {
+  FILE = 'file', // Stored locally; content lives in the artifact store, keyed by its hash
+  URL = 'url',
+  DOCUMENT = 'document' // Reference into an external system, e.g. a DMS ID or policy number
+}
+
+export interface EvidenceAttachment {
+  kind: AttachmentKind;
+  fileName?: string;
+  mimeType?: string;
+  size?: number; // Bytes
+  sha256?: string; // Hex digest of the file content; also its key in the artifact store
+  url?: string;
+  reference?: string;
+}
+
+// Kind of evidence, which drives how much weight it carries (a system log outweighs an interview)
+export enum EvidenceType {
+  SYSTEM_LOG = 'system_log',
+  RECORD = 'record', // Policies, tickets, approvals, signed documents
+  DATA_ANALYSIS = 'data_analysis',
+  OBSERVATION = 'observation',
+  INTERVIEW = 'interview',
+  OTHER = 'other'
+}
+
+export enum EvidenceSufficiency {
+  NONE = 'none',
+  WEAK = 'weak',
+  ADEQUATE = 'adequate',
+  STRONG = 'strong'
+}
+
+// The passage of an attached document that a piece of evidence was drawn from
+export interface EvidenceCitation {
+  fileName: string;
+  sha256?: string; // Hash of the extracted text the line numbers refer to; its key in the artifact store
+  quote?: string; // Verbatim from the extracted text
+  startLine?: number; // 1-based, inclusive
+  endLine?: number;
 }
 
 export interface Evidence {
   id: string;
   name: string; // e.g., "Log ID 123", "Policy Doc"
   description?: string;
+  evidenceType?: EvidenceType; // Unset counts as other
+  attachment?: EvidenceAttachment;
+  citations?: EvidenceCitation[];
+  collectedBy?: string;
+  collectedAt?: string; // ISO date (YYYY-MM-DD)
+}
+
+export enum CauseStatus {
+  HYPOTHESIS = 'hypothesis',
+  VALIDATED = 'validated',
+  REJECTED = 'rejected',
+  ROOT_CAUSE = 'root_cause'
 }
 
 export interface Cause {
@@ -16,6 +102,49 @@ export interface Cause {
   name: string; // The contributing factor
   description?: string;
   evidence: Evidence[]; // Supporting artifacts
+  subCauses?: Cause[]; // Nested "why" chain (5 Whys), any depth
+  status?: CauseStatus; // Unset means hypothesis
+  likelihood?: number; // 1-5
+  impact?: number; // 1-5
+}
+
+export enum ActionType {
+  CORRECTIVE = 'corrective', // Removes the cause of the problem that occurred
+  PREVENTIVE = 'preventive' // Stops a similar problem occurring elsewhere
+}
+
+export enum ActionStatus {
+  OPEN = 'open',
+  IN_PROGRESS = 'in_progress',
+  IMPLEMENTED = 'implemented',
+  VERIFIED = 'verified', // Implemented and checked for effectiveness
+  CANCELLED = 'cancelled'
+}
+
+export enum Effectiveness {
+  EFFECTIVE = 'effective',
+  NOT_EFFECTIVE = 'not_effective'
+}
+
+// Verification of effectiveness, recorded once an action is implemented
+export interface ActionVerification {
+  result?: Effectiveness;
+  method?: string; // e.g. "Re-performed the control on a sample of 25"
+  verifiedBy?: string;
+  verifiedAt?: string; // ISO date (YYYY-MM-DD)
+}
+
+// Corrective or preventive action (CAPA) from the management action plan
+export interface CorrectiveAction {
+  id: string;
+  title: string;
+  description?: string;
+  type?: ActionType; // Unset counts as corrective
+  causeIds: string[]; // Causes the action addresses, anywhere in the graph
+  owner?: string;
+  dueDate?: string; // ISO date (YYYY-MM-DD)
+  status?: ActionStatus; // Unset means open
+  verification?: ActionVerification;
 }
 
 export interface ProcessNodeData {
@@ -24,6 +153,10 @@ export interface ProcessNodeData {
   title: string;
   description?: string;
   causes: Cause[]; // Renamed from risks
+  gate?: GateType; // Gate nodes
+  barrier?: BarrierType; // Barrier nodes
+  actions?: CorrectiveAction[]; // Problem node: the analysis's action plan
+  compact?: boolean; // Display only: the bone view draws the causes on the rib instead
   // Updated to accept partial data update
   onEdit?: (id: string, data: Partial<ProcessNodeData>) => void;
 }
@@ -33,6 +166,71 @@ export interface EdgeData {
   causes?: Cause[];
 }
 
+export interface ToolCall {
+  id?: string; // Call id, echoed back with its result on the next model round
+  name: string;
+  args: any;
+}
+
+// Structured outcome of one tool call, returned to the model as a function response
+export interface ToolResult {
+  ok: boolean;
+  message: string;
+  data?: Record<string, any>; // e.g. IDs created by the call
+}
+
+export enum ChangeKind {
+  ADDED = 'added',
+  CHANGED = 'changed',
+  REMOVED = 'removed'
+}
+
+export interface DiffEntry {
+  kind: ChangeKind;
+  entity: 'node' | 'edge' | 'cause' | 'evidence' | 'action';
+  label: string;
+  detail?: string; // e.g. container name or "old → new"
+  quote?: string; // Cited passage, for evidence drawn from a document
+}
+
+// A single assistant tool call awaiting review, with its preview diff
+export interface ProposedChange {
+  id: string;
+  toolCall: ToolCall;
+  summary: string;
+  diff: DiffEntry[];
+}
+
+export enum ProposalStatus {
+  PENDING = 'pending',
+  APPLIED = 'applied',
+  REJECTED = 'rejected'
+}
+
+export interface ChangeProposal {
+  status: ProposalStatus;
+  changes: ProposedChange[];
+  acceptedIds?: string[]; // Set once applied (accepting in part keeps a subset)
+}
+
+export enum ToolActivityStatus {
+  APPLIED = 'applied',
+  FAILED = 'failed',
+  PROPOSED = 'proposed',
+  DISCARDED = 'discarded',
+  LOOKED_UP = 'looked_up' // Read-only tool; nothing to apply
+}
+
+// A function call as it arrived during a streamed assistant turn
+export interface ToolActivity {
+  id: string;
+  name: string;
+  summary: string;
+  status: ToolActivityStatus;
+  step?: number; // Round of the tool loop that produced the call (1-based)
+  detail?: string; // Result message reported back to the model, e.g. why it failed
+}
+
 export enum MessageRole {
   USER = 'user',
   MODEL = 'model'
@@ -42,16 +240,64 @@ export enum ContentType {
   TEXT = 'text',
 }
 
+export enum DocumentKind {
+  TEXT = 'text', // Plain text, Markdown, JSON, CSV, logs
+  PDF = 'pdf',
+  DOCX = 'docx',
+  XLSX = 'xlsx'
+}
+
+// Text extracted in the browser from a chat attachment, one line per paragraph or sheet row
+export interface ExtractedDocument {
+  fileName: string;
+  kind: DocumentKind;
+  size: number; // Bytes of the original file
+  text: string;
+  warning?: string; // e.g. a PDF without a text layer
+  sha256?: string; // Set once the text is kept in the artifact store, so citations can point back to it
+}
+
 export interface ChatMessage {
   id: string;
   role: MessageRole;
   content: string; // Text content
   type: ContentType;
   timestamp: number;
-  attachedFileName?: string;
+  attachedFileName?: string; // Single attachment, as saved by older versions
+  attachedFileNames?: string[];
+  proposal?: ChangeProposal; // Diagram changes held back for review
+  isStreaming?: boolean;
+  toolActivity?: ToolActivity[];
+}
+
+export interface AnalysisSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  businessUnit?: string; // Owning unit, for portfolio reporting
+  template?: string; // Category template (or method) it was started from
+}
+
+// One RCA investigation as stored in the local workspace
+export interface AnalysisRecord extends AnalysisSummary {
+  nodes: Node[];
+  edges: Edge[];
+  messages: ChatMessage[];
+}
+
+// A reusable set of fishbone categories (6M, 8P, a team's own control domains, ...)
+export interface CategoryTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  categories: { id?: string; title: string; description?: string }[]; // Rib order, tail to head
+  builtIn?: boolean; // Shipped with the app; cannot be deleted
+  createdAt?: number;
 }
 
-export interface SimulationResult {
-  bin: string;
-  frequency: number;
+// What a brand new analysis starts from
+export interface BlankAnalysisOptions {
+  method?: RcaMethod;
+  template?: CategoryTemplate; // Fishbone only; defaults to the audit domains
 }